@@ -3,17 +3,29 @@ import { AdminSidebar } from './components/AdminSidebar';
 import { AdminDashboard } from './components/AdminDashboard';
 import { CandidatesList } from './components/CandidatesList';
 import { TestsManager } from './components/TestsManager';
+import { QuestionBank } from './components/QuestionBank';
+import { CategoriesManager } from './components/CategoriesManager';
 import { CandidateView } from './components/CandidateView';
+import { CandidateHome } from './components/CandidateHome';
 import { ResultsAnalysis } from './components/ResultsAnalysis';
 import { AdminUsersList } from './components/AdminUsersList';
+import { DeliveriesList } from './components/DeliveriesList';
 import { ViewState, UserRole } from './types';
 import { Hexagon, Loader2, AlertCircle } from 'lucide-react';
 import { supabase } from './supabaseClient';
 
+// The role is read from the profile: user_metadata can be edited by the user themselves
+const fetchRole = async (userId: string): Promise<UserRole> => {
+  const { data, error } = await supabase.from('profiles').select('role').eq('id', userId).maybeSingle();
+  if (error) throw error;
+  return data?.role === 'admin' ? 'admin' : 'candidate';
+};
+
 const App: React.FC = () => {
   const [role, setRole] = useState<UserRole>(null);
   const [view, setView] = useState<ViewState>('dashboard');
   const [candidateId, setCandidateId] = useState<string>('');
+  const [activeTestId, setActiveTestId] = useState<string | null>(null); // test of the battery being taken
   
   // Admin User State
   const [adminName, setAdminName] = useState('');
@@ -35,7 +47,7 @@ const App: React.FC = () => {
         const { data: { session } } = await supabase.auth.getSession();
         
         if (session?.user) {
-           const userRole = session.user.user_metadata.role;
+           const userRole = await fetchRole(session.user.id);
            if (userRole === 'admin') {
               setRole('admin');
               setView('dashboard');
@@ -63,21 +75,27 @@ const App: React.FC = () => {
             setAdminName('');
             setAdminEmail('');
             setCandidateId('');
+            setActiveTestId(null);
             setEmail('');
             setPassword('');
             setView('dashboard'); // Reset view default
         } else if (event === 'SIGNED_IN' && session?.user) {
             // Logic handled by handleLogin or checkSession usually, 
             // but ensuring state sync here covers edge cases
-            const userRole = session.user.user_metadata.role;
-            if (userRole === 'admin') {
-                setRole('admin');
-                setAdminName(session.user.user_metadata.name || 'Admin');
-                setAdminEmail(session.user.email || '');
-            } else {
-                setRole('candidate');
-                setCandidateId(session.user.id);
-            }
+            // Deferred: awaiting Supabase calls inside this callback can deadlock the client
+            const user = session.user;
+            setTimeout(() => {
+                fetchRole(user.id).then(userRole => {
+                    if (userRole === 'admin') {
+                        setRole('admin');
+                        setAdminName(user.user_metadata.name || 'Admin');
+                        setAdminEmail(user.email || '');
+                    } else {
+                        setRole('candidate');
+                        setCandidateId(user.id);
+                    }
+                }).catch(error => console.error("Error loading role:", error));
+            }, 0);
         }
     });
 
@@ -95,10 +113,16 @@ const App: React.FC = () => {
         return <CandidatesList />;
       case 'tests':
         return <TestsManager />;
+      case 'question-bank':
+        return <QuestionBank />;
+      case 'categories':
+        return <CategoriesManager />;
       case 'results':
         return <ResultsAnalysis />;
       case 'admin-users':
         return <AdminUsersList />;
+      case 'deliveries':
+        return <DeliveriesList />;
       default:
         return <AdminDashboard />;
     }
@@ -119,8 +143,8 @@ const App: React.FC = () => {
         if (error) throw error;
 
         if (data.user) {
-            // Check role from metadata
-            const userRole = data.user.user_metadata.role;
+            // Check role from the profile
+            const userRole = await fetchRole(data.user.id);
             if (userRole === 'admin') {
                 setRole('admin');
                 setView('dashboard');
@@ -235,12 +259,20 @@ const App: React.FC = () => {
 
   // 3. Candidate View
   if (role === 'candidate') {
+    if (activeTestId) {
+      return (
+        <CandidateView 
+          candidateId={candidateId} 
+          testId={activeTestId}
+          onComplete={() => setActiveTestId(null)} 
+        />
+      );
+    }
     return (
-      <CandidateView 
-        candidateId={candidateId} 
-        onComplete={() => {
-            handleLogout();
-        }} 
+      <CandidateHome
+        candidateId={candidateId}
+        onStart={setActiveTestId}
+        onLogout={handleLogout}
       />
     );
   }
@@ -1,8 +1,11 @@
 import React, { useEffect, useState } from 'react';
-import { Users, FileText, CheckCircle, Clock, ArrowUpRight, Loader2, AlertCircle } from 'lucide-react';
+import { Users, FileText, CheckCircle, Clock, ArrowUpRight, Loader2, AlertCircle, AlertTriangle } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
-import { ChartColor, Candidate } from '../types';
+import { ChartColor, Candidate, TestAssignment } from '../types';
 import { supabase } from '../supabaseClient';
+import { CANDIDATE_STATUS_LABELS, applyExpiry, fetchAssignments, formatDeadline, hasOverdue, isOverdue, nextDeadline } from '../services/assignments';
+
+type CandidateFilter = 'recent' | 'overdue' | 'expired';
 
 export const AdminDashboard: React.FC = () => {
   const [loading, setLoading] = useState(true);
@@ -13,12 +16,14 @@ export const AdminDashboard: React.FC = () => {
     total: 0,
     activeTests: 0,
     completed: 0,
-    pending: 0
+    pending: 0,
+    overdue: 0
   });
   
   const [monthlyData, setMonthlyData] = useState<any[]>([]);
   const [statusData, setStatusData] = useState<any[]>([]);
-  const [recentCandidates, setRecentCandidates] = useState<any[]>([]);
+  const [allCandidates, setAllCandidates] = useState<any[]>([]);
+  const [candidateFilter, setCandidateFilter] = useState<CandidateFilter>('recent');
 
   useEffect(() => {
     fetchDashboardData();
@@ -45,7 +50,17 @@ export const AdminDashboard: React.FC = () => {
 
       if (profilesError) throw profilesError;
 
-      const candidates = profilesData || [];
+      // 3. Fetch deadlines, attached to each candidate's battery
+      const assignments: TestAssignment[] = await fetchAssignments().catch(err => {
+        console.warn('Error fetching assignments:', err);
+        return [];
+      });
+
+      const candidates = await applyExpiry((profilesData || []).map((c: any) => ({
+        ...c,
+        status: c.status || 'pending',
+        assignments: assignments.filter(a => a.candidateId === c.id)
+      })));
       const tests = testsData || [];
 
       // --- Calculate Stats ---
@@ -53,14 +68,16 @@ export const AdminDashboard: React.FC = () => {
       const activeTests = tests.filter(t => t.active).length;
       const completed = candidates.filter(c => c.status === 'completed').length;
       const pending = candidates.filter(c => c.status === 'pending' || c.status === 'in-progress').length; // Group pending & in-progress for the card
+      const overdue = candidates.filter(c => hasOverdue(c.assignments)).length;
 
-      setStats({ total, activeTests, completed, pending });
+      setStats({ total, activeTests, completed, pending, overdue });
 
       // --- Calculate Status Chart (Pie) ---
       const statusCounts = {
         'Concluídos': candidates.filter(c => c.status === 'completed').length,
         'Em Progresso': candidates.filter(c => c.status === 'in-progress').length,
-        'Pendentes': candidates.filter(c => c.status === 'pending').length
+        'Pendentes': candidates.filter(c => c.status === 'pending').length,
+        'Expirados': candidates.filter(c => c.status === 'expired').length
       };
 
       const pieData = Object.entries(statusCounts)
@@ -104,8 +121,8 @@ export const AdminDashboard: React.FC = () => {
       
       setMonthlyData(barData);
 
-      // --- Recent Candidates ---
-      setRecentCandidates(candidates.slice(0, 5));
+      // --- Candidates table (recent ones, or every overdue/expired one) ---
+      setAllCandidates(candidates);
 
     } catch (err: any) {
       console.error('Error loading dashboard:', err);
@@ -115,6 +132,10 @@ export const AdminDashboard: React.FC = () => {
     }
   };
 
+  const listedCandidates = candidateFilter === 'recent'
+    ? allCandidates.slice(0, 5)
+    : allCandidates.filter(c => candidateFilter === 'overdue' ? hasOverdue(c.assignments) : c.status === 'expired');
+
   // Custom Card Component
   const StatCard = ({ title, value, subtext, icon: Icon, colorClass }: any) => (
     <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col justify-between hover:shadow-md transition-shadow">
@@ -174,7 +195,7 @@ export const AdminDashboard: React.FC = () => {
       </div>
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
         <StatCard 
           title="Total de Candidatos" 
           value={stats.total} 
@@ -203,6 +224,13 @@ export const AdminDashboard: React.FC = () => {
           icon={Clock} 
           colorClass="bg-orange-500 text-orange-600" 
         />
+        <StatCard 
+          title="Atrasados" 
+          value={stats.overdue} 
+          subtext="Prazo de entrega vencido" 
+          icon={AlertTriangle} 
+          colorClass="bg-red-500 text-red-600" 
+        />
       </div>
 
       {/* Charts Section */}
@@ -248,6 +276,7 @@ export const AdminDashboard: React.FC = () => {
                      if (entry.name === 'Concluídos') color = ChartColor.Primary;
                      if (entry.name === 'Em Progresso') color = '#a7f3d0';
                      if (entry.name === 'Pendentes') color = ChartColor.Neutral;
+                     if (entry.name === 'Expirados') color = '#fca5a5';
                      return <Cell key={`cell-${index}`} fill={color} />;
                   })}
                 </Pie>
@@ -261,9 +290,24 @@ export const AdminDashboard: React.FC = () => {
 
       {/* Recent Candidates List */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
-        <div className="p-6 border-b border-gray-100">
-          <h3 className="text-lg font-semibold text-gray-800">Candidatos Recentes</h3>
-          <p className="text-sm text-gray-400">Últimos candidatos cadastrados no sistema</p>
+        <div className="p-6 border-b border-gray-100 flex justify-between items-start gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800">
+              {candidateFilter === 'recent' ? 'Candidatos Recentes' : candidateFilter === 'overdue' ? 'Candidatos Atrasados' : 'Candidatos Expirados'}
+            </h3>
+            <p className="text-sm text-gray-400">
+              {candidateFilter === 'recent' ? 'Últimos candidatos cadastrados no sistema' : candidateFilter === 'overdue' ? 'Prazo de entrega vencido, teste ainda não concluído' : 'Prazo expirado antes da conclusão do teste'}
+            </p>
+          </div>
+          <select
+            value={candidateFilter}
+            onChange={(e) => setCandidateFilter(e.target.value as CandidateFilter)}
+            className="border border-gray-200 rounded-lg px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          >
+            <option value="recent">Recentes</option>
+            <option value="overdue">Atrasados ({stats.overdue})</option>
+            <option value="expired">Expirados</option>
+          </select>
         </div>
         <div className="overflow-x-auto">
           <table className="w-full text-left border-collapse">
@@ -273,35 +317,40 @@ export const AdminDashboard: React.FC = () => {
                 <th className="p-4 bg-gray-50 text-xs font-semibold text-gray-500 uppercase tracking-wider">Email</th>
                 <th className="p-4 bg-gray-50 text-xs font-semibold text-gray-500 uppercase tracking-wider">Teste</th>
                 <th className="p-4 bg-gray-50 text-xs font-semibold text-gray-500 uppercase tracking-wider">Data Cadastro</th>
+                <th className="p-4 bg-gray-50 text-xs font-semibold text-gray-500 uppercase tracking-wider">Prazo</th>
                 <th className="p-4 bg-gray-50 text-xs font-semibold text-gray-500 uppercase tracking-wider">Status</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
-              {recentCandidates.length > 0 ? (
-                recentCandidates.map((candidate: any) => (
+              {listedCandidates.length > 0 ? (
+                listedCandidates.map((candidate: any) => (
                     <tr key={candidate.id} className="hover:bg-gray-50 transition-colors">
                     <td className="p-4 text-sm font-medium text-gray-800">{candidate.name || 'Sem nome'}</td>
                     <td className="p-4 text-sm text-gray-500">{candidate.email}</td>
                     <td className="p-4 text-sm text-gray-500">
                         {candidate.tests?.title || '-'}
+                        {candidate.assignments.length > 1 && <span className="text-xs text-gray-400"> +{candidate.assignments.length - 1} na bateria</span>}
                     </td>
                     <td className="p-4 text-sm text-gray-500">
                         {candidate.created_at ? new Date(candidate.created_at).toLocaleDateString('pt-BR') : '-'}
                     </td>
+                    <td className={`p-4 text-sm ${isOverdue(nextDeadline(candidate.assignments)) ? 'text-orange-700 font-semibold' : 'text-gray-500'}`}>
+                        {nextDeadline(candidate.assignments)?.dueAt ? formatDeadline(nextDeadline(candidate.assignments)!.dueAt!) : '-'}
+                    </td>
                     <td className="p-4">
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium
                         ${candidate.status === 'completed' ? 'bg-green-100 text-green-800' : 
                             candidate.status === 'in-progress' ? 'bg-yellow-100 text-yellow-800' : 
+                            candidate.status === 'expired' ? 'bg-red-100 text-red-800' :
                             'bg-gray-100 text-gray-800'}`}>
-                        {candidate.status === 'completed' ? 'Concluído' : 
-                        candidate.status === 'in-progress' ? 'Em Progresso' : 'Pendente'}
+                        {CANDIDATE_STATUS_LABELS[candidate.status as keyof typeof CANDIDATE_STATUS_LABELS] || CANDIDATE_STATUS_LABELS.pending}
                         </span>
                     </td>
                     </tr>
                 ))
               ) : (
                 <tr>
-                    <td colSpan={5} className="p-6 text-center text-sm text-gray-400">Nenhum candidato recente encontrado.</td>
+                    <td colSpan={6} className="p-6 text-center text-sm text-gray-400">Nenhum candidato encontrado.</td>
                 </tr>
               )}
             </tbody>
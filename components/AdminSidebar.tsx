@@ -1,5 +1,5 @@
 import React from 'react';
-import { LayoutDashboard, Users, FileText, BarChart2, LogOut, Hexagon, ShieldCheck } from 'lucide-react';
+import { LayoutDashboard, Users, FileText, BarChart2, LogOut, Hexagon, ShieldCheck, Send, Library, Layers } from 'lucide-react';
 import { ViewState } from '../types';
 
 interface SidebarProps {
@@ -54,12 +54,15 @@ export const AdminSidebar: React.FC<SidebarProps> = ({ currentView, onChangeView
           <NavItem view="dashboard" label="Dashboard" icon={LayoutDashboard} />
           <NavItem view="candidates" label="Candidatos" icon={Users} />
           <NavItem view="tests" label="Testes" icon={FileText} />
+          <NavItem view="question-bank" label="Banco de Questões" icon={Library} />
+          <NavItem view="categories" label="Categorias" icon={Layers} />
           <NavItem view="results" label="Resultados" icon={BarChart2} />
         </div>
         
         <div className="mb-6">
            <p className="px-4 text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Sistema</p>
            <NavItem view="admin-users" label="Usuários Admin" icon={ShieldCheck} />
+           <NavItem view="deliveries" label="Entregas" icon={Send} />
         </div>
       </div>
 
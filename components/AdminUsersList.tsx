@@ -90,6 +90,14 @@ export const AdminUsersList: React.FC = () => {
         if (error) throw error;
 
         if (data.user) {
+          // The profile is created as a candidate; only an admin can grant the role
+          const { error: roleError } = await supabase
+            .from('profiles')
+            .update({ role: 'admin' })
+            .eq('id', data.user.id);
+
+          if (roleError) throw roleError;
+
           // Ideally, the trigger handles profile creation, but we can manually insert if needed
           // or just wait for the trigger. Since we used metadata, let's refresh the list.
           
@@ -0,0 +1,123 @@
+import React from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown, CheckCircle } from 'lucide-react';
+import { CandidateStatus, Test } from '../types';
+import { CANDIDATE_STATUS_LABELS } from '../services/assignments';
+
+// One test of the battery as edited in the form; dates are 'YYYY-MM-DD' inputs
+export interface BatteryRow {
+  testId: string;
+  dueDate: string;
+  expiryDate: string;
+  status?: CandidateStatus; // set for tests already assigned
+}
+
+interface BatteryEditorProps {
+  rows: BatteryRow[];
+  tests: Test[];
+  onChange: (rows: BatteryRow[]) => void;
+}
+
+export const BatteryEditor: React.FC<BatteryEditorProps> = ({ rows, tests, onChange }) => {
+  const update = (idx: number, updates: Partial<BatteryRow>) =>
+    onChange(rows.map((row, i) => i === idx ? { ...row, ...updates } : row));
+
+  const move = (idx: number, direction: -1 | 1) => {
+    const next = [...rows];
+    [next[idx], next[idx + direction]] = [next[idx + direction], next[idx]];
+    onChange(next);
+  };
+
+  const available = (idx: number) => tests.filter(t => t.id === rows[idx].testId || !rows.some(r => r.testId === t.id));
+  const nextTest = tests.find(t => !rows.some(r => r.testId === t.id));
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-1">
+        <label className="block text-sm font-medium text-gray-700">Bateria de Testes</label>
+        <button
+          type="button"
+          onClick={() => nextTest && onChange([...rows, { testId: nextTest.id, dueDate: '', expiryDate: '' }])}
+          disabled={!nextTest}
+          className="text-xs font-medium text-emerald-600 hover:text-emerald-700 flex items-center gap-1 disabled:opacity-40"
+        >
+          <Plus size={14} /> Adicionar teste
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 mb-2">
+        O candidato realiza os testes nesta ordem. Após o prazo o teste aparece como atrasado; após a expiração não pode mais ser realizado. Datas são opcionais.
+      </p>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-400 border border-dashed border-gray-200 rounded-lg p-3 text-center">Nenhum teste atribuído.</p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map((row, idx) => {
+            const locked = row.status === 'completed';
+            return (
+              <div key={row.testId} className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-bold text-gray-400 w-4">{idx + 1}.</span>
+                  <select
+                    value={row.testId}
+                    disabled={locked}
+                    onChange={(e) => update(idx, { testId: e.target.value, status: undefined })}
+                    className="flex-1 border border-gray-300 rounded-lg p-2 text-sm bg-white outline-none focus:ring-2 focus:ring-emerald-500 disabled:bg-gray-100 disabled:text-gray-500"
+                  >
+                    {available(idx).map(t => (
+                      <option key={t.id} value={t.id}>{t.title}</option>
+                    ))}
+                    {/* A completed test may have been deactivated since */}
+                    {!tests.some(t => t.id === row.testId) && <option value={row.testId}>Teste inativo</option>}
+                  </select>
+                  {row.status && row.status !== 'pending' && (
+                    <span className="text-[10px] font-bold uppercase text-gray-500 flex items-center gap-1">
+                      {locked && <CheckCircle size={12} className="text-emerald-600" />}
+                      {CANDIDATE_STATUS_LABELS[row.status]}
+                    </span>
+                  )}
+                  <button type="button" onClick={() => move(idx, -1)} disabled={idx === 0} className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30" title="Mover para cima">
+                    <ChevronUp size={16} />
+                  </button>
+                  <button type="button" onClick={() => move(idx, 1)} disabled={idx === rows.length - 1} className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30" title="Mover para baixo">
+                    <ChevronDown size={16} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onChange(rows.filter((_, i) => i !== idx))}
+                    disabled={locked}
+                    className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30"
+                    title={locked ? 'Testes concluídos não podem ser removidos' : 'Remover'}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                {!locked && (
+                  <div className="grid grid-cols-2 gap-2 mt-2 pl-6">
+                    <label className="text-xs text-gray-500">
+                      Prazo de entrega
+                      <input
+                        type="date"
+                        value={row.dueDate}
+                        onChange={(e) => update(idx, { dueDate: e.target.value })}
+                        className="w-full border border-gray-300 rounded-lg p-1.5 text-sm bg-white outline-none focus:ring-2 focus:ring-emerald-500"
+                      />
+                    </label>
+                    <label className="text-xs text-gray-500">
+                      Expira em
+                      <input
+                        type="date"
+                        value={row.expiryDate}
+                        onChange={(e) => update(idx, { expiryDate: e.target.value })}
+                        className="w-full border border-gray-300 rounded-lg p-1.5 text-sm bg-white outline-none focus:ring-2 focus:ring-emerald-500"
+                      />
+                    </label>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
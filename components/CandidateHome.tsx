@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, CheckCircle, Clock, Lock, CalendarX, Calendar, Loader2, AlertTriangle, LogOut, ListChecks } from 'lucide-react';
+import { TestAssignment, TestVersion } from '../types';
+import { supabase } from '../supabaseClient';
+import { fetchVersion } from '../services/testVersions';
+import { CANDIDATE_STATUS_LABELS, currentAssignment, expireAssignments, fetchAssignments, formatDeadline, isOverdue } from '../services/assignments';
+
+interface CandidateHomeProps {
+  candidateId: string;
+  onStart: (testId: string) => void;
+  onLogout: () => void;
+}
+
+interface BatteryEntry {
+  assignment: TestAssignment;
+  version: TestVersion | null; // null when the test is no longer available
+}
+
+// The candidate's battery: every assigned test in order, taken one at a time
+export const CandidateHome: React.FC<CandidateHomeProps> = ({ candidateId, onStart, onLogout }) => {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [candidateName, setCandidateName] = useState('');
+  const [entries, setEntries] = useState<BatteryEntry[]>([]);
+
+  useEffect(() => {
+    const loadBattery = async () => {
+      setLoading(true);
+      try {
+        const { data: profile, error: profileError } = await supabase
+          .from('profiles')
+          .select('name')
+          .eq('id', candidateId)
+          .single();
+
+        if (profileError) throw profileError;
+        setCandidateName(profile.name);
+
+        const assignments = await expireAssignments(await fetchAssignments(candidateId));
+        // Titles and sizes come from the version pinned for the candidate
+        const versions = await Promise.all(assignments.map(a =>
+          fetchVersion(a.testId, a.testVersion).catch(() => null)
+        ));
+        setEntries(assignments.map((assignment, idx) => ({ assignment, version: versions[idx] })));
+      } catch (err: any) {
+        console.error('Error loading candidate battery:', err);
+        setError('Erro ao carregar seus testes: ' + (err.message || 'Erro desconhecido.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBattery();
+  }, [candidateId]);
+
+  if (loading) return <div className="min-h-screen bg-gray-50 flex items-center justify-center flex-col gap-4"><Loader2 className="w-10 h-10 text-emerald-600 animate-spin" /><p className="text-gray-500 font-medium">Carregando...</p></div>;
+
+  const current = currentAssignment(entries.map(e => e.assignment));
+  const completedCount = entries.filter(e => e.assignment.status === 'completed').length;
+  const allDone = entries.length > 0 && !current;
+
+  const renderAction = (entry: BatteryEntry) => {
+    const { assignment } = entry;
+    if (assignment.status === 'completed') return (
+      <span className="flex items-center gap-1.5 text-sm font-medium text-emerald-700">
+        <CheckCircle size={18} /> Concluído{assignment.completedAt && ` em ${formatDeadline(assignment.completedAt)}`}
+      </span>
+    );
+    if (assignment.status === 'expired') return (
+      <span className="flex items-center gap-1.5 text-sm font-medium text-red-600">
+        <CalendarX size={18} /> Prazo expirado
+      </span>
+    );
+    if (assignment.id !== current?.id) return (
+      <span className="flex items-center gap-1.5 text-sm text-gray-400">
+        <Lock size={16} /> Disponível após o teste anterior
+      </span>
+    );
+    if (!entry.version) return (
+      <span className="text-sm text-gray-400">Indisponível no momento. Entre em contato com o RH.</span>
+    );
+    return (
+      <button
+        type="button"
+        onClick={() => onStart(assignment.testId)}
+        className="flex items-center gap-2 px-5 py-2.5 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 transition-colors shadow-sm"
+      >
+        {assignment.status === 'in-progress' ? 'Continuar' : 'Iniciar'} <ArrowRight size={18} />
+      </button>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col font-sans">
+      {/* Header */}
+      <header className="bg-white shadow-sm px-6 py-4 flex justify-between items-center sticky top-0 z-20">
+        <div className="flex items-center gap-3">
+           <div className="w-9 h-9 bg-emerald-600 rounded-lg flex items-center justify-center text-white font-bold shadow-md">S</div>
+           <div>
+             <span className="font-bold text-gray-800 block leading-none">Save Co</span>
+             <span className="text-[10px] text-gray-400 uppercase tracking-wider">Assessment Center</span>
+           </div>
+        </div>
+        <div className="flex items-center gap-3">
+            <div className="text-right hidden sm:block">
+                <p className="text-xs text-gray-400 uppercase font-bold">Candidato</p>
+                <p className="text-sm font-medium text-gray-800">{candidateName}</p>
+            </div>
+            <button
+                type="button"
+                onClick={onLogout}
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+                <LogOut size={16} /> Sair
+            </button>
+        </div>
+      </header>
+
+      <main className="flex-1 flex flex-col p-4 sm:p-8 max-w-3xl mx-auto w-full">
+        {error ? (
+          <div className="bg-white rounded-2xl shadow-lg p-8 text-center border border-red-100">
+            <AlertTriangle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+            <p className="text-gray-600">{error}</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="bg-white rounded-2xl shadow-lg p-8 text-center border border-gray-100">
+            <ListChecks className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">Nenhum teste foi atribuído ao seu perfil ainda. Entre em contato com o RH.</p>
+          </div>
+        ) : (
+          <>
+            <div className="mb-6">
+              <h1 className="text-2xl font-bold text-gray-800">Olá, {candidateName}</h1>
+              <p className="text-gray-500">
+                {allDone
+                  ? 'Você não tem mais testes pendentes. Obrigado pela participação!'
+                  : entries.length > 1
+                    ? `Sua avaliação tem ${entries.length} testes, realizados nesta ordem. ${completedCount} de ${entries.length} concluído(s).`
+                    : 'Sua avaliação está pronta para ser iniciada.'}
+              </p>
+              {entries.length > 1 && (
+                <div className="w-full h-2 bg-gray-200 rounded-full mt-3 overflow-hidden">
+                  <div className="h-full bg-emerald-500 transition-all" style={{ width: `${(completedCount / entries.length) * 100}%` }}></div>
+                </div>
+              )}
+            </div>
+
+            <ol className="space-y-4">
+              {entries.map((entry, idx) => {
+                const { assignment, version } = entry;
+                const isCurrent = assignment.id === current?.id;
+                return (
+                  <li
+                    key={assignment.id}
+                    className={`bg-white rounded-xl border p-5 flex flex-col sm:flex-row sm:items-center gap-4 transition-shadow
+                      ${isCurrent ? 'border-emerald-200 shadow-md' : 'border-gray-100 shadow-sm'}`}
+                  >
+                    <span className={`w-9 h-9 rounded-full flex items-center justify-center font-bold flex-shrink-0
+                      ${assignment.status === 'completed' ? 'bg-emerald-100 text-emerald-700' : isCurrent ? 'bg-emerald-600 text-white' : 'bg-gray-100 text-gray-400'}`}>
+                      {idx + 1}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <h2 className="font-semibold text-gray-800">{version?.title || 'Teste'}</h2>
+                      {version?.description && <p className="text-sm text-gray-500 line-clamp-2">{version.description}</p>}
+                      <div className="flex flex-wrap items-center gap-3 mt-1.5 text-xs text-gray-400">
+                        {version && <span>{version.questions.length} pergunta(s)</span>}
+                        {version?.timeLimit && <span className="flex items-center gap-1"><Clock size={12} /> {version.timeLimit.minutes} min</span>}
+                        {assignment.dueAt && assignment.status !== 'completed' && (
+                          <span className={`flex items-center gap-1 ${isOverdue(assignment) ? 'text-orange-600 font-semibold' : ''}`}>
+                            <Calendar size={12} /> Prazo: {formatDeadline(assignment.dueAt)}{isOverdue(assignment) && ' (atrasado)'}
+                          </span>
+                        )}
+                        {assignment.status === 'in-progress' && <span className="text-yellow-700">{CANDIDATE_STATUS_LABELS['in-progress']}</span>}
+                      </div>
+                    </div>
+                    <div className="flex-shrink-0">{renderAction(entry)}</div>
+                  </li>
+                );
+              })}
+            </ol>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -1,35 +1,103 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Question, Candidate, Test, QuestionOption } from '../types';
-import { CheckCircle, ArrowRight, AlertTriangle, Loader2, ThumbsUp, ThumbsDown, Check, AlertCircle, LogOut } from 'lucide-react';
+import { Question, Candidate, Test, QuestionOption, TestSection, TestProgress, IntegrityEvent, TestAssignment } from '../types';
+import { CheckCircle, ArrowRight, ArrowLeft, ListChecks, Pencil, AlertTriangle, Loader2, ThumbsUp, ThumbsDown, Check, AlertCircle, CloudOff, Eye, X, Clock, ShieldAlert, CalendarX } from 'lucide-react';
 import { supabase } from '../supabaseClient';
+import { loadProgress, saveProgress, clearProgress } from '../services/testProgress';
+import { appendEvent, summarizeIntegrity, watchIntegrity } from '../services/integrity';
+import { currentAssignment, expireAssignments, fetchAssignment, fetchAssignments, formatDeadline, hasExpired, startAssignment } from '../services/assignments';
+import { scoreAnswers } from '../services/scoring';
+import { saveScoredResult, findAssignmentResult } from '../services/results';
+import { requestDelivery } from '../services/submissionOutbox';
+import { fetchVersion } from '../services/testVersions';
+import { PreviewScoringPanel } from './PreviewScoringPanel';
+import { getScale, scalePoints, scaleLabel, isNotApplicable, NOT_APPLICABLE_LABEL } from '../services/scales';
+import { textLimits } from '../services/rubrics';
+import { buildFlow, orderBySection, stepOfQuestion, FlowStep } from '../services/candidateFlow';
+import { visibleQuestions } from '../services/conditions';
+import { applyRandomization, createSeed, isRandomized } from '../services/randomization';
+import { remainingSeconds, formatDuration } from '../services/timing';
+
+const AUTOSAVE_DELAY_MS = 800;
+
+type PairSlot = 'most' | 'least' | 'best' | 'worst';
+const PAIRED_SLOT: Record<PairSlot, PairSlot> = { most: 'least', least: 'most', best: 'worst', worst: 'best' };
 
 interface CandidateViewProps {
-  onComplete: () => void;
+  onComplete: () => void; // back to the candidate's home (or closes the preview)
   candidateId: string;
+  testId?: string; // the battery test to take
+  previewTest?: Test; // admin preview: renders this test without reading or writing any candidate data
 }
 
-export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candidateId }) => {
+export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candidateId, testId, previewTest }) => {
+  const isPreview = !!previewTest;
+
   // State
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [candidateName, setCandidateName] = useState('');
   const [candidateEmail, setCandidateEmail] = useState('');
   const [test, setTest] = useState<Test | null>(null);
+  const [testVersion, setTestVersion] = useState<number | null>(null);
   const [alreadyTaken, setAlreadyTaken] = useState(false);
+  // Deadlines of the assigned test; past 'expiresAt' the attempt is refused
+  const [assignment, setAssignment] = useState<TestAssignment | null>(null);
+  const [assignmentExpired, setAssignmentExpired] = useState(false);
   
   const [currentStep, setCurrentStep] = useState(0);
+  const [isReviewing, setIsReviewing] = useState(false);
   
   // Answers State
   const [answers, setAnswers] = useState<Record<string, any>>({});
+  // Seed of this attempt's question/option order, null when the test is not shuffled
+  const [shuffleSeed, setShuffleSeed] = useState<number | null>(null);
+  const [dragRankIdx, setDragRankIdx] = useState<number | null>(null);
   
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState('');
   const [isCompleted, setIsCompleted] = useState(false);
+  const [previewFinished, setPreviewFinished] = useState(false);
+
+  // Timing: the clock starts when the attempt is first opened, as recorded on the assignment
+  const [startedAt, setStartedAt] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [timeExpired, setTimeExpired] = useState(false);
+  const questionTimesRef = useRef<Record<string, number>>({});
+  const openStepRef = useRef<{ questionIds: string[]; since: number } | null>(null);
+
+  // Integrity: tab switches, pastes etc. travel with the submission; the warning is per test
+  const [integrityEvents, setIntegrityEvents] = useState<IntegrityEvent[]>([]);
+  const [showLeaveWarning, setShowLeaveWarning] = useState(false);
+
+  // Autosave State
+  const [progressReady, setProgressReady] = useState(false);
+  const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingSaveRef = useRef<TestProgress | null>(null);
+  const saveLoopRef = useRef<Promise<void> | null>(null);
+
+  // Conditional questions come and go as earlier answers change
+  const shownQuestions = test ? visibleQuestions(test.questions, answers) : [];
+  const steps = test ? buildFlow({ questions: shownQuestions, sections: test.sections }) : [];
 
   // Ref to prevent double submission (Strict Lock)
   const hasSubmittedRef = useRef(false);
+  // Result row of this attempt, so a retry updates it instead of inserting another one
+  const resultIdRef = useRef<string | null>(null);
 
   // Fetch Data on Mount
   useEffect(() => {
+    if (previewTest) {
+        setCandidateName('Pré-visualização');
+        const ordered = { ...previewTest, questions: orderBySection(previewTest.questions, previewTest.sections) };
+        const seed = isRandomized(previewTest.randomization) ? createSeed() : null;
+        setShuffleSeed(seed);
+        setTest(seed === null ? ordered : { ...ordered, ...applyRandomization(ordered, seed) });
+        setStartedAt(new Date().toISOString());
+        setLoading(false);
+        return;
+    }
+
     const loadSession = async () => {
       setLoading(true);
       try {
@@ -43,22 +111,38 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
         setCandidateName(profile.name);
         setCandidateEmail(profile.email || '');
 
-        if (profile.status === 'completed' || profile.status === 'in-progress') {
+        const assigned = testId ? await fetchAssignment(candidateId, testId) : null;
+        if (!assigned) {
+          setError('Este teste não está atribuído ao seu perfil. Entre em contato com o RH.');
+          setLoading(false);
+          return;
+        }
+        setAssignment(assigned);
+
+        if (assigned.status === 'completed') {
             setAlreadyTaken(true);
             setLoading(false);
             return;
         }
 
-        if (!profile.assigned_test_id) {
-          setError('Nenhum teste foi atribuído ao seu perfil ainda. Entre em contato com o RH.');
-          setLoading(false);
-          return;
+        if (assigned.status === 'expired' || hasExpired(assigned)) {
+            await expireAssignments([assigned]);
+            setAssignmentExpired(true);
+            setLoading(false);
+            return;
+        }
+
+        // The tests of a battery are taken in order
+        if (currentAssignment(await fetchAssignments(candidateId))?.id !== assigned.id) {
+            setError('Conclua os testes anteriores da sua avaliação antes de iniciar este.');
+            setLoading(false);
+            return;
         }
 
         const { data: testData, error: testError } = await supabase
           .from('tests')
           .select('*')
-          .eq('id', profile.assigned_test_id)
+          .eq('id', assigned.testId)
           .single();
 
         if (testError) throw testError;
@@ -69,12 +153,59 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
             return;
         }
 
+        // Opening the test starts the attempt: the database records the start (where the
+        // time limit counts from) and pins the version. 'started' is announced the first time only.
+        const start = await startAssignment(assigned.id);
+        setStartedAt(start.startedAt);
+
+        // Candidates take the published version pinned at assignment (or at start), never the draft
+        const version = await fetchVersion(testData.id, start.testVersion);
+        if (!version) {
+            setError('Este teste ainda não foi publicado. Entre em contato com o RH.');
+            setLoading(false);
+            return;
+        }
+
         const parsedTest = {
             ...testData,
-            questions: typeof testData.questions === 'string' ? JSON.parse(testData.questions) : testData.questions
+            title: version.title,
+            description: version.description,
+            questions: orderBySection(version.questions, version.sections),
+            sections: version.sections || [],
+            randomization: version.randomization || null,
+            time_limit: version.timeLimit || null,
+            integrity: version.integrity || null,
+            profile_model: version.profileModel || null
         };
+        setTestVersion(version.version);
+
+        if (start.firstStart) {
+            requestDelivery('started', assigned.id).catch(err => console.error("Error delivering 'started' webhooks:", err));
+        }
+
+        // Resume an interrupted attempt from the last saved step, in the order it was shown
+        let saved: TestProgress | null = null;
+        try {
+            saved = await loadProgress(assigned.id);
+        } catch (progressErr) {
+            console.warn('Could not restore saved progress:', progressErr);
+        }
+
+        const seed = isRandomized(parsedTest.randomization) ? saved?.shuffleSeed ?? createSeed() : null;
+        const shownTest = seed === null ? parsedTest : { ...parsedTest, ...applyRandomization(parsedTest, seed) };
+        setShuffleSeed(seed);
+        questionTimesRef.current = saved?.questionTimes || {};
+        setIntegrityEvents(saved?.integrityEvents || []);
+
+        if (saved) {
+            setAnswers(saved.answers);
+            const savedSteps = buildFlow({ questions: visibleQuestions(shownTest.questions, saved.answers), sections: shownTest.sections });
+            setCurrentStep(Math.min(saved.currentStep, Math.max(savedSteps.length - 1, 0)));
+            setSaveState('saved');
+        }
 
-        setTest(parsedTest as Test);
+        setTest(shownTest as Test);
+        setProgressReady(true);
 
       } catch (err: any) {
         console.error('Error loading candidate session:', err);
@@ -85,17 +216,89 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
     };
 
     loadSession();
+  }, [candidateId, testId, previewTest]);
 
+  // Warn only while an autosave is still in flight; saved progress survives a reload.
+  useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-        if (!isCompleted && !alreadyTaken && currentStep > 0) {
+        if (!isCompleted && saveState === 'saving') {
             e.preventDefault();
             e.returnValue = '';
         }
     };
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isCompleted, saveState]);
+
+  // Time on a page is split evenly among its questions; intro screens and the review are not counted
+  const flushStepTime = () => {
+    const open = openStepRef.current;
+    if (!open) return;
+    const at = Date.now();
+    const share = (at - open.since) / open.questionIds.length;
+    const times = { ...questionTimesRef.current };
+    open.questionIds.forEach(id => { times[id] = (times[id] || 0) + share; });
+    questionTimesRef.current = times;
+    open.since = at;
+  };
+
+  useEffect(() => {
+    flushStepTime();
+    const step = steps[currentStep];
+    openStepRef.current = !isReviewing && !timeExpired && step?.kind === 'questions'
+        ? { questionIds: step.questions.map(q => q.id), since: Date.now() }
+        : null;
+  }, [currentStep, isReviewing, timeExpired, test]);
+
+  // Sends queued progress one save at a time. Whatever changed while a save was
+  // in flight goes out after it, so an older save never lands over a newer one.
+  const drainSaves = async () => {
+    while (pendingSaveRef.current) {
+        const progress = pendingSaveRef.current;
+        pendingSaveRef.current = null;
+        try {
+            await saveProgress(progress);
+            if (!pendingSaveRef.current) setSaveState('saved');
+        } catch (err) {
+            console.error('Autosave failed:', err);
+            setSaveState('error');
+        }
+    }
+  };
+
+  const flushAutosave = () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    if (!test || !assignment || hasSubmittedRef.current) return;
+    pendingSaveRef.current = { assignmentId: assignment.id, candidateId, testId: test.id, answers, currentStep, shuffleSeed, questionTimes: roundedTimes(), integrityEvents };
+    if (!saveLoopRef.current) saveLoopRef.current = drainSaves().finally(() => { saveLoopRef.current = null; });
+  };
+  const flushAutosaveRef = useRef(flushAutosave);
+  flushAutosaveRef.current = flushAutosave;
+
+  // Autosave: persist answers and position once changes settle.
+  useEffect(() => {
+    if (!progressReady || !test || isCompleted || hasSubmittedRef.current) return;
+    if (Object.keys(answers).length === 0 && currentStep === 0) return;
 
-  }, [candidateId, isCompleted, currentStep, alreadyTaken]);
+    setSaveState('saving');
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => flushAutosaveRef.current(), AUTOSAVE_DELAY_MS);
+  }, [answers, currentStep, shuffleSeed, integrityEvents, progressReady, test, isCompleted, candidateId]);
+
+  // Leaving the test (back to the battery) sends a save that is still waiting
+  useEffect(() => () => {
+    if (saveTimerRef.current) flushAutosaveRef.current();
+  }, []);
+
+  // Record integrity events while the attempt is open; preview is not monitored
+  useEffect(() => {
+    if (isPreview || !progressReady || !test || isCompleted || timeExpired) return;
+    return watchIntegrity(
+        event => setIntegrityEvents(prev => appendEvent(prev, event)),
+        () => { if (test.integrity?.warnOnLeave) setShowLeaveWarning(true); }
+    );
+  }, [isPreview, progressReady, test, isCompleted, timeExpired]);
 
   // --- Handlers ---
 
@@ -106,72 +309,159 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
       }));
   };
 
+  const handleNotApplicable = (questionId: string) => {
+      setAnswers(prev => ({
+          ...prev,
+          [questionId]: { text: NOT_APPLICABLE_LABEL, value: '', notApplicable: true }
+      }));
+  };
+
+  const handleTextAnswer = (questionId: string, text: string) => {
+      setAnswers(prev => ({
+          ...prev,
+          [questionId]: { text }
+      }));
+  };
+
   const handleSingleChoice = (questionId: string, option: QuestionOption) => {
       setAnswers(prev => ({
           ...prev,
-          [questionId]: { text: option.text, value: option.value }
+          [questionId]: { text: option.text, value: option.value, dimensionId: option.dimensionId }
       }));
   };
 
-  const handleMostLeast = (questionId: string, type: 'most' | 'least', option: QuestionOption) => {
+  // Ranking answers hold one slot per option (null until filled); giving an
+  // option a taken position swaps it with the option already there.
+  const handleRank = (q: Question, option: QuestionOption, position: number) => {
+      setAnswers(prev => {
+          const total = q.options?.length || 0;
+          const ranking: (QuestionOption | null)[] = Array.from({ length: total }, (_, i) => prev[q.id]?.ranking?.[i] || null);
+          const from = ranking.findIndex(o => o?.text === option.text);
+          const displaced = ranking[position];
+          ranking[position] = { text: option.text, value: option.value, dimensionId: option.dimensionId };
+          if (from >= 0 && from !== position) ranking[from] = displaced;
+          return { ...prev, [q.id]: { ranking } };
+      });
+  };
+
+  const moveRank = (q: Question, from: number, to: number) => {
+      setAnswers(prev => {
+          const ranking = [...(prev[q.id]?.ranking || [])];
+          if (from === to || to < 0 || to >= ranking.length) return prev;
+          const [item] = ranking.splice(from, 1);
+          ranking.splice(to, 0, item);
+          return { ...prev, [q.id]: { ranking } };
+      });
+  };
+
+  // Most/least and SJT best/worst items pick two different options from the same table
+  const handlePairPick = (questionId: string, type: PairSlot, option: QuestionOption) => {
       setAnswers(prev => {
           const currentAnswer = prev[questionId] || {};
-          let newMost = currentAnswer.most;
-          let newLeast = currentAnswer.least;
-
-          if (type === 'most') {
-              newMost = option;
-              if (newLeast?.text === option.text) newLeast = undefined;
-          } else {
-              newLeast = option;
-              if (newMost?.text === option.text) newMost = undefined;
-          }
+          const other = PAIRED_SLOT[type];
 
           return {
               ...prev,
-              [questionId]: { most: newMost, least: newLeast }
+              [questionId]: {
+                  [type]: option,
+                  [other]: currentAnswer[other]?.text === option.text ? undefined : currentAnswer[other]
+              }
           };
       });
   };
 
-  const canProceed = () => {
-      if (!test) return false;
-      const q = test.questions[currentStep];
-      const ans = answers[q.id];
-
+  const isAnswerComplete = (q: Question, ans: any) => {
       if (!ans) return false;
 
       if (q.type === 'scale') return true;
+      if (q.type === 'sjt') {
+          return !!(ans.best && ans.worst && ans.best.text !== ans.worst.text);
+      }
+      if (q.type === 'text') {
+          const { min, max } = textLimits(q);
+          const length = (ans.text || '').trim().length;
+          return length >= min && length <= max;
+      }
       if (q.type === 'choice') {
           if (q.variation === 'most_least') {
-              return ans.most && ans.least && ans.most.text !== ans.least.text;
+              return !!(ans.most && ans.least && ans.most.text !== ans.least.text);
+          }
+          if (q.variation === 'ranking') {
+              const ranked = (ans.ranking || []).filter(Boolean);
+              return ranked.length === (q.options?.length || 0) && new Set(ranked.map((o: QuestionOption) => o.text)).size === ranked.length;
           }
           return !!ans.text;
       }
       return false;
   };
 
-  const handleNext = async () => {
-    if (!test) return;
+  const isStepComplete = (step: FlowStep) => step.questions.every(q => isAnswerComplete(q, answers[q.id]));
+
+  const canProceed = () => !!steps[currentStep] && isStepComplete(steps[currentStep]);
+
+  // A step can be visited once every question before it is answered,
+  // so jumping around never bypasses the canProceed rules.
+  const canReach = (index: number) => index >= 0 && steps.slice(0, index).every(isStepComplete);
+
+  const allAnswered = () => !!test && shownQuestions.every(q => isAnswerComplete(q, answers[q.id]));
+
+  const goToStep = (index: number) => {
+    if (!canReach(index)) return;
+    setIsReviewing(false);
+    setCurrentStep(index);
+    window.scrollTo(0, 0);
+  };
+
+  const goToQuestion = (questionId: string) => goToStep(stepOfQuestion(steps, questionId));
+
+  const handlePrevious = () => {
+    if (currentStep === 0) return;
+    setCurrentStep(prev => prev - 1);
+    window.scrollTo(0, 0);
+  };
 
-    if (currentStep < test.questions.length - 1) {
+  const handleNext = () => {
+    if (!test || !canProceed()) return;
+
+    if (currentStep < steps.length - 1) {
       setCurrentStep(prev => prev + 1);
-      window.scrollTo(0, 0);
     } else {
-      await submitTest();
+      setIsReviewing(true);
     }
+    window.scrollTo(0, 0);
   };
 
-  const submitTest = async () => {
+  const roundedTimes = (): Record<string, number> =>
+    Object.fromEntries(Object.entries<number>(questionTimesRef.current).map(([id, ms]) => [id, Math.round(ms)]));
+
+  // An expired attempt sends what was answered; unanswered questions go without 'resposta'
+  const submitTest = async (expired = timeExpired) => {
+    flushStepTime();
+
+    // Preview never stores a result nor calls a webhook
+    if (isPreview) {
+        setPreviewFinished(true);
+        return;
+    }
+
     // 1. STRICT LOCK: Previne duplo clique
     if (hasSubmittedRef.current) return;
     hasSubmittedRef.current = true;
 
     setIsSubmitting(true);
+    setSubmitError('');
     try {
-        if (!test) throw new Error("Teste não encontrado");
+        if (!test || !assignment) throw new Error("Teste não encontrado");
+        if (hasExpired(assignment)) {
+            setAssignmentExpired(true);
+            throw new Error(`O prazo para realizar este teste expirou em ${formatDeadline(assignment.expiresAt!)}.`);
+        }
+        if (!allAnswered() && !expired) throw new Error("Existem perguntas sem resposta. Revise antes de enviar.");
+
+        const times = roundedTimes();
+        const finishedAt = new Date();
 
-        // 2. Build Questions Payload
+        // 2. Build Questions Payload (questions skipped by their condition are kept, marked as not shown)
         const questionsList = test.questions.map(q => {
             const userAnswer = answers[q.id];
             
@@ -179,19 +469,45 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
                 id: q.id,
                 text: q.text,
                 category: q.category,
+                categoryId: q.categoryId,
                 type: q.type,
+                scale: q.scale,
                 options: q.options,
-                variation: q.variation
+                variation: q.variation,
+                reverse: q.reverse,
+                weight: q.weight,
+                scenario: q.scenario,
+                minLength: q.minLength,
+                maxLength: q.maxLength,
+                rubric: q.rubric,
+                showIf: q.showIf,
+                pairKey: q.pairKey,
+                socialDesirability: q.socialDesirability,
+                bankItemId: q.bankItemId
             };
 
+            if (!shownQuestions.some(sq => sq.id === q.id)) {
+                qObj.notShown = true;
+                return qObj;
+            }
+
+            qObj.responseTimeMs = times[q.id];
+            if (!isAnswerComplete(q, userAnswer)) return qObj;
+
             if (q.type === 'scale') {
                 qObj.resposta = userAnswer; 
+            } else if (q.type === 'text') {
+                qObj.resposta = { text: userAnswer.text.trim() };
+            } else if (q.type === 'sjt') {
+                qObj.resposta = { best: userAnswer.best, worst: userAnswer.worst };
             } else if (q.type === 'choice') {
                 if (q.variation === 'most_least') {
                      qObj.resposta = {
                          most: userAnswer.most, 
                          least: userAnswer.least
                      };
+                } else if (q.variation === 'ranking') {
+                     qObj.resposta = { ranking: userAnswer.ranking };
                 } else {
                     qObj.resposta = userAnswer; 
                 }
@@ -204,6 +520,16 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
             test_id: test.id,
             test_title: test.title,
             test_description: test.description,
+            test_version: testVersion,
+            // Body questions and options are in the order shown; the seed reproduces it
+            shuffle_seed: shuffleSeed,
+            started_at: startedAt,
+            finished_at: finishedAt.toISOString(),
+            duration_seconds: startedAt ? Math.round((finishedAt.getTime() - new Date(startedAt).getTime()) / 1000) : null,
+            time_limit_minutes: test.time_limit?.minutes ?? null,
+            timed_out: expired,
+            integrity_events: integrityEvents,
+            profile_model: test.profile_model || null,
             candidate_id: candidateId,
             candidate_email: candidateEmail,
             body: questionsList 
@@ -213,32 +539,28 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
             throw new Error("Erro: O teste parece estar vazio. Tente recarregar.");
         }
 
-        // 3. Send to Webhook (N8N)
-        // O Webhook é responsável por salvar os dados na tabela 'result_test' após processamento.
-        try {
-            await fetch('https://projetosave-n8n.c20rpn.easypanel.host/webhook/teste-comportamental-lideranca', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify(finalPayload)
-            });
-            console.log('Webhook enviado com sucesso.');
-        } catch (webhookErr) {
-            console.error('Erro ao enviar webhook:', webhookErr);
-            throw new Error('Falha de conexão ao enviar respostas. Tente novamente.');
-        }
+        // 3. Score locally and store the deterministic result row.
+        // A stored result is final: a retry (e.g. after a reload) only delivers it again.
+        const completeAnswers = Object.fromEntries(Object.entries(answers)
+            .filter(([id, ans]) => test.questions.some(q => q.id === id && isAnswerComplete(q, ans))));
+        const scoring = scoreAnswers(test.questions, completeAnswers);
+        resultIdRef.current = resultIdRef.current
+            || await findAssignmentResult(assignment.id)
+            || await saveScoredResult(test.id, testVersion, candidateId, assignment.id, finalPayload, scoring);
 
-        // 4. Update Profile Status (Only update status, do not insert result here)
-        const { error: profileError } = await supabase
-            .from('profiles')
-            .update({ 
-                status: 'completed',
-                completed_date: new Date().toISOString().split('T')[0]
-            })
-            .eq('id', candidateId);
+        // 4. The server delivers the stored result to every webhook of this test through
+        // the outbox, with retry, and only marks the test completed once all of them acknowledge it.
+        const delivery = await requestDelivery('completed', assignment.id);
+        if (!delivery.completed) {
+            throw new Error('Suas respostas foram salvas, mas não conseguimos confirmar o envio. Tente novamente em instantes.');
+        }
 
-        if (profileError) throw profileError;
+        // Answers were delivered, the autosave is no longer needed (once a save still in flight ends)
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+        pendingSaveRef.current = null;
+        Promise.resolve(saveLoopRef.current)
+            .then(() => clearProgress(assignment.id))
+            .catch(err => console.warn('Could not clear saved progress:', err));
 
         setIsCompleted(true);
         setTimeout(() => {
@@ -247,7 +569,7 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
 
     } catch (err: any) {
         console.error('Erro crítico no envio:', err);
-        setError(`Erro ao finalizar: ${err.message || 'Contate o suporte.'}`);
+        setSubmitError(`Erro ao finalizar: ${err.message || 'Contate o suporte.'}`);
         // Se deu erro, permitimos tentar de novo (reseta o lock se for erro de rede, por exemplo)
         // Mas se o erro for lógico, o usuário verá a mensagem.
         hasSubmittedRef.current = false; 
@@ -256,6 +578,22 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
     }
   };
 
+  // Countdown of the optional time limit; on expiry the attempt is sent or locked
+  const timeLimit = test?.time_limit || null;
+  const secondsLeft = remainingSeconds(timeLimit, startedAt, now);
+
+  useEffect(() => {
+    if (!timeLimit || isCompleted || timeExpired) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [timeLimit, isCompleted, timeExpired]);
+
+  useEffect(() => {
+    if (secondsLeft !== 0 || timeExpired || isCompleted) return;
+    setTimeExpired(true);
+    if (timeLimit?.onExpiry === 'submit') submitTest(true);
+  }, [secondsLeft, timeExpired, isCompleted]);
+
   // --- Views ---
 
   if (loading) return <div className="min-h-screen bg-gray-50 flex items-center justify-center flex-col gap-4"><Loader2 className="w-10 h-10 text-emerald-600 animate-spin" /><p className="text-gray-500 font-medium">Carregando...</p></div>;
@@ -276,7 +614,32 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
             onClick={onComplete}
             className="inline-flex items-center gap-2 px-6 py-2.5 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 transition-colors"
           >
-            <LogOut size={18} /> Sair
+            <ArrowLeft size={18} /> Voltar aos Testes
+          </button>
+        </div>
+      </div>
+  );
+
+  if (assignmentExpired) return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4 animate-fade-in">
+        <div className="bg-white max-w-lg w-full rounded-2xl shadow-xl p-10 text-center border border-gray-100">
+          <div className="w-20 h-20 bg-red-100 text-red-600 rounded-full flex items-center justify-center mx-auto mb-6 shadow-sm">
+              <CalendarX size={40} />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Prazo Expirado</h2>
+          <p className="text-gray-600 mb-8 text-lg leading-relaxed">
+            Olá, <strong>{candidateName}</strong>.<br/>
+            {assignment?.expiresAt
+              ? <>O prazo para realizar este teste terminou em <strong>{formatDeadline(assignment.expiresAt)}</strong>.</>
+              : 'O prazo para realizar este teste terminou.'}
+            {' '}Se ainda tiver interesse, entre em contato com o RH para solicitar uma prorrogação.
+          </p>
+          <button 
+            type="button"
+            onClick={onComplete}
+            className="inline-flex items-center gap-2 px-6 py-2.5 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <ArrowLeft size={18} /> Voltar aos Testes
           </button>
         </div>
       </div>
@@ -288,7 +651,7 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
                 <AlertTriangle className="w-16 h-16 text-red-500 mx-auto mb-4" />
                 <h2 className="text-xl font-bold text-gray-800 mb-2">Atenção</h2>
                 <p className="text-gray-600 mb-6">{error || 'Teste não encontrado.'}</p>
-                <button type="button" onClick={onComplete} className="text-sm font-medium text-gray-500 hover:text-gray-800 underline">Voltar para o Login</button>
+                <button type="button" onClick={onComplete} className="text-sm font-medium text-gray-500 hover:text-gray-800 underline">Voltar aos Testes</button>
             </div>
         </div>
   );
@@ -299,87 +662,477 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
           <CheckCircle className="w-24 h-24 text-emerald-600 mx-auto mb-6" />
           <h2 className="text-3xl font-bold text-gray-800 mb-4">Teste Enviado!</h2>
           <p className="text-gray-600 mb-8 text-lg">Obrigado, <strong>{candidateName}</strong>. Suas respostas foram enviadas para análise.</p>
-          <div className="inline-flex items-center gap-2 text-emerald-700 bg-emerald-50 px-4 py-2 rounded-lg text-sm font-medium animate-pulse"><Loader2 className="animate-spin w-4 h-4" />Finalizando sessão...</div>
+          <div className="inline-flex items-center gap-2 text-emerald-700 bg-emerald-50 px-4 py-2 rounded-lg text-sm font-medium animate-pulse"><Loader2 className="animate-spin w-4 h-4" />Voltando aos seus testes...</div>
+        </div>
+      </div>
+  );
+
+  if (timeExpired) return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4 animate-fade-in">
+        <div className="bg-white max-w-lg w-full rounded-2xl shadow-xl p-10 text-center border border-gray-100">
+          <Clock className="w-20 h-20 text-amber-500 mx-auto mb-6" />
+          <h2 className="text-2xl font-bold text-gray-800 mb-3">Tempo esgotado</h2>
+          {timeLimit?.onExpiry === 'submit' ? (
+              isPreview ? (
+                  <p className="text-gray-600 mb-6">Fim da pré-visualização. Neste ponto as respostas dadas até agora seriam enviadas automaticamente; nada foi salvo.</p>
+              ) : submitError ? (
+                  <>
+                      <p className="text-red-600 text-sm mb-6">{submitError}</p>
+                      <button
+                          type="button"
+                          onClick={() => submitTest(true)}
+                          disabled={isSubmitting}
+                          className="inline-flex items-center gap-2 px-6 py-2.5 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-60"
+                      >
+                          Tentar enviar novamente
+                      </button>
+                  </>
+              ) : (
+                  <p className="text-gray-600 flex items-center justify-center gap-2">
+                      <Loader2 className="animate-spin w-4 h-4" /> Enviando as respostas dadas até agora...
+                  </p>
+              )
+          ) : (
+              <>
+                  <p className="text-gray-600 mb-8">
+                      O tempo de {timeLimit?.minutes} minutos para este teste terminou e a tentativa foi encerrada. Entre em contato com o RH.
+                  </p>
+                  <button
+                      type="button"
+                      onClick={onComplete}
+                      className="inline-flex items-center gap-2 px-6 py-2.5 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                      {isPreview ? <><X size={18} /> Fechar Pré-visualização</> : <><ArrowLeft size={18} /> Voltar aos Testes</>}
+                  </button>
+              </>
+          )}
         </div>
       </div>
   );
 
-  const currentQuestion = test.questions[currentStep];
-  const progress = ((currentStep + 1) / test.questions.length) * 100;
-  const isLastQuestion = currentStep === test.questions.length - 1;
+  const currentFlowStep = steps[currentStep] || steps[0];
+  const answeredCount = shownQuestions.filter(q => isAnswerComplete(q, answers[q.id])).length;
+  const progress = (answeredCount / shownQuestions.length) * 100;
+  const isLastStep = currentStep >= steps.length - 1;
+  const sections = (test.sections || []).filter(section => shownQuestions.some(q => q.sectionId === section.id));
+
+  // "3" for a single question, "3–5" for a page of several
+  const firstOnPage = shownQuestions.findIndex(q => q.id === currentFlowStep.questions[0]?.id) + 1;
+  const pageLabel = currentFlowStep.questions.length > 1
+      ? `${firstOnPage}–${firstOnPage + currentFlowStep.questions.length - 1}`
+      : `${firstOnPage}`;
 
   // --- Render Helpers ---
 
-  const renderInstruction = () => {
-      if (currentQuestion.type === 'scale') return "Avalie de 1 a 5 o quanto você concorda com a afirmação.";
-      if (currentQuestion.type === 'choice') {
-          if (currentQuestion.variation === 'most_least') {
+  const describeAnswer = (q: Question) => {
+      const ans = answers[q.id];
+      if (!ans) return '';
+      if (q.type === 'scale') {
+          if (isNotApplicable(ans)) return NOT_APPLICABLE_LABEL;
+          const label = scaleLabel(getScale(q), Number(ans.value));
+          return `Nota ${ans.value}${label ? ` (${label})` : ''}`;
+      }
+      if (q.type === 'sjt') {
+          return `Melhor: ${ans.best?.text || '—'} · Pior: ${ans.worst?.text || '—'}`;
+      }
+      if (q.type === 'text') {
+          const text = ans.text || '';
+          return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+      }
+      if (q.variation === 'most_least') {
+          return `Mais: ${ans.most?.text || '—'} · Menos: ${ans.least?.text || '—'}`;
+      }
+      if (q.variation === 'ranking') {
+          return (ans.ranking || []).map((o: QuestionOption | null, idx: number) => `${idx + 1}. ${o?.text || '—'}`).join(' · ');
+      }
+      return ans.text || '';
+  };
+
+  const renderQuestionMap = () => (
+      <div className="flex flex-wrap gap-1.5 mt-4">
+          {shownQuestions.map((q, idx) => {
+              const answered = isAnswerComplete(q, answers[q.id]);
+              const isCurrent = !isReviewing && currentFlowStep.questions.some(pq => pq.id === q.id);
+              const reachable = canReach(stepOfQuestion(steps, q.id));
+              return (
+                  <button
+                      type="button"
+                      key={q.id}
+                      onClick={() => goToQuestion(q.id)}
+                      disabled={!reachable}
+                      title={answered ? `Questão ${idx + 1} respondida` : `Questão ${idx + 1} sem resposta`}
+                      className={`w-8 h-8 rounded-lg text-xs font-bold border transition-colors
+                          ${isCurrent
+                              ? 'border-emerald-600 bg-emerald-600 text-white shadow-md'
+                              : answered
+                                  ? 'border-emerald-200 bg-emerald-50 text-emerald-700 hover:bg-emerald-100'
+                                  : reachable
+                                      ? 'border-orange-200 bg-white text-orange-600 hover:bg-orange-50'
+                                      : 'border-gray-200 bg-gray-50 text-gray-300 cursor-not-allowed'}`}
+                  >
+                      {idx + 1}
+                  </button>
+              );
+          })}
+      </div>
+  );
+
+  const renderSectionProgress = () => (
+      <div className="flex gap-2 mt-3">
+          {sections.map((section, idx) => {
+              const sectionQuestions = shownQuestions.filter(q => q.sectionId === section.id);
+              const done = sectionQuestions.filter(q => isAnswerComplete(q, answers[q.id])).length;
+              const isCurrent = !isReviewing && currentFlowStep.section?.id === section.id;
+              return (
+                  <div key={section.id} className="flex-1 min-w-0" title={`${section.title}: ${done} de ${sectionQuestions.length}`}>
+                      <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                          <div className="h-full bg-teal-500 transition-all duration-500" style={{ width: `${(done / sectionQuestions.length) * 100}%` }} />
+                      </div>
+                      <p className={`text-[10px] mt-1 truncate ${isCurrent ? 'font-bold text-gray-800' : 'text-gray-400'}`}>
+                          {idx + 1}. {section.title}
+                      </p>
+                  </div>
+              );
+          })}
+      </div>
+  );
+
+  const renderSectionIntro = (section: TestSection) => {
+      const count = shownQuestions.filter(q => q.sectionId === section.id).length;
+      return (
+          <div className="p-6 md:p-10 flex-1 flex flex-col justify-center">
+              <span className="text-xs font-bold text-emerald-600 uppercase tracking-wider mb-2">
+                  Parte {sections.findIndex(s => s.id === section.id) + 1} de {sections.length} · {count} {count === 1 ? 'questão' : 'questões'}
+              </span>
+              <h1 className="text-2xl md:text-3xl font-bold text-gray-800 mb-4">{section.title}</h1>
+              {section.intro && <p className="text-gray-600 leading-relaxed whitespace-pre-wrap mb-4">{section.intro}</p>}
+              {section.instructions && (
+                  <div className="p-4 bg-emerald-50 border border-emerald-100 rounded-xl text-sm text-emerald-900 flex items-start gap-2">
+                      <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+                      <span className="whitespace-pre-wrap">{section.instructions}</span>
+                  </div>
+              )}
+          </div>
+      );
+  };
+
+  const renderReview = () => (
+      <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden w-full flex-1 flex flex-col relative animate-fade-in-up">
+          <div className="h-1.5 w-full bg-gradient-to-r from-emerald-400 to-teal-500"></div>
+          <div className="p-6 md:p-10 flex-1">
+              <h1 className="text-xl md:text-2xl font-bold text-gray-800 flex items-center gap-2 mb-2">
+                  <ListChecks className="text-emerald-600" /> Revise suas respostas
+              </h1>
+              <p className="text-sm text-gray-500 mb-6">Confira as respostas antes de enviar. Clique em uma pergunta para alterá-la.</p>
+
+              <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl overflow-hidden">
+                  {shownQuestions.map((q, idx) => {
+                      const answered = isAnswerComplete(q, answers[q.id]);
+                      const section = sections.find(sec => sec.id === q.sectionId);
+                      const startsSection = section && shownQuestions[idx - 1]?.sectionId !== q.sectionId;
+                      return (
+                          <React.Fragment key={q.id}>
+                          {startsSection && (
+                              <div className="px-4 py-2 bg-gray-50 text-xs font-bold text-gray-500 uppercase tracking-wider">{section.title}</div>
+                          )}
+                          <button
+                              type="button"
+                              onClick={() => goToQuestion(q.id)}
+                              disabled={!canReach(stepOfQuestion(steps, q.id))}
+                              className="w-full text-left p-4 flex items-start gap-4 hover:bg-gray-50 transition-colors disabled:cursor-not-allowed disabled:opacity-60 group"
+                          >
+                              <span className={`w-7 h-7 flex-shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${answered ? 'bg-emerald-100 text-emerald-700' : 'bg-orange-100 text-orange-600'}`}>
+                                  {idx + 1}
+                              </span>
+                              <div className="flex-1 min-w-0">
+                                  <p className="text-sm font-medium text-gray-800">{q.text}</p>
+                                  <p className={`text-xs mt-1 ${answered ? 'text-gray-500' : 'text-orange-600 font-medium'}`}>
+                                      {answered ? describeAnswer(q) : 'Sem resposta'}
+                                  </p>
+                              </div>
+                              <Pencil size={16} className="text-gray-300 group-hover:text-emerald-600 mt-1 flex-shrink-0" />
+                          </button>
+                          </React.Fragment>
+                      );
+                  })}
+              </div>
+          </div>
+
+          {previewFinished && (
+              <div className="mx-6 mb-4 p-3 bg-amber-50 text-amber-800 border border-amber-200 text-sm rounded-lg flex items-start gap-2">
+                  <Eye size={16} className="mt-0.5 flex-shrink-0" />
+                  <span>Fim da pré-visualização. Neste ponto o candidato enviaria as respostas; nada foi salvo.</span>
+              </div>
+          )}
+
+          {submitError && (
+              <div className="mx-6 mb-4 p-3 bg-red-50 text-red-700 border border-red-200 text-sm rounded-lg flex items-start gap-2">
+                  <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+                  <span>{submitError}</span>
+              </div>
+          )}
+
+          <div className="bg-gray-50 p-6 border-t border-gray-100 flex justify-between items-center gap-4">
+              <button
+                  type="button"
+                  onClick={() => goToStep(steps.length - 1)}
+                  disabled={isSubmitting}
+                  className="flex items-center gap-2 px-5 py-3 rounded-xl font-medium text-gray-600 hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                  <ArrowLeft size={18} /> Voltar
+              </button>
+              <button
+                  type="button"
+                  onClick={() => submitTest()}
+                  disabled={!allAnswered() || isSubmitting || hasSubmittedRef.current}
+                  className={`flex items-center gap-2 px-8 py-3.5 rounded-xl font-bold text-white shadow-lg transition-all duration-300
+                      ${(!allAnswered() || isSubmitting || hasSubmittedRef.current)
+                      ? 'bg-gray-300 cursor-not-allowed shadow-none grayscale opacity-70'
+                      : 'bg-emerald-600 hover:bg-emerald-700 hover:shadow-emerald-200 hover:scale-[1.02] active:scale-95'}`}
+              >
+                  {isSubmitting ? <><Loader2 className="animate-spin" size={20} /> Enviando</> : <>{submitError ? 'Tentar Novamente' : isPreview ? 'Enviar (simulado)' : 'Enviar Respostas'} <CheckCircle size={20} /></>}
+              </button>
+          </div>
+      </div>
+  );
+
+  const renderInstruction = (q: Question) => {
+      if (q.type === 'scale') {
+          const scale = getScale(q);
+          return `Avalie de ${scale.min} a ${scale.max} a afirmação.`;
+      }
+      if (q.type === 'sjt') {
+          return "Leia o cenário e escolha a MELHOR e a PIOR ação entre as opções.";
+      }
+      if (q.type === 'text') {
+          const { min } = textLimits(q);
+          return min > 1 ? `Responda com suas palavras, com pelo menos ${min} caracteres.` : "Responda com suas palavras.";
+      }
+      if (q.type === 'choice') {
+          if (q.variation === 'most_least') {
               return "Escolha DUAS opções: A que MAIS te descreve e a que MENOS te descreve.";
           }
+          if (q.variation === 'ranking') {
+              return "Ordene TODAS as opções, da que MAIS à que MENOS te descreve.";
+          }
           return "Escolha APENAS UMA opção, a que mais se parece com você.";
       }
       return "";
   };
 
-  const renderChoiceOptions = () => {
+  const renderScale = (q: Question) => {
+      const scale = getScale(q);
+      const points = scalePoints(scale);
+      const dense = points.length > 7;
+      const answer = answers[q.id];
+
+      return (
+          <div className="space-y-6 my-auto py-4">
+              <div className={`flex ${dense ? 'gap-1 sm:gap-2' : 'gap-2 sm:gap-4'}`}>
+                  {points.map((val) => (
+                  <div key={val} className="flex-1 flex flex-col items-center gap-2 min-w-0">
+                      <button
+                          type="button"
+                          onClick={() => handleScaleAnswer(q.id, val)}
+                          className={`w-full aspect-square sm:aspect-auto ${dense ? 'sm:h-12 text-base' : 'sm:h-16 text-xl'} rounded-xl border-2 font-bold transition-all duration-200 flex items-center justify-center
+                          ${!isNotApplicable(answer) && answer?.value === val.toString()
+                              ? 'border-emerald-500 bg-emerald-500 text-white shadow-lg transform scale-105' 
+                              : 'border-gray-200 text-gray-400 hover:border-emerald-200 hover:bg-gray-50'}`}
+                      >
+                          {val}
+                      </button>
+                      {scaleLabel(scale, val) && (
+                          <span className="text-[10px] sm:text-xs font-medium text-gray-500 text-center leading-tight">{scaleLabel(scale, val)}</span>
+                      )}
+                  </div>
+                  ))}
+              </div>
+              {scale.allowNotApplicable && (
+                  <div className="flex justify-center">
+                      <button
+                          type="button"
+                          onClick={() => handleNotApplicable(q.id)}
+                          className={`px-4 py-2 rounded-lg border-2 text-sm font-medium transition-colors
+                          ${isNotApplicable(answer)
+                              ? 'border-gray-500 bg-gray-500 text-white'
+                              : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                      >
+                          {NOT_APPLICABLE_LABEL}
+                      </button>
+                  </div>
+              )}
+          </div>
+      );
+  };
+
+  const renderTextAnswer = (q: Question) => {
+      const { min, max } = textLimits(q);
+      const text: string = answers[q.id]?.text || '';
+      const length = text.trim().length;
+
+      return (
+          <div className="space-y-2">
+              <textarea
+                  value={text}
+                  maxLength={max}
+                  rows={8}
+                  onChange={(e) => handleTextAnswer(q.id, e.target.value)}
+                  placeholder="Descreva a situação, o que você fez e qual foi o resultado..."
+                  className="w-full p-4 rounded-xl border-2 border-gray-200 text-gray-700 text-base leading-relaxed focus:border-emerald-500 focus:ring-0 outline-none resize-y transition-colors"
+              />
+              <div className="flex justify-between text-xs">
+                  <span className={length > 0 && length < min ? 'text-orange-600 font-medium' : 'text-gray-400'}>
+                      {length < min ? `Faltam ${min - length} caracteres para o mínimo.` : ''}
+                  </span>
+                  <span className={text.length >= max ? 'text-red-500 font-medium' : 'text-gray-400'}>{text.length} / {max}</span>
+              </div>
+          </div>
+      );
+  };
+
+  const renderPairTable = (q: Question, first: PairSlot, second: PairSlot, firstLabel: string, secondLabel: string, hint: string) => {
+      const getOpt = (o: any) => typeof o === 'string' ? { text: o, value: o } : o;
+      const currentAns = answers[q.id] || {};
+      return (
+          <div className="overflow-hidden rounded-xl border border-gray-200 shadow-sm">
+              <table className="w-full text-left border-collapse">
+                  <thead>
+                      <tr className="bg-gray-50 border-b border-gray-200">
+                          <th className="p-4 text-xs font-bold text-gray-500 uppercase">Opções</th>
+                          <th className="p-4 text-center w-24 text-xs font-bold text-emerald-600 uppercase bg-emerald-50/50">
+                              <div className="flex flex-col items-center gap-1">
+                                  <ThumbsUp size={16} /> {firstLabel}
+                              </div>
+                          </th>
+                          <th className="p-4 text-center w-24 text-xs font-bold text-red-500 uppercase bg-red-50/50">
+                              <div className="flex flex-col items-center gap-1">
+                                  <ThumbsDown size={16} /> {secondLabel}
+                              </div>
+                          </th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 bg-white">
+                      {q.options?.map((rawOpt, idx) => {
+                          const opt = getOpt(rawOpt);
+                          const isFirst = currentAns[first]?.text === opt.text;
+                          const isSecond = currentAns[second]?.text === opt.text;
+
+                          return (
+                              <tr key={idx} className={`transition-colors ${isFirst ? 'bg-emerald-50' : isSecond ? 'bg-red-50' : 'hover:bg-gray-50'}`}>
+                                  <td className="p-4 text-sm font-medium text-gray-700">{opt.text}</td>
+                                  <td className="p-4 text-center relative">
+                                      <button 
+                                          type="button"
+                                          onClick={() => handlePairPick(q.id, first, opt)}
+                                          className={`w-6 h-6 rounded-full border-2 mx-auto flex items-center justify-center transition-all ${isFirst ? 'border-emerald-500 bg-emerald-500 text-white' : 'border-gray-300 hover:border-emerald-400'}`}
+                                      >
+                                          {isFirst && <Check size={14} />}
+                                      </button>
+                                  </td>
+                                  <td className="p-4 text-center relative">
+                                      <button 
+                                          type="button"
+                                          onClick={() => handlePairPick(q.id, second, opt)}
+                                          className={`w-6 h-6 rounded-full border-2 mx-auto flex items-center justify-center transition-all ${isSecond ? 'border-red-500 bg-red-500 text-white' : 'border-gray-300 hover:border-red-400'}`}
+                                      >
+                                          {isSecond && <Check size={14} />}
+                                      </button>
+                                  </td>
+                              </tr>
+                          );
+                      })}
+                  </tbody>
+              </table>
+              <div className="p-3 bg-gray-50 text-xs text-center text-gray-400 border-t border-gray-100">
+                  {hint}
+              </div>
+          </div>
+      );
+  };
+
+  const renderChoiceOptions = (q: Question) => {
       // Option Helper
       const getOpt = (o: any) => typeof o === 'string' ? { text: o, value: o } : o;
 
-      if (currentQuestion.variation === 'most_least') {
-          const currentAns = answers[currentQuestion.id] || {};
+      if (q.variation === 'most_least') {
+          return renderPairTable(q, 'most', 'least', 'Mais', 'Menos', 'Você deve selecionar uma coluna para "Mais" e uma para "Menos".');
+      }
+
+      if (q.variation === 'ranking') {
+          const options = (q.options || []).map(getOpt);
+          const ranking: (QuestionOption | null)[] = answers[q.id]?.ranking || [];
+          const positions = options.map((_, idx) => idx);
+
           return (
-              <div className="overflow-hidden rounded-xl border border-gray-200 shadow-sm">
-                  <table className="w-full text-left border-collapse">
-                      <thead>
-                          <tr className="bg-gray-50 border-b border-gray-200">
-                              <th className="p-4 text-xs font-bold text-gray-500 uppercase">Opções</th>
-                              <th className="p-4 text-center w-24 text-xs font-bold text-emerald-600 uppercase bg-emerald-50/50">
-                                  <div className="flex flex-col items-center gap-1">
-                                      <ThumbsUp size={16} /> Mais
-                                  </div>
-                              </th>
-                              <th className="p-4 text-center w-24 text-xs font-bold text-red-500 uppercase bg-red-50/50">
-                                  <div className="flex flex-col items-center gap-1">
-                                      <ThumbsDown size={16} /> Menos
-                                  </div>
-                              </th>
-                          </tr>
-                      </thead>
-                      <tbody className="divide-y divide-gray-100 bg-white">
-                          {currentQuestion.options?.map((rawOpt, idx) => {
-                              const opt = getOpt(rawOpt);
-                              const isMost = currentAns.most?.text === opt.text;
-                              const isLeast = currentAns.least?.text === opt.text;
-
-                              return (
-                                  <tr key={idx} className={`transition-colors ${isMost ? 'bg-emerald-50' : isLeast ? 'bg-red-50' : 'hover:bg-gray-50'}`}>
-                                      <td className="p-4 text-sm font-medium text-gray-700">{opt.text}</td>
-                                      <td className="p-4 text-center relative">
-                                          <button 
-                                              type="button"
-                                              onClick={() => handleMostLeast(currentQuestion.id, 'most', opt)}
-                                              className={`w-6 h-6 rounded-full border-2 mx-auto flex items-center justify-center transition-all ${isMost ? 'border-emerald-500 bg-emerald-500 text-white' : 'border-gray-300 hover:border-emerald-400'}`}
-                                          >
-                                              {isMost && <Check size={14} />}
-                                          </button>
-                                      </td>
-                                      <td className="p-4 text-center relative">
-                                          <button 
-                                              type="button"
-                                              onClick={() => handleMostLeast(currentQuestion.id, 'least', opt)}
-                                              className={`w-6 h-6 rounded-full border-2 mx-auto flex items-center justify-center transition-all ${isLeast ? 'border-red-500 bg-red-500 text-white' : 'border-gray-300 hover:border-red-400'}`}
-                                          >
-                                              {isLeast && <Check size={14} />}
-                                          </button>
-                                      </td>
-                                  </tr>
-                              );
-                          })}
-                      </tbody>
-                  </table>
-                  <div className="p-3 bg-gray-50 text-xs text-center text-gray-400 border-t border-gray-100">
-                      Você deve selecionar uma coluna para "Mais" e uma para "Menos".
+              <div className="space-y-4">
+                  <div className="overflow-hidden rounded-xl border border-gray-200 shadow-sm">
+                      <table className="w-full text-left border-collapse">
+                          <thead>
+                              <tr className="bg-gray-50 border-b border-gray-200">
+                                  <th className="p-4 text-xs font-bold text-gray-500 uppercase">Opções</th>
+                                  {positions.map(pos => (
+                                      <th key={pos} className="p-4 text-center w-16 text-xs font-bold text-emerald-600 uppercase">{pos + 1}º</th>
+                                  ))}
+                              </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100 bg-white">
+                              {options.map((opt, idx) => {
+                                  const rank = ranking.findIndex(o => o?.text === opt.text);
+                                  return (
+                                      <tr key={idx} className={`transition-colors ${rank >= 0 ? 'bg-emerald-50' : 'hover:bg-gray-50'}`}>
+                                          <td className="p-4 text-sm font-medium text-gray-700">{opt.text}</td>
+                                          {positions.map(pos => (
+                                              <td key={pos} className="p-4 text-center">
+                                                  <button
+                                                      type="button"
+                                                      onClick={() => handleRank(q, opt, pos)}
+                                                      title={`${pos + 1}º lugar`}
+                                                      className={`w-7 h-7 rounded-full border-2 mx-auto flex items-center justify-center text-xs font-bold transition-all
+                                                          ${rank === pos ? 'border-emerald-500 bg-emerald-500 text-white' : 'border-gray-300 text-gray-400 hover:border-emerald-400'}`}
+                                                  >
+                                                      {pos + 1}
+                                                  </button>
+                                              </td>
+                                          ))}
+                                      </tr>
+                                  );
+                              })}
+                          </tbody>
+                      </table>
+                      <div className="p-3 bg-gray-50 text-xs text-center text-gray-400 border-t border-gray-100">
+                          Dê uma posição diferente para cada opção: 1º é a que MAIS te descreve.
+                      </div>
                   </div>
+
+                  {ranking.some(Boolean) && (
+                      <div>
+                          <p className="text-xs font-bold text-gray-400 uppercase mb-2">Sua ordem (arraste para reordenar)</p>
+                          <ol className="space-y-2">
+                              {positions.map(pos => {
+                                  const opt = ranking[pos];
+                                  return (
+                                      <li
+                                          key={pos}
+                                          draggable={!!opt}
+                                          onDragStart={() => setDragRankIdx(pos)}
+                                          onDragOver={(e) => e.preventDefault()}
+                                          onDrop={() => {
+                                              if (dragRankIdx !== null) moveRank(q, dragRankIdx, pos);
+                                              setDragRankIdx(null);
+                                          }}
+                                          onDragEnd={() => setDragRankIdx(null)}
+                                          className={`flex items-center gap-3 p-3 rounded-lg border text-sm transition-colors
+                                              ${opt ? 'bg-white border-gray-200 cursor-move' : 'bg-gray-50 border-dashed border-gray-200 text-gray-300'}
+                                              ${dragRankIdx === pos ? 'opacity-50' : ''}`}
+                                      >
+                                          <span className="w-7 h-7 rounded-full bg-emerald-100 text-emerald-700 text-xs font-bold flex items-center justify-center flex-shrink-0">{pos + 1}º</span>
+                                          <span className={opt ? 'font-medium text-gray-700' : 'italic'}>{opt?.text || 'Sem opção'}</span>
+                                      </li>
+                                  );
+                              })}
+                          </ol>
+                      </div>
+                  )}
               </div>
           );
       }
@@ -387,14 +1140,14 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
       // Single Choice (Standard)
       return (
           <div className="grid grid-cols-1 gap-3">
-              {currentQuestion.options?.map((rawOpt, idx) => {
+              {q.options?.map((rawOpt, idx) => {
                   const opt = getOpt(rawOpt);
-                  const isSelected = answers[currentQuestion.id]?.text === opt.text;
+                  const isSelected = answers[q.id]?.text === opt.text;
                   return (
                     <button
                         type="button"
                         key={idx}
-                        onClick={() => handleSingleChoice(currentQuestion.id, opt)}
+                        onClick={() => handleSingleChoice(q.id, opt)}
                         className={`w-full text-left p-4 rounded-xl border-2 transition-all duration-200 group relative overflow-hidden flex items-center gap-4
                             ${isSelected
                             ? 'border-emerald-500 bg-emerald-50 text-emerald-900 shadow-md ring-1 ring-emerald-200' 
@@ -412,6 +1165,38 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
       );
   };
 
+  const renderQuestion = (q: Question) => (
+      <>
+          <div className="mb-6">
+              <span className="inline-block px-3 py-1 bg-gray-100 text-gray-500 text-xs font-bold uppercase tracking-wider rounded-full mb-3">
+                  {q.category || 'Geral'}
+              </span>
+              {q.type === 'sjt' && q.scenario && (
+                  <div className="mb-4 p-4 bg-blue-50 border-l-4 border-blue-400 rounded-r-lg text-gray-700 text-sm md:text-base leading-relaxed whitespace-pre-wrap">
+                      {q.scenario}
+                  </div>
+              )}
+              <h1 className="text-xl md:text-2xl font-bold text-gray-800 leading-snug">
+                  {q.text}
+              </h1>
+              <p className="text-emerald-600 font-medium text-sm mt-2 flex items-center gap-1">
+                  <AlertCircle size={14} />
+                  {renderInstruction(q)}
+              </p>
+          </div>
+
+          <div className="flex-1">
+              {q.type === 'scale' && renderScale(q)}
+
+              {q.type === 'choice' && renderChoiceOptions(q)}
+
+              {q.type === 'text' && renderTextAnswer(q)}
+
+              {q.type === 'sjt' && renderPairTable(q, 'best', 'worst', 'Melhor', 'Pior', 'Você deve selecionar a MELHOR e a PIOR ação para o cenário.')}
+          </div>
+      </>
+  );
+
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col font-sans">
       {/* Header */}
@@ -424,20 +1209,86 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
            </div>
         </div>
         <div className="flex items-center gap-3">
+            {secondsLeft !== null && (
+                <div
+                    title={`Tempo limite: ${timeLimit?.minutes} min`}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-bold tabular-nums
+                        ${secondsLeft <= 60 ? 'bg-red-50 text-red-600 animate-pulse' : secondsLeft <= 300 ? 'bg-amber-50 text-amber-700' : 'bg-gray-100 text-gray-700'}`}
+                >
+                    <Clock size={16} /> {formatDuration(secondsLeft)}
+                </div>
+            )}
+            {isPreview ? (
+                <button
+                    type="button"
+                    onClick={onComplete}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                    <X size={16} /> Fechar Pré-visualização
+                </button>
+            ) : (
+            <>
             <div className="text-right hidden sm:block">
                 <p className="text-xs text-gray-400 uppercase font-bold">Candidato</p>
                 <p className="text-sm font-medium text-gray-800">{candidateName}</p>
             </div>
+            {/* Answers are autosaved, so leaving keeps the attempt where it is */}
+            <button
+                type="button"
+                onClick={onComplete}
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                title="Suas respostas ficam salvas"
+            >
+                <ArrowLeft size={16} /> Meus Testes
+            </button>
+            </>
+            )}
         </div>
       </header>
 
-      {/* Warning Banner */}
-      <div className="bg-orange-50 border-b border-orange-100 px-4 py-2 text-center">
-         <p className="text-xs font-medium text-orange-800 flex items-center justify-center gap-2">
-            <AlertTriangle size={14} />
-            Não atualize ou feche a página. Se sair agora, terá que reiniciar o teste.
-         </p>
-      </div>
+      {/* Autosave Banner */}
+      {isPreview ? (
+        <div className="bg-amber-50 border-b border-amber-100 px-4 py-2 text-center">
+           <p className="text-xs font-medium text-amber-800 flex items-center justify-center gap-2">
+              <Eye size={14} />
+              Modo pré-visualização: esta é a visão do candidato. Nenhuma resposta é salva ou enviada.
+           </p>
+        </div>
+      ) : saveState === 'error' ? (
+        <div className="bg-orange-50 border-b border-orange-100 px-4 py-2 text-center">
+           <p className="text-xs font-medium text-orange-800 flex items-center justify-center gap-2">
+              <CloudOff size={14} />
+              Não foi possível salvar seu progresso. Verifique sua conexão antes de fechar a página.
+           </p>
+        </div>
+      ) : (
+        <div className="bg-emerald-50 border-b border-emerald-100 px-4 py-2 text-center">
+           <p className="text-xs font-medium text-emerald-800 flex items-center justify-center gap-2">
+              {saveState === 'saving' ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+              Suas respostas são salvas automaticamente. Se a página fechar, você continuará de onde parou.
+           </p>
+        </div>
+      )}
+
+      {showLeaveWarning && (
+        <div className="bg-red-50 border-b border-red-100 px-4 py-3">
+           <div className="max-w-3xl mx-auto flex items-start gap-3">
+              <ShieldAlert size={18} className="text-red-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-800 flex-1">
+                 Você saiu da página do teste ({summarizeIntegrity(integrityEvents).focusLosses}x até agora).
+                 Essas saídas ficam registradas e serão vistas pelo RH junto com suas respostas. Permaneça nesta aba até finalizar.
+              </p>
+              <button
+                 type="button"
+                 onClick={() => setShowLeaveWarning(false)}
+                 className="text-red-400 hover:text-red-600"
+                 title="Fechar aviso"
+              >
+                 <X size={16} />
+              </button>
+           </div>
+        </div>
+      )}
 
       {/* Main Content */}
       <main className="flex-1 flex flex-col items-center p-4 sm:p-8 max-w-3xl mx-auto w-full">
@@ -445,76 +1296,63 @@ export const CandidateView: React.FC<CandidateViewProps> = ({ onComplete, candid
         {/* Progress */}
         <div className="w-full mb-6">
             <div className="flex justify-between items-end mb-2">
-                <span className="text-sm font-medium text-gray-500">Questão <span className="text-gray-900 font-bold">{currentStep + 1}</span> de {test.questions.length}</span>
+                <span className="text-sm font-medium text-gray-500">
+                    {isReviewing
+                        ? <>Revisão · <span className="text-gray-900 font-bold">{answeredCount}</span> de {shownQuestions.length} respondidas</>
+                        : currentFlowStep.kind === 'intro'
+                            ? <>Início de <span className="text-gray-900 font-bold">{currentFlowStep.section?.title}</span></>
+                            : <>Questão <span className="text-gray-900 font-bold">{pageLabel}</span> de {shownQuestions.length}</>}
+                </span>
                 <span className="text-xs font-bold text-emerald-600 bg-emerald-50 px-2 py-1 rounded-md">{Math.round(progress)}%</span>
             </div>
             <div className="h-2.5 bg-gray-200 rounded-full overflow-hidden shadow-inner">
               <div className="h-full bg-emerald-500 transition-all duration-700 ease-out rounded-r-full" style={{ width: `${progress}%` }}></div>
             </div>
+            {sections.length > 0 && renderSectionProgress()}
+            {renderQuestionMap()}
         </div>
 
-        {/* Question Card */}
+        {isReviewing ? renderReview() : (
+        /* Question Card */
         <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden w-full flex-1 flex flex-col relative animate-fade-in-up">
             <div className="h-1.5 w-full bg-gradient-to-r from-emerald-400 to-teal-500"></div>
 
-            <div className="p-6 md:p-10 flex-1 flex flex-col">
-                <div className="mb-6">
-                    <span className="inline-block px-3 py-1 bg-gray-100 text-gray-500 text-xs font-bold uppercase tracking-wider rounded-full mb-3">
-                        {currentQuestion.category || 'Geral'}
-                    </span>
-                    <h1 className="text-xl md:text-2xl font-bold text-gray-800 leading-snug">
-                        {currentQuestion.text}
-                    </h1>
-                    <p className="text-emerald-600 font-medium text-sm mt-2 flex items-center gap-1">
-                        <AlertCircle size={14} />
-                        {renderInstruction()}
-                    </p>
-                </div>
-
-                <div className="flex-1">
-                    {currentQuestion.type === 'scale' && (
-                        <div className="space-y-6 my-auto py-4">
-                            <div className="flex justify-between text-xs sm:text-sm font-medium text-gray-500 px-2">
-                                <span className="text-red-400">Discordo Totalmente</span>
-                                <span className="text-emerald-500">Concordo Totalmente</span>
-                            </div>
-                            <div className="flex gap-2 sm:gap-4">
-                                {[1, 2, 3, 4, 5].map((val) => (
-                                <button
-                                    type="button"
-                                    key={val}
-                                    onClick={() => handleScaleAnswer(currentQuestion.id, val)}
-                                    className={`flex-1 aspect-square sm:aspect-auto sm:h-16 rounded-xl border-2 font-bold text-xl transition-all duration-200 flex items-center justify-center
-                                    ${answers[currentQuestion.id]?.value === val.toString()
-                                        ? 'border-emerald-500 bg-emerald-500 text-white shadow-lg transform scale-105' 
-                                        : 'border-gray-200 text-gray-400 hover:border-emerald-200 hover:bg-gray-50'}`}
-                                >
-                                    {val}
-                                </button>
-                                ))}
-                            </div>
-                        </div>
-                    )}
-
-                    {currentQuestion.type === 'choice' && renderChoiceOptions()}
-                </div>
+            {currentFlowStep.kind === 'intro' ? renderSectionIntro(currentFlowStep.section!) : (
+            <div className="p-6 md:p-10 flex-1 flex flex-col divide-y divide-gray-100">
+                {currentFlowStep.questions.map(q => (
+                    <div key={q.id} data-question-id={q.id} className="py-6 first:pt-0 last:pb-0 flex flex-col">
+                        {renderQuestion(q)}
+                    </div>
+                ))}
             </div>
+            )}
 
             {/* Footer */}
-            <div className="bg-gray-50 p-6 border-t border-gray-100 flex justify-end items-center gap-4">
+            <div className="bg-gray-50 p-6 border-t border-gray-100 flex justify-between items-center gap-4">
+                 <button
+                    type="button"
+                    onClick={handlePrevious}
+                    disabled={currentStep === 0}
+                    className="flex items-center gap-2 px-5 py-3 rounded-xl font-medium text-gray-600 hover:bg-gray-200 transition-colors disabled:opacity-0 disabled:pointer-events-none"
+                 >
+                    <ArrowLeft size={18} /> Anterior
+                 </button>
                  <button
                     type="button"
                     onClick={handleNext}
-                    disabled={!canProceed() || isSubmitting || hasSubmittedRef.current}
+                    disabled={!canProceed()}
                     className={`flex items-center gap-2 px-8 py-3.5 rounded-xl font-bold text-white shadow-lg transition-all duration-300
-                        ${(!canProceed() || isSubmitting || hasSubmittedRef.current) 
+                        ${!canProceed()
                         ? 'bg-gray-300 cursor-not-allowed shadow-none grayscale opacity-70' 
                         : 'bg-emerald-600 hover:bg-emerald-700 hover:shadow-emerald-200 hover:scale-[1.02] active:scale-95'}`}
                 >
-                    {isSubmitting ? <><Loader2 className="animate-spin" size={20} /> Enviando</> : <>{isLastQuestion ? 'Finalizar Teste' : 'Próxima'} <ArrowRight size={20} /></>}
+                    {currentFlowStep.kind === 'intro' ? 'Começar' : isLastStep ? 'Revisar Respostas' : 'Próxima'} <ArrowRight size={20} />
                 </button>
             </div>
         </div>
+        )}
+
+        {isPreview && <PreviewScoringPanel questions={test.questions} answers={answers} profileModel={test.profile_model} />}
       </main>
     </div>
   );
@@ -1,8 +1,30 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Search, Pencil, Loader2, AlertCircle, X, AlertTriangle } from 'lucide-react';
-import { Candidate, Test } from '../types';
+import { Plus, Search, Pencil, Loader2, AlertCircle, X, AlertTriangle, CalendarPlus } from 'lucide-react';
+import { Candidate, CandidateStatus, Test, TestAssignment } from '../types';
 import { supabase, supabaseUrl, supabaseKey } from '../supabaseClient';
 import { createClient } from '@supabase/supabase-js';
+import {
+  CANDIDATE_STATUS_LABELS, DEFAULT_EXTENSION_DAYS, addDays, applyExpiry, extendAssignment, fetchAssignments,
+  formatDeadline, fromDateInput, hasExpired, hasOverdue, isOverdue, nextDeadline, saveBattery, syncCandidateStatus,
+  toDateInput, validateDeadlines
+} from '../services/assignments';
+import { BatteryEditor, BatteryRow } from './BatteryEditor';
+
+type StatusFilter = 'all' | CandidateStatus | 'overdue';
+
+const STATUS_BADGES: Record<CandidateStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  'in-progress': 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  expired: 'bg-red-100 text-red-800'
+};
+
+const STATUS_DOTS: Record<CandidateStatus, string> = {
+  pending: 'bg-gray-300',
+  'in-progress': 'bg-yellow-400',
+  completed: 'bg-green-500',
+  expired: 'bg-red-500'
+};
 
 export const CandidatesList: React.FC = () => {
   const [candidates, setCandidates] = useState<Candidate[]>([]);
@@ -10,6 +32,7 @@ export const CandidatesList: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [fetchError, setFetchError] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [showModal, setShowModal] = useState(false);
   const [errorMsg, setErrorMsg] = useState('');
   
@@ -19,10 +42,15 @@ export const CandidatesList: React.FC = () => {
     name: '',
     email: '',
     password: '',
-    testId: ''
+    battery: [] as BatteryRow[]
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Deadline extension of one test of a candidate's battery
+  const [extending, setExtending] = useState<Candidate | null>(null);
+  const [extension, setExtension] = useState({ assignmentId: '', dueDate: '', expiryDate: '' });
+  const [extensionError, setExtensionError] = useState('');
+
   // Fetch Candidates and Tests
   useEffect(() => {
     fetchData();
@@ -32,8 +60,8 @@ export const CandidatesList: React.FC = () => {
     setLoading(true);
     setFetchError('');
     try {
-      // 1. Fetch Tests
-      const { data: testsData, error: testsError } = await supabase.from('tests').select('*').eq('active', true);
+      // 1. Fetch Tests (all of them, to name tests of earlier batteries)
+      const { data: testsData, error: testsError } = await supabase.from('tests').select('*');
       if (testsData) {
         setTests(testsData as unknown as Test[]);
       } else if (testsError) {
@@ -51,6 +79,12 @@ export const CandidatesList: React.FC = () => {
 
       if (profilesError) throw profilesError;
 
+      // 3. Fetch deadlines; without them the list still works
+      const assignments = await fetchAssignments().catch(err => {
+        console.warn('Error fetching assignments:', err);
+        return [];
+      });
+
       if (profilesData) {
         const mappedCandidates: Candidate[] = profilesData
             .filter((p: any) => p.role !== 'admin') // Filter client-side to be safe
@@ -59,11 +93,13 @@ export const CandidatesList: React.FC = () => {
                 name: p.name || 'Sem Nome',
                 email: p.email || 'Sem Email',
                 status: p.status || 'pending',
-                assignedTestId: p.assigned_test_id,
+                assignments: assignments.filter(a => a.candidateId === p.id),
                 score: p.score,
                 completedDate: p.completed_date
             }));
-        setCandidates(mappedCandidates);
+
+        // Unfinished tests past their expiry date move to 'expired'
+        setCandidates(await applyExpiry(mappedCandidates));
       }
     } catch (error: any) {
       console.error('Error fetching data:', error);
@@ -90,7 +126,12 @@ export const CandidatesList: React.FC = () => {
         name: candidate.name,
         email: candidate.email,
         password: '', // Password not editable directly here for security/complexity reasons
-        testId: candidate.assignedTestId || ''
+        battery: (candidate.assignments || []).map(a => ({
+          testId: a.testId,
+          dueDate: toDateInput(a.dueAt),
+          expiryDate: toDateInput(a.expiresAt),
+          status: a.status
+        }))
       });
     } else {
       setEditingId(null);
@@ -98,7 +139,7 @@ export const CandidatesList: React.FC = () => {
         name: '',
         email: '',
         password: '',
-        testId: tests.length > 0 ? tests[0].id : ''
+        battery: assignableTests.length > 0 ? [{ testId: assignableTests[0].id, dueDate: '', expiryDate: '' }] : []
       });
     }
     setShowModal(true);
@@ -106,9 +147,31 @@ export const CandidatesList: React.FC = () => {
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsSubmitting(true);
     setErrorMsg('');
 
+    const current = candidates.find(c => c.id === editingId);
+    // Keep the pinned version of tests already in the battery; new ones get the current version
+    const battery = formData.battery.map(row => ({
+      testId: row.testId,
+      testVersion: current?.assignments?.find(a => a.testId === row.testId)?.testVersion
+        ?? tests.find(t => t.id === row.testId)?.published_version ?? null,
+      dueAt: fromDateInput(row.dueDate),
+      expiresAt: fromDateInput(row.expiryDate)
+    }));
+
+    const deadlineIssue = battery
+      .map((item, idx) => validateDeadlines(item.dueAt, item.expiresAt) && `Teste ${idx + 1}: ${validateDeadlines(item.dueAt, item.expiresAt)}`)
+      .find(Boolean);
+    if (deadlineIssue) {
+      setErrorMsg(deadlineIssue);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    // The first test of the battery stays on the profile for older integrations
+    const first = battery[0];
+
     try {
       if (editingId) {
         // UPDATE Existing Candidate
@@ -116,16 +179,23 @@ export const CandidatesList: React.FC = () => {
           .from('profiles')
           .update({
             name: formData.name,
-            assigned_test_id: formData.testId || null
+            assigned_test_id: first?.testId || null,
+            assigned_test_version: first?.testVersion ?? null
           })
           .eq('id', editingId);
 
         if (error) throw error;
 
+        // Expired tests given a future expiry date become available again
+        const assignments = await Promise.all((await saveBattery(editingId, battery)).map(a =>
+          a.status === 'expired' && !hasExpired(a) ? extendAssignment(a, a.dueAt, a.expiresAt) : a
+        ));
+        const status = await syncCandidateStatus(editingId, assignments);
+
         // Update local state
         setCandidates(candidates.map(c => 
           c.id === editingId 
-            ? { ...c, name: formData.name, assignedTestId: formData.testId }
+            ? { ...c, name: formData.name, assignments, status }
             : c
         ));
 
@@ -148,20 +218,30 @@ export const CandidatesList: React.FC = () => {
             data: {
               name: formData.name,
               role: 'candidate',
-              assigned_test_id: formData.testId || null
+              assigned_test_id: first?.testId || null
             }
           }
         });
 
         if (error) throw error;
 
+        if (data.user && first) {
+          const { error: versionError } = await supabase
+            .from('profiles')
+            .update({ assigned_test_version: first.testVersion })
+            .eq('id', data.user.id);
+          if (versionError) console.warn('Could not pin test version:', versionError);
+        }
+
+        const assignments = data.user ? await saveBattery(data.user.id, battery) : [];
+
         if (data.user) {
           const newCandidate: Candidate = {
               id: data.user.id,
               name: formData.name,
               email: formData.email,
               status: 'pending',
-              assignedTestId: formData.testId
+              assignments
           };
           setCandidates([newCandidate, ...candidates]);
         } else {
@@ -184,10 +264,69 @@ export const CandidatesList: React.FC = () => {
     }
   };
 
-  const filteredCandidates = candidates.filter(c => 
-    c.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-    c.email.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const extendable = (candidate: Candidate) => (candidate.assignments || []).filter(a => a.status !== 'completed');
+
+  const selectForExtension = (assignment: TestAssignment) => setExtension({
+    assignmentId: assignment.id,
+    dueDate: toDateInput(addDays(assignment.dueAt, DEFAULT_EXTENSION_DAYS)),
+    expiryDate: assignment.expiresAt ? toDateInput(addDays(assignment.expiresAt, DEFAULT_EXTENSION_DAYS)) : ''
+  });
+
+  // Starts on the test that most needs it: expired, then overdue, then the next one due
+  const openExtension = (candidate: Candidate) => {
+    const options = extendable(candidate);
+    setExtending(candidate);
+    setExtensionError('');
+    selectForExtension(options.find(a => a.status === 'expired') || options.find(a => isOverdue(a)) || nextDeadline(options) || options[0]);
+  };
+
+  const handleExtend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const assignment = extending?.assignments?.find(a => a.id === extension.assignmentId);
+    if (!extending || !assignment) return;
+
+    const dueAt = fromDateInput(extension.dueDate);
+    const expiresAt = fromDateInput(extension.expiryDate);
+    const deadlineError = validateDeadlines(dueAt, expiresAt) || (hasExpired({ ...assignment, expiresAt })
+      ? 'A nova data de expiração já passou.'
+      : null);
+    if (deadlineError) {
+      setExtensionError(deadlineError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setExtensionError('');
+    try {
+      const updated = await extendAssignment(assignment, dueAt, expiresAt);
+      const assignments = (extending.assignments || []).map(a => a.id === updated.id ? updated : a);
+      const status = await syncCandidateStatus(extending.id, assignments);
+      setCandidates(candidates.map(c => c.id === extending.id ? { ...c, assignments, status } : c));
+      setExtending(null);
+    } catch (error: any) {
+      console.error('Error extending deadline:', error);
+      setExtensionError(error.message || 'Erro ao prorrogar o prazo.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const overdueCount = candidates.filter(c => hasOverdue(c.assignments)).length;
+  const expiredCount = candidates.filter(c => c.status === 'expired').length;
+
+  // Only published tests can be assigned; the assignment pins the current version
+  const assignableTests = tests.filter(t => t.active && t.published_version != null);
+  const testTitle = (a: TestAssignment) => {
+    const test = tests.find(t => t.id === a.testId);
+    return test ? `${test.title}${a.testVersion ? ` (v${a.testVersion})` : ''}` : 'Teste removido';
+  };
+
+  const filteredCandidates = candidates
+    .filter(c => statusFilter === 'all' || (statusFilter === 'overdue' ? hasOverdue(c.assignments) : c.status === statusFilter))
+    .filter(c => 
+      c.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
+      c.email.toLowerCase().includes(searchTerm.toLowerCase())
+    );
 
   return (
     <div className="p-6">
@@ -218,6 +357,31 @@ export const CandidatesList: React.FC = () => {
               onChange={(e) => setSearchTerm(e.target.value)}
             />
           </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="border border-gray-200 rounded-lg px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          >
+            <option value="all">Todos os status</option>
+            {(Object.keys(CANDIDATE_STATUS_LABELS) as CandidateStatus[]).map(status => (
+              <option key={status} value={status}>{CANDIDATE_STATUS_LABELS[status]}</option>
+            ))}
+            <option value="overdue">Atrasados</option>
+          </select>
+          {!loading && (overdueCount > 0 || expiredCount > 0) && (
+            <div className="flex items-center gap-2 text-xs font-medium">
+              {overdueCount > 0 && (
+                <button type="button" onClick={() => setStatusFilter('overdue')} className="px-2.5 py-1 rounded-full bg-orange-50 text-orange-700 hover:bg-orange-100">
+                  {overdueCount} atrasado(s)
+                </button>
+              )}
+              {expiredCount > 0 && (
+                <button type="button" onClick={() => setStatusFilter('expired')} className="px-2.5 py-1 rounded-full bg-red-50 text-red-700 hover:bg-red-100">
+                  {expiredCount} expirado(s)
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Warning Banner */}
@@ -240,14 +404,18 @@ export const CandidatesList: React.FC = () => {
             <table className="w-full text-left border-collapse">
             <thead>
                 <tr className="bg-white border-b border-gray-100">
-                  <th className="p-4 text-xs font-semibold text-gray-500 uppercase w-1/3">Nome</th>
-                  <th className="p-4 text-xs font-semibold text-gray-500 uppercase w-1/3">Teste Atribuído</th>
-                  <th className="p-4 text-xs font-semibold text-gray-500 uppercase text-right w-1/3">Ações</th>
+                  <th className="p-4 text-xs font-semibold text-gray-500 uppercase w-1/4">Nome</th>
+                  <th className="p-4 text-xs font-semibold text-gray-500 uppercase w-1/4">Testes Atribuídos</th>
+                  <th className="p-4 text-xs font-semibold text-gray-500 uppercase">Status</th>
+                  <th className="p-4 text-xs font-semibold text-gray-500 uppercase">Prazo</th>
+                  <th className="p-4 text-xs font-semibold text-gray-500 uppercase text-right">Ações</th>
                 </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
                 {filteredCandidates.length > 0 ? filteredCandidates.map((c) => {
-                    const testTitle = tests.find(t => t.id === c.assignedTestId)?.title || 'Nenhum teste atribuído';
+                    const battery = c.assignments || [];
+                    const deadline = nextDeadline(battery);
+                    const expiredTest = battery.find(a => a.status === 'expired');
                     return (
                     <tr key={c.id} className="hover:bg-gray-50 group transition-colors">
                         <td className="p-4">
@@ -257,10 +425,55 @@ export const CandidatesList: React.FC = () => {
                           </div>
                         </td>
                         <td className="p-4">
-                            <span className="text-sm text-gray-600">{testTitle}</span>
+                            {battery.length > 0 ? (
+                              <ol className="space-y-0.5">
+                                {battery.map((a, idx) => (
+                                  <li key={a.id} className="text-sm text-gray-600 flex items-center gap-1.5">
+                                    <span className={`w-2 h-2 rounded-full flex-shrink-0 ${STATUS_DOTS[a.status]}`} title={CANDIDATE_STATUS_LABELS[a.status]}></span>
+                                    {battery.length > 1 && <span className="text-gray-400">{idx + 1}.</span>}
+                                    {testTitle(a)}
+                                  </li>
+                                ))}
+                              </ol>
+                            ) : (
+                              <span className="text-sm text-gray-400">Nenhum teste atribuído</span>
+                            )}
+                        </td>
+                        <td className="p-4">
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[c.status] || STATUS_BADGES.pending}`}>
+                                {CANDIDATE_STATUS_LABELS[c.status] || CANDIDATE_STATUS_LABELS.pending}
+                            </span>
+                        </td>
+                        <td className="p-4">
+                            {deadline || expiredTest ? (
+                              <div className="flex flex-col text-xs">
+                                {deadline && (
+                                  <span className={isOverdue(deadline) ? 'text-orange-700 font-semibold' : 'text-gray-600'}>
+                                    {formatDeadline(deadline.dueAt!)}{isOverdue(deadline) && ' · Atrasado'}
+                                    {battery.length > 1 && <span className="font-normal text-gray-400"> ({testTitle(deadline)})</span>}
+                                  </span>
+                                )}
+                                {expiredTest?.expiresAt && (
+                                  <span className="text-red-600 font-semibold">
+                                    {battery.length > 1 ? `${testTitle(expiredTest)} expirou` : 'Expirou'} em {formatDeadline(expiredTest.expiresAt)}
+                                  </span>
+                                )}
+                              </div>
+                            ) : (
+                              <span className="text-xs text-gray-400">Sem prazo</span>
+                            )}
                         </td>
                         <td className="p-4 text-right">
                           <div className="flex justify-end gap-2">
+                            {extendable(c).length > 0 && (
+                              <button 
+                                onClick={() => openExtension(c)}
+                                className="p-1.5 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-md transition-colors" 
+                                title="Prorrogar prazo"
+                              >
+                                  <CalendarPlus size={16} />
+                              </button>
+                            )}
                             <button 
                               onClick={() => openModal(c)}
                               className="p-1.5 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-md transition-colors" 
@@ -274,7 +487,7 @@ export const CandidatesList: React.FC = () => {
                     );
                 }) : (
                   <tr>
-                      <td colSpan={3} className="p-8 text-center text-gray-400 text-sm">
+                      <td colSpan={5} className="p-8 text-center text-gray-400 text-sm">
                         {fetchError ? 'Falha ao carregar candidatos.' : 'Nenhum candidato encontrado.'}
                       </td>
                   </tr>
@@ -287,7 +500,7 @@ export const CandidatesList: React.FC = () => {
       {/* Modal (Add/Edit) */}
       {showModal && (
         <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 animate-fade-in relative">
+          <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 animate-fade-in relative max-h-[90vh] overflow-y-auto">
             <button 
               onClick={() => setShowModal(false)}
               className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
@@ -349,19 +562,11 @@ export const CandidatesList: React.FC = () => {
                   </div>
                 )}
 
-                <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Teste Inicial</label>
-                    <select 
-                      value={formData.testId}
-                      onChange={(e) => setFormData({...formData, testId: e.target.value})}
-                      className="w-full border border-gray-300 rounded-lg p-2.5 outline-none bg-white focus:ring-2 focus:ring-emerald-500"
-                    >
-                        <option value="">Selecione um teste (opcional)</option>
-                        {tests.map(t => (
-                            <option key={t.id} value={t.id}>{t.title}</option>
-                        ))}
-                    </select>
-                </div>
+                <BatteryEditor
+                  rows={formData.battery}
+                  tests={assignableTests}
+                  onChange={(battery) => setFormData({...formData, battery})}
+                />
               </div>
 
               <div className="mt-8 flex justify-end gap-3">
@@ -386,6 +591,87 @@ export const CandidatesList: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Modal (Extend deadline) */}
+      {extending && (
+        <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 animate-fade-in relative">
+            <button 
+              onClick={() => setExtending(null)}
+              className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+            >
+              <X size={20} />
+            </button>
+
+            <h2 className="text-xl font-bold mb-1 text-gray-800">Prorrogar Prazo</h2>
+            <p className="text-sm text-gray-500 mb-6">{extending.name}</p>
+
+            {extensionError && (
+                <div className="mb-4 p-3 bg-red-50 text-red-700 text-sm rounded-lg flex items-start gap-2">
+                    <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+                    <span>{extensionError}</span>
+                </div>
+            )}
+
+            <form onSubmit={handleExtend}>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Teste</label>
+                  <select
+                    value={extension.assignmentId}
+                    onChange={(e) => selectForExtension(extendable(extending).find(a => a.id === e.target.value)!)}
+                    className="w-full border border-gray-300 rounded-lg p-2.5 outline-none bg-white focus:ring-2 focus:ring-emerald-500"
+                  >
+                    {extendable(extending).map(a => (
+                      <option key={a.id} value={a.id}>{testTitle(a)} · {CANDIDATE_STATUS_LABELS[a.status]}</option>
+                    ))}
+                  </select>
+                  {extending.assignments?.find(a => a.id === extension.assignmentId)?.status === 'expired' && (
+                    <p className="text-xs text-gray-400 mt-1">O candidato voltará a poder realizar este teste, continuando de onde parou.</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Novo Prazo</label>
+                  <input 
+                    type="date"
+                    className="w-full border border-gray-300 rounded-lg p-2.5 focus:ring-2 focus:ring-emerald-500 outline-none"
+                    value={extension.dueDate}
+                    onChange={e => setExtension({...extension, dueDate: e.target.value})}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Nova Expiração</label>
+                  <input 
+                    type="date"
+                    className="w-full border border-gray-300 rounded-lg p-2.5 focus:ring-2 focus:ring-emerald-500 outline-none"
+                    value={extension.expiryDate}
+                    onChange={e => setExtension({...extension, expiryDate: e.target.value})}
+                  />
+                </div>
+              </div>
+
+              <div className="mt-8 flex justify-end gap-3">
+                <button 
+                  type="button"
+                  onClick={() => setExtending(null)}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium disabled:opacity-50 transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button 
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 flex items-center gap-2 disabled:opacity-50 transition-colors shadow-sm"
+                >
+                  {isSubmitting && <Loader2 size={14} className="animate-spin" />}
+                  Prorrogar
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,304 @@
+import React, { useState, useEffect } from 'react';
+import { Layers, Plus, Loader2, AlertCircle, Edit2, Trash2, X, Save, ArrowUp, ArrowDown } from 'lucide-react';
+import { Category, Test } from '../types';
+import { supabase } from '../supabaseClient';
+import { fetchCategories, saveCategory, saveCategoryOrder, deleteCategory, findCategory } from '../services/categories';
+
+const emptyCategory = (displayOrder: number): Omit<Category, 'id'> & { id?: string } => ({
+  name: '',
+  description: '',
+  color: '#10b981',
+  displayOrder,
+  active: true,
+  aliases: []
+});
+
+export const CategoriesManager: React.FC = () => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tests, setTests] = useState<Test[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fetchError, setFetchError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const [editing, setEditing] = useState<(Omit<Category, 'id'> & { id?: string }) | null>(null);
+  const [editingOriginalName, setEditingOriginalName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [editorError, setEditorError] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    setFetchError('');
+    try {
+      const [categoryList, testsResponse] = await Promise.all([
+        fetchCategories(),
+        supabase.from('tests').select('id, title, questions')
+      ]);
+      if (testsResponse.error) throw testsResponse.error;
+      setCategories(categoryList);
+      setTests((testsResponse.data || []) as Test[]);
+    } catch (err: any) {
+      console.error('Error fetching categories:', err);
+      setFetchError(err.message || 'Erro ao carregar as categorias.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Number of draft questions linked to each category
+  const usageCount = (category: Category) =>
+    tests.reduce((sum, t) => sum + (t.questions || []).filter(q => findCategory([category], q)).length, 0);
+
+  const openEditor = (category?: Category) => {
+    setEditing(category ? { ...category } : emptyCategory(categories.length));
+    setEditingOriginalName(category?.name || '');
+    setEditorError('');
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    if (!name) {
+      setEditorError('O nome da categoria é obrigatório.');
+      return;
+    }
+    if (categories.some(c => c.id !== editing.id && c.name.toLowerCase() === name.toLowerCase())) {
+      setEditorError('Já existe uma categoria com esse nome.');
+      return;
+    }
+
+    setSaving(true);
+    setEditorError('');
+    try {
+      const saved = await saveCategory({ ...editing, name }, editingOriginalName || undefined);
+      setCategories(editing.id ? categories.map(c => c.id === saved.id ? saved : c) : [...categories, saved]);
+      setEditing(null);
+    } catch (err: any) {
+      console.error('Error saving category:', err);
+      setEditorError(err.message || 'Erro ao salvar a categoria.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (category: Category) => {
+    try {
+      const saved = await saveCategory({ ...category, active: !category.active });
+      setCategories(categories.map(c => c.id === saved.id ? saved : c));
+    } catch (err: any) {
+      console.error('Error updating category:', err);
+      setNotice('Erro ao atualizar a categoria: ' + err.message);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (usageCount(category) > 0) {
+      setNotice(`"${category.name}" está em uso por perguntas de testes. Desative-a em vez de excluir.`);
+      return;
+    }
+    if (!window.confirm(`Excluir a categoria "${category.name}"?`)) return;
+
+    try {
+      await deleteCategory(category.id);
+      setCategories(categories.filter(c => c.id !== category.id));
+    } catch (err: any) {
+      console.error('Error deleting category:', err);
+      setNotice('Erro ao excluir: ' + err.message);
+    }
+  };
+
+  const moveCategory = async (from: number, to: number) => {
+    if (to < 0 || to >= categories.length) return;
+    const previous = categories;
+    const next = [...categories];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    const reordered = next.map((c, idx) => ({ ...c, displayOrder: idx }));
+    setCategories(reordered);
+    try {
+      await saveCategoryOrder(reordered);
+    } catch (err: any) {
+      console.error('Error saving category order:', err);
+      setCategories(previous);
+      setNotice('Erro ao salvar a ordem: ' + err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Categorias</h1>
+          <p className="text-gray-500 text-sm">Competências usadas nas perguntas e nos gráficos de resultados.</p>
+        </div>
+        <button
+          onClick={() => openEditor()}
+          className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors flex items-center gap-2 shadow-sm"
+        >
+          <Plus size={18} />
+          Nova Categoria
+        </button>
+      </div>
+
+      {notice && (
+        <div className="p-3 bg-blue-50 text-blue-800 border border-blue-100 rounded-lg text-sm flex justify-between items-center">
+          <span>{notice}</span>
+          <button onClick={() => setNotice('')} className="text-blue-400 hover:text-blue-600"><X size={16} /></button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="w-8 h-8 text-emerald-600 animate-spin" />
+        </div>
+      ) : fetchError ? (
+        <div className="flex flex-col items-center justify-center h-64 text-center">
+          <AlertCircle className="w-10 h-10 text-red-500 mb-2" />
+          <p className="text-gray-600">{fetchError}</p>
+          <button onClick={fetchData} className="mt-4 text-emerald-600 font-medium hover:underline">Tentar novamente</button>
+        </div>
+      ) : categories.length === 0 ? (
+        <div className="text-center py-12 bg-white border-2 border-dashed border-gray-200 rounded-xl">
+          <Layers className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+          <p className="text-gray-400">Nenhuma categoria cadastrada.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <table className="w-full text-left">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="px-6 py-3 text-xs font-bold text-gray-500 uppercase w-24">Ordem</th>
+                <th className="px-6 py-3 text-xs font-bold text-gray-500 uppercase">Categoria</th>
+                <th className="px-6 py-3 text-xs font-bold text-gray-500 uppercase">Perguntas</th>
+                <th className="px-6 py-3 text-xs font-bold text-gray-500 uppercase">Status</th>
+                <th className="px-6 py-3 text-xs font-bold text-gray-500 uppercase text-right">Ações</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {categories.map((category, idx) => (
+                <tr key={category.id} className={category.active ? '' : 'bg-gray-50/60'}>
+                  <td className="px-6 py-4">
+                    <div className="flex gap-1">
+                      <button onClick={() => moveCategory(idx, idx - 1)} disabled={idx === 0} className="p-1 text-gray-400 hover:text-emerald-600 disabled:opacity-30" title="Mover para cima">
+                        <ArrowUp size={14} />
+                      </button>
+                      <button onClick={() => moveCategory(idx, idx + 1)} disabled={idx === categories.length - 1} className="p-1 text-gray-400 hover:text-emerald-600 disabled:opacity-30" title="Mover para baixo">
+                        <ArrowDown size={14} />
+                      </button>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center gap-3">
+                      <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: category.color }} />
+                      <div>
+                        <p className={`text-sm font-medium ${category.active ? 'text-gray-800' : 'text-gray-400'}`}>{category.name}</p>
+                        {category.description && <p className="text-xs text-gray-400">{category.description}</p>}
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{usageCount(category)}</td>
+                  <td className="px-6 py-4">
+                    <button
+                      onClick={() => toggleActive(category)}
+                      className={`px-2 py-1 rounded-full text-xs font-medium ${category.active ? 'bg-emerald-50 text-emerald-700' : 'bg-gray-100 text-gray-500'}`}
+                      title={category.active ? 'Desativar' : 'Ativar'}
+                    >
+                      {category.active ? 'Ativa' : 'Inativa'}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button onClick={() => openEditor(category)} className="p-2 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg" title="Editar">
+                      <Edit2 size={16} />
+                    </button>
+                    <button onClick={() => handleDelete(category)} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg" title="Excluir">
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Editor Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 animate-fade-in relative">
+            <button onClick={() => setEditing(null)} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600">
+              <X size={20} />
+            </button>
+            <h2 className="text-xl font-bold text-gray-800 mb-4">{editing.id ? 'Editar Categoria' : 'Nova Categoria'}</h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Nome</label>
+                <input
+                  type="text"
+                  value={editing.name}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                />
+                {editing.id && editingOriginalName && editing.name.trim() !== editingOriginalName && (
+                  <p className="text-xs text-gray-400 mt-1">Resultados antigos com o nome "{editingOriginalName}" continuarão vinculados a esta categoria.</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Descrição</label>
+                <textarea
+                  rows={2}
+                  value={editing.description || ''}
+                  onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                  className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                />
+              </div>
+              <div className="flex items-center gap-6">
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Cor</label>
+                  <input
+                    type="color"
+                    value={editing.color}
+                    onChange={(e) => setEditing({ ...editing, color: e.target.value })}
+                    className="h-9 w-16 border border-gray-300 rounded-lg cursor-pointer"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 mt-5">
+                  <input
+                    type="checkbox"
+                    checked={editing.active}
+                    onChange={(e) => setEditing({ ...editing, active: e.target.checked })}
+                    className="accent-emerald-600"
+                  />
+                  Ativa (disponível para novas perguntas)
+                </label>
+              </div>
+
+              {editorError && (
+                <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-center gap-2">
+                  <AlertCircle size={16} /> {editorError}
+                </div>
+              )}
+            </div>
+
+            <div className="mt-6 flex justify-end gap-3">
+              <button onClick={() => setEditing(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium">
+                Cancelar
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 flex items-center gap-2 shadow-sm"
+              >
+                {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                Salvar
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
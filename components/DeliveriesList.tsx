@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { Send, Loader2, AlertCircle, RefreshCw, Clock, XCircle, CheckCircle, Inbox } from 'lucide-react';
+import { OutboxEntry } from '../types';
+import { fetchOpenSubmissions, mapOutboxRow, resendDelivery } from '../services/submissionOutbox';
+import { WEBHOOK_EVENT_LABELS } from '../services/webhooks';
+
+interface DeliveryRow extends OutboxEntry {
+  candidateName: string;
+  candidateEmail: string;
+  testTitle: string;
+}
+
+export const DeliveriesList: React.FC = () => {
+  const [deliveries, setDeliveries] = useState<DeliveryRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fetchError, setFetchError] = useState('');
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, []);
+
+  const fetchDeliveries = async () => {
+    setLoading(true);
+    setFetchError('');
+    try {
+      const rows = await fetchOpenSubmissions();
+      setDeliveries(rows.map((row: any) => ({
+        ...mapOutboxRow(row),
+        candidateName: row.profiles?.name || row.payload?.candidate_email || 'Candidato',
+        candidateEmail: row.profiles?.email || row.payload?.candidate_email || '',
+        testTitle: row.tests?.title || row.payload?.test_title || 'Teste'
+      })));
+    } catch (err: any) {
+      console.error('Error fetching deliveries:', err);
+      setFetchError(err.message || 'Erro ao carregar entregas.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResend = async (row: DeliveryRow) => {
+    setResendingId(row.id);
+    setNotice('');
+    try {
+      const { delivery: result, completed } = await resendDelivery(row.id);
+      if (result.status === 'delivered') {
+        setDeliveries(deliveries.filter(d => d.id !== row.id));
+        setNotice(completed
+          ? `Respostas de ${row.candidateName} entregues. O candidato foi marcado como concluído.`
+          : `Entrega para ${row.candidateName} confirmada.`);
+      } else {
+        setDeliveries(deliveries.map(d => d.id === row.id ? { ...d, ...result } : d));
+        setNotice(`Nova falha ao reenviar para ${row.candidateName}: ${result.lastError || 'erro desconhecido'}.`);
+      }
+    } catch (err: any) {
+      console.error('Error resending delivery:', err);
+      setNotice('Erro ao reenviar: ' + err.message);
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Entregas Pendentes</h1>
+          <p className="text-gray-500 text-sm">Envios de testes que ainda não foram confirmados pelo webhook.</p>
+        </div>
+        <button
+          onClick={fetchDeliveries}
+          disabled={loading}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+          Atualizar
+        </button>
+      </div>
+
+      {notice && (
+        <div className="mb-4 p-3 bg-blue-50 text-blue-800 border border-blue-100 rounded-lg text-sm flex items-center gap-2">
+          <AlertCircle size={16} />
+          {notice}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden min-h-[300px]">
+        {fetchError && (
+          <div className="bg-red-50 p-4 border-b border-red-100 flex items-center gap-2 text-red-700 text-sm">
+            <AlertCircle size={16} />
+            {fetchError}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <Loader2 className="w-8 h-8 text-emerald-600 animate-spin" />
+          </div>
+        ) : deliveries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-gray-400">
+            <Inbox size={48} className="mb-4 opacity-20" />
+            <p>Nenhuma entrega pendente ou com falha.</p>
+          </div>
+        ) : (
+          <table className="w-full text-left border-collapse">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="p-4 text-xs font-semibold text-gray-500 uppercase">Data</th>
+                <th className="p-4 text-xs font-semibold text-gray-500 uppercase">Candidato</th>
+                <th className="p-4 text-xs font-semibold text-gray-500 uppercase">Teste</th>
+                <th className="p-4 text-xs font-semibold text-gray-500 uppercase">Evento</th>
+                <th className="p-4 text-xs font-semibold text-gray-500 uppercase">Status</th>
+                <th className="p-4 text-xs font-semibold text-gray-500 uppercase">Última Tentativa</th>
+                <th className="p-4 text-xs font-semibold text-gray-500 uppercase text-right">Ações</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {deliveries.map(d => (
+                <tr key={d.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="p-4 text-sm text-gray-500 whitespace-nowrap">
+                    {new Date(d.createdAt).toLocaleString('pt-BR')}
+                  </td>
+                  <td className="p-4">
+                    <p className="text-sm font-medium text-gray-900">{d.candidateName}</p>
+                    <p className="text-xs text-gray-400">{d.candidateEmail}</p>
+                  </td>
+                  <td className="p-4 text-sm text-gray-600">{d.testTitle}</td>
+                  <td className="p-4">
+                    <p className="text-sm text-gray-600">{WEBHOOK_EVENT_LABELS[d.event]}</p>
+                    <p className="text-[10px] text-gray-400 truncate max-w-[180px]" title={d.targetUrl}>{d.targetUrl}</p>
+                  </td>
+                  <td className="p-4">
+                    <span className={`inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium
+                      ${d.status === 'failed' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'}`}>
+                      {d.status === 'failed' ? <XCircle size={12} /> : <Clock size={12} />}
+                      {d.status === 'failed' ? 'Falhou' : 'Pendente'}
+                    </span>
+                    <p className="text-[10px] text-gray-400 mt-1">{d.attempts} tentativa(s)</p>
+                  </td>
+                  <td className="p-4 text-xs text-gray-500 max-w-xs">
+                    {d.lastStatusCode && <span className="font-mono font-bold text-gray-700 mr-1">{d.lastStatusCode}</span>}
+                    <span className="break-words">{d.lastError || '-'}</span>
+                  </td>
+                  <td className="p-4 text-right">
+                    <button
+                      onClick={() => handleResend(d)}
+                      disabled={resendingId !== null}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 text-emerald-600 hover:bg-emerald-50 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                      {resendingId === d.id ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+                      Reenviar
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-400 mt-3 flex items-center gap-1">
+        <CheckCircle size={12} /> Quando todas as entregas de conclusão são confirmadas, o candidato é marcado como concluído automaticamente.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { IntegritySettings as IntegritySettingsValue } from '../types';
+
+interface IntegritySettingsProps {
+  integrity: IntegritySettingsValue | null;
+  onChange: (integrity: IntegritySettingsValue | null) => void;
+}
+
+export const IntegritySettings: React.FC<IntegritySettingsProps> = ({ integrity, onChange }) => (
+  <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+    <div className="mb-4">
+      <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+        <ShieldAlert size={18} className="text-emerald-600" /> Integridade da Tentativa
+      </h3>
+      <p className="text-xs text-gray-500">
+        Saídas da aba, textos colados, redimensionamentos da janela e sinais de ferramentas de desenvolvedor
+        são sempre registrados e aparecem na análise do resultado.
+      </p>
+    </div>
+
+    {/* The default (no warnings) is stored as null */}
+    <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={!!integrity?.warnOnLeave}
+        onChange={(e) => onChange(e.target.checked ? { warnOnLeave: true } : null)}
+        className="accent-emerald-600"
+      />
+      Avisar o candidato quando ele sair da aba do teste
+    </label>
+  </div>
+);
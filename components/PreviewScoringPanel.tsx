@@ -0,0 +1,82 @@
+import React from 'react';
+import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Cell } from 'recharts';
+import { TrendingUp, BarChart2 } from 'lucide-react';
+import { ProfileModel, Question } from '../types';
+import { scoreAnswers } from '../services/scoring';
+import { findDimension } from '../services/profileModels';
+
+interface PreviewScoringPanelProps {
+  questions: Question[];
+  answers: Record<string, any>;
+  profileModel?: ProfileModel | null;
+}
+
+/** Live view of the scoring the current preview answers would produce. */
+export const PreviewScoringPanel: React.FC<PreviewScoringPanelProps> = ({ questions, answers, profileModel }) => {
+  const scoring = scoreAnswers(questions, answers);
+  const radarData = scoring.categories.map(c => ({ subject: c.category, A: c.score, fullMark: 100 }));
+  const barData = (Object.entries(scoring.profileCounts) as [string, number][])
+    .map(([key, value]) => {
+      const dimension = findDimension(profileModel, key);
+      return { name: dimension?.name || key, value, color: dimension?.color };
+    })
+    .sort((a, b) => b.value - a.value);
+
+  return (
+    <div className="w-full mt-6 bg-white rounded-2xl shadow-sm border border-dashed border-amber-300 p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wider">Pontuação Simulada</h3>
+        <span className="text-xs text-gray-400">{scoring.answered} de {scoring.total} respondidas</span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <p className="text-xs font-bold text-gray-400 uppercase mb-2 flex items-center gap-1">
+            <TrendingUp size={14} className="text-emerald-500" /> Competências
+          </p>
+          <div className="h-56">
+            {radarData.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <RadarChart cx="50%" cy="50%" outerRadius="75%" data={radarData}>
+                  <PolarGrid stroke="#e5e7eb" />
+                  <PolarAngleAxis dataKey="subject" tick={{ fill: '#6b7280', fontSize: 10 }} />
+                  <PolarRadiusAxis angle={30} domain={[0, 100]} tick={false} axisLine={false} />
+                  <Radar name="Pontuação" dataKey="A" stroke="#10b981" fill="#10b981" fillOpacity={0.4} isAnimationActive={false} />
+                  <Tooltip />
+                </RadarChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-full flex items-center justify-center text-gray-400 text-sm italic">
+                Responda perguntas pontuáveis para ver o gráfico.
+              </div>
+            )}
+          </div>
+        </div>
+        <div>
+          <p className="text-xs font-bold text-gray-400 uppercase mb-2 flex items-center gap-1">
+            <BarChart2 size={14} className="text-blue-500" /> Perfil Predominante
+          </p>
+          <div className="h-56">
+            {barData.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={barData} layout="vertical" margin={{ left: 20 }}>
+                  <XAxis type="number" hide allowDecimals={false} />
+                  <YAxis dataKey="name" type="category" width={110} tick={{ fontSize: 11 }} />
+                  <Tooltip cursor={{ fill: 'transparent' }} />
+                  <Bar dataKey="value" radius={[0, 4, 4, 0]} barSize={20} isAnimationActive={false}>
+                    {barData.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={entry.color || ['#3b82f6', '#10b981', '#f59e0b', '#ef4444'][index % 4]} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-full flex items-center justify-center text-gray-400 text-sm italic">
+                Nenhuma tag de perfil identificada ainda.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React from 'react';
+import { Plus, Trash2, Compass } from 'lucide-react';
+import { ProfileDimension, ProfileModel, Question } from '../types';
+import { PROFILE_MODEL_PRESETS, cloneProfileModel } from '../services/profileModels';
+
+interface ProfileModelSettingsProps {
+  model: ProfileModel | null;
+  questions: Question[];
+  onChange: (model: ProfileModel | null) => void;
+}
+
+export const ProfileModelSettings: React.FC<ProfileModelSettingsProps> = ({ model, questions, onChange }) => {
+  const usageCount = (dimensionId: string) =>
+    questions.reduce((sum, q) => sum + (q.options || []).filter(o => o.dimensionId === dimensionId).length, 0);
+
+  const choosePreset = (presetId: string) => {
+    if (presetId === '') {
+      if (model && model.dimensions.some(d => usageCount(d.id) > 0)
+        && !window.confirm('Há opções vinculadas a dimensões deste modelo. Remover o modelo mesmo assim?')) return;
+      onChange(null);
+      return;
+    }
+    if (presetId === 'custom') {
+      onChange({ id: 'custom', name: 'Modelo próprio', dimensions: model ? cloneProfileModel(model).dimensions : [] });
+      return;
+    }
+    const preset = PROFILE_MODEL_PRESETS.find(p => p.id === presetId);
+    if (!preset) return;
+    if (model && model.dimensions.some(d => usageCount(d.id) > 0 && !preset.dimensions.some(p => p.id === d.id))
+      && !window.confirm('Algumas opções apontam para dimensões que não existem neste modelo e ficarão sem perfil. Continuar?')) return;
+    onChange(cloneProfileModel(preset));
+  };
+
+  const updateDimension = (id: string, updates: Partial<ProfileDimension>) => {
+    if (!model) return;
+    onChange({ ...model, id: 'custom', dimensions: model.dimensions.map(d => d.id === id ? { ...d, ...updates } : d) });
+  };
+
+  const addDimension = () => {
+    const base = model || { id: 'custom', name: 'Modelo próprio', dimensions: [] };
+    onChange({
+      ...base,
+      id: 'custom',
+      dimensions: [...base.dimensions, { id: `dim${Date.now()}`, name: '', color: '#6366f1', description: '', interpretation: '' }]
+    });
+  };
+
+  const removeDimension = (id: string) => {
+    if (!model) return;
+    const used = usageCount(id);
+    if (used > 0 && !window.confirm(`${used} opção(ões) usam esta dimensão e ficarão sem perfil. Remover?`)) return;
+    onChange({ ...model, id: 'custom', dimensions: model.dimensions.filter(d => d.id !== id) });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex justify-between items-start mb-4 gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <Compass size={18} className="text-emerald-600" /> Modelo de Perfil
+          </h3>
+          <p className="text-xs text-gray-500">Dimensões comportamentais às quais as opções de resposta podem ser vinculadas.</p>
+        </div>
+        <select
+          value={!model ? '' : PROFILE_MODEL_PRESETS.some(p => p.id === model.id) ? model.id : 'custom'}
+          onChange={(e) => choosePreset(e.target.value)}
+          className="border border-gray-300 rounded-lg p-2 bg-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+        >
+          <option value="">Sem modelo de perfil</option>
+          {PROFILE_MODEL_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          <option value="custom">Personalizado</option>
+        </select>
+      </div>
+
+      {model && (
+        <div className="space-y-3">
+          {model.id === 'custom' && (
+            <input
+              type="text"
+              value={model.name}
+              onChange={(e) => onChange({ ...model, name: e.target.value })}
+              placeholder="Nome do modelo"
+              className="w-full border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+          )}
+
+          {model.dimensions.map(d => (
+            <div key={d.id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+              <div className="flex gap-2 items-center">
+                <input
+                  type="color"
+                  value={d.color}
+                  onChange={(e) => updateDimension(d.id, { color: e.target.value })}
+                  className="h-8 w-10 border border-gray-300 rounded cursor-pointer flex-shrink-0"
+                  title="Cor nos gráficos"
+                />
+                <input
+                  type="text"
+                  value={d.name}
+                  onChange={(e) => updateDimension(d.id, { name: e.target.value })}
+                  placeholder="Nome da dimensão"
+                  className="flex-1 border border-gray-300 rounded-md p-1.5 text-sm font-medium focus:ring-1 focus:ring-emerald-500 outline-none"
+                />
+                <span className="text-[10px] text-gray-400 whitespace-nowrap">{usageCount(d.id)} opção(ões)</span>
+                <button type="button" onClick={() => removeDimension(d.id)} className="text-gray-400 hover:text-red-500" title="Remover dimensão">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              <input
+                type="text"
+                value={d.description || ''}
+                onChange={(e) => updateDimension(d.id, { description: e.target.value })}
+                placeholder="Descrição curta"
+                className="w-full border border-gray-300 rounded-md p-1.5 text-xs focus:ring-1 focus:ring-emerald-500 outline-none"
+              />
+              <textarea
+                rows={2}
+                value={d.interpretation || ''}
+                onChange={(e) => updateDimension(d.id, { interpretation: e.target.value })}
+                placeholder="Texto de interpretação exibido nos resultados quando esta dimensão predomina"
+                className="w-full border border-gray-300 rounded-md p-1.5 text-xs focus:ring-1 focus:ring-emerald-500 outline-none"
+              />
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={addDimension}
+            className="text-xs text-emerald-600 font-medium hover:underline flex items-center gap-1"
+          >
+            <Plus size={14} /> Adicionar Dimensão
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,452 @@
+import React, { useState, useEffect } from 'react';
+import { Library, Plus, Search, Loader2, AlertCircle, Edit2, Trash2, X, Save, BarChart2, FileText, Link2, Copy } from 'lucide-react';
+import { BankQuestion, BankItemStats, Test, QuestionOption, Category } from '../types';
+import { supabase } from '../supabaseClient';
+import { fetchBankQuestions, saveBankQuestion, deleteBankQuestion, findTestsUsingItem, fetchBankItemStats } from '../services/questionBank';
+import { fetchCategories, categoryLabel } from '../services/categories';
+import { ScaleSettings } from './ScaleSettings';
+import { validateScale } from '../services/scales';
+
+const SCORE_OPTIONS = Array.from({ length: 11 }, (_, i) => i.toString()); // "0" to "10"
+
+const emptyItem = (): Omit<BankQuestion, 'id'> & { id?: string } => ({
+  text: '',
+  category: '',
+  type: 'scale',
+  tags: []
+});
+
+export const QuestionBank: React.FC = () => {
+  const [items, setItems] = useState<BankQuestion[]>([]);
+  const [tests, setTests] = useState<Test[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fetchError, setFetchError] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+
+  // Editor
+  const [editing, setEditing] = useState<(Omit<BankQuestion, 'id'> & { id?: string }) | null>(null);
+  const [tagsInput, setTagsInput] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [editorError, setEditorError] = useState('');
+
+  // Usage & statistics
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [stats, setStats] = useState<BankItemStats | null>(null);
+  const [loadingStats, setLoadingStats] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    setFetchError('');
+    try {
+      const [bank, testsResponse, categoryList] = await Promise.all([
+        fetchBankQuestions(),
+        supabase.from('tests').select('id, title, questions'),
+        fetchCategories()
+      ]);
+      if (testsResponse.error) throw testsResponse.error;
+      setItems(bank);
+      setCategories(categoryList);
+      setTests((testsResponse.data || []) as Test[]);
+    } catch (err: any) {
+      console.error('Error fetching question bank:', err);
+      setFetchError(err.message || 'Erro ao carregar o banco de questões.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const allTags = Array.from(new Set(items.flatMap(i => i.tags))).sort();
+  const term = searchTerm.toLowerCase();
+  const filtered = items.filter(item =>
+    (!activeTag || item.tags.includes(activeTag)) &&
+    (item.text.toLowerCase().includes(term) ||
+      categoryLabel(categories, item).toLowerCase().includes(term) ||
+      item.tags.some(t => t.toLowerCase().includes(term)))
+  );
+
+  const openEditor = (item?: BankQuestion) => {
+    const draft = item ? JSON.parse(JSON.stringify(item)) : emptyItem();
+    setEditing(draft);
+    setTagsInput(draft.tags.join(', '));
+    setEditorError('');
+  };
+
+  const updateEditing = (updates: Partial<BankQuestion>) => {
+    if (!editing) return;
+    const next = { ...editing, ...updates };
+    if (updates.type === 'choice' && !next.options?.length) {
+      next.options = [{ text: '', value: '' }, { text: '', value: '' }];
+      next.variation = next.variation || 'single';
+    }
+    setEditing(next);
+  };
+
+  const updateOption = (idx: number, updates: Partial<QuestionOption>) => {
+    if (!editing?.options) return;
+    updateEditing({ options: editing.options.map((o, i) => i === idx ? { ...o, ...updates } : o) });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    if (!editing.text.trim()) {
+      setEditorError('O texto da questão é obrigatório.');
+      return;
+    }
+    if (editing.type === 'choice' && (editing.options || []).some(o => !o.text.trim())) {
+      setEditorError('Todas as opções precisam de um texto.');
+      return;
+    }
+    if (editing.type === 'scale' && editing.scale && validateScale(editing.scale)) {
+      setEditorError(validateScale(editing.scale)!);
+      return;
+    }
+
+    setSaving(true);
+    setEditorError('');
+    try {
+      const tags = Array.from(new Set(tagsInput.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
+      const saved = await saveBankQuestion({ ...editing, tags });
+      setItems(editing.id ? items.map(i => i.id === saved.id ? saved : i) : [saved, ...items]);
+      setEditing(null);
+    } catch (err: any) {
+      console.error('Error saving bank question:', err);
+      setEditorError(err.message || 'Erro ao salvar a questão.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (item: BankQuestion) => {
+    const usage = findTestsUsingItem(tests, item.id);
+    const warning = usage.length > 0
+      ? `Esta questão é usada em ${usage.length} teste(s). Eles manterão o conteúdo atual, mas deixarão de acompanhar o banco. Excluir mesmo assim?`
+      : 'Tem certeza que deseja excluir esta questão do banco?';
+    if (!window.confirm(warning)) return;
+
+    try {
+      await deleteBankQuestion(item.id);
+      setItems(items.filter(i => i.id !== item.id));
+    } catch (err: any) {
+      console.error('Error deleting bank question:', err);
+      alert('Erro ao excluir: ' + err.message);
+    }
+  };
+
+  const toggleDetails = async (itemId: string) => {
+    if (expandedId === itemId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(itemId);
+    setStats(null);
+    setLoadingStats(true);
+    try {
+      setStats(await fetchBankItemStats(itemId));
+    } catch (err) {
+      console.error('Error fetching item statistics:', err);
+    } finally {
+      setLoadingStats(false);
+    }
+  };
+
+  const renderDetails = (item: BankQuestion) => {
+    const usage = findTestsUsingItem(tests, item.id);
+    const optionEntries = stats ? (Object.entries(stats.optionCounts) as [string, number][]).sort((a, b) => b[1] - a[1]) : [];
+    const optionTotal = optionEntries.reduce((sum, [, count]) => sum + count, 0);
+
+    return (
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 bg-gray-50 rounded-lg p-4 border border-gray-100">
+        <div>
+          <p className="text-xs font-bold text-gray-500 uppercase mb-2 flex items-center gap-1"><FileText size={12} /> Usada em</p>
+          {usage.length === 0 ? (
+            <p className="text-sm text-gray-400">Nenhum teste usa esta questão.</p>
+          ) : (
+            <ul className="space-y-1">
+              {usage.map(({ test, link }) => (
+                <li key={test.id} className="text-sm text-gray-700 flex items-center gap-2">
+                  {link === 'reference' ? <Link2 size={12} className="text-blue-500" /> : <Copy size={12} className="text-gray-400" />}
+                  {test.title}
+                  <span className="text-[10px] text-gray-400">{link === 'reference' ? 'referência' : 'cópia'}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div>
+          <p className="text-xs font-bold text-gray-500 uppercase mb-2 flex items-center gap-1"><BarChart2 size={12} /> Estatísticas</p>
+          {loadingStats ? (
+            <Loader2 className="w-5 h-5 text-emerald-600 animate-spin" />
+          ) : !stats || stats.responses === 0 ? (
+            <p className="text-sm text-gray-400">Ainda não há respostas para esta questão.</p>
+          ) : (
+            <div className="space-y-2 text-sm text-gray-700">
+              <p><span className="font-bold">{stats.responses}</span> resposta(s) em todos os testes</p>
+              {stats.averageScore !== null && (
+                <p>Pontuação média: <span className="font-bold text-emerald-700">{stats.averageScore}%</span></p>
+              )}
+              {optionEntries.map(([text, count]) => (
+                <div key={text}>
+                  <div className="flex justify-between text-xs text-gray-600">
+                    <span className="truncate pr-2">{text}</span>
+                    <span>{count}</span>
+                  </div>
+                  <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-emerald-500" style={{ width: `${(count / optionTotal) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Banco de Questões</h1>
+          <p className="text-gray-500 text-sm">Questões reutilizáveis compartilhadas entre os testes.</p>
+        </div>
+        <button
+          onClick={() => openEditor()}
+          className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors flex items-center gap-2 shadow-sm"
+        >
+          <Plus size={18} />
+          Nova Questão
+        </button>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-2.5 text-gray-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Buscar por texto, categoria ou tag..."
+            className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {allTags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${activeTag === tag ? 'bg-emerald-600 text-white' : 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100'}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="w-8 h-8 text-emerald-600 animate-spin" />
+        </div>
+      ) : fetchError ? (
+        <div className="flex flex-col items-center justify-center h-64 text-center">
+          <AlertCircle className="w-10 h-10 text-red-500 mb-2" />
+          <p className="text-gray-600">{fetchError}</p>
+          <button onClick={fetchData} className="mt-4 text-emerald-600 font-medium hover:underline">Tentar novamente</button>
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="text-center py-12 bg-white border-2 border-dashed border-gray-200 rounded-xl">
+          <Library className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+          <p className="text-gray-400">Nenhuma questão encontrada.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filtered.map(item => {
+            const usageCount = findTestsUsingItem(tests, item.id).length;
+            return (
+              <div key={item.id} className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+                <div className="flex justify-between items-start gap-4">
+                  <button onClick={() => toggleDetails(item.id)} className="flex-1 text-left">
+                    <p className="font-medium text-gray-800">{item.text}</p>
+                    <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                      <span className="text-[10px] uppercase font-bold text-gray-400">
+                        {item.type === 'scale' ? 'Escala' : item.variation === 'most_least' ? 'Mais/Menos' : item.variation === 'ranking' ? 'Ordenação' : 'Escolha'}
+                      </span>
+                      {item.category && <span className="text-[10px] text-gray-500">· {categoryLabel(categories, item)}</span>}
+                      {item.tags.map(tag => (
+                        <span key={tag} className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 text-[10px] font-medium">#{tag}</span>
+                      ))}
+                      <span className="text-[10px] text-gray-400">· {usageCount} teste(s)</span>
+                    </div>
+                  </button>
+                  <div className="flex gap-1">
+                    <button onClick={() => openEditor(item)} className="p-2 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg" title="Editar">
+                      <Edit2 size={16} />
+                    </button>
+                    <button onClick={() => handleDelete(item)} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg" title="Excluir">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+                {expandedId === item.id && renderDetails(item)}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Editor Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6 animate-fade-in relative">
+            <button onClick={() => setEditing(null)} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600">
+              <X size={20} />
+            </button>
+            <h2 className="text-xl font-bold text-gray-800 mb-4">{editing.id ? 'Editar Questão' : 'Nova Questão'}</h2>
+
+            {editing.id && findTestsUsingItem(tests, editing.id).some(u => u.link === 'reference') && (
+              <p className="mb-4 text-xs bg-blue-50 text-blue-800 border border-blue-100 rounded-lg px-3 py-2">
+                Testes que referenciam esta questão receberão a alteração na próxima vez que forem salvos.
+              </p>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Texto</label>
+                <textarea
+                  rows={2}
+                  value={editing.text}
+                  onChange={(e) => updateEditing({ text: e.target.value })}
+                  className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Categoria</label>
+                  <select
+                    value={editing.categoryId || ''}
+                    onChange={(e) => {
+                      const cat = categories.find(c => c.id === e.target.value);
+                      updateEditing({ categoryId: cat?.id, category: cat?.name || '' });
+                    }}
+                    className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">Sem categoria</option>
+                    {categories.filter(c => c.active || c.id === editing.categoryId).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Tipo</label>
+                  <select
+                    value={editing.type}
+                    onChange={(e) => updateEditing({ type: e.target.value as BankQuestion['type'] })}
+                    className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="scale">Escala</option>
+                    <option value="choice">Múltipla Escolha</option>
+                  </select>
+                </div>
+                {editing.type === 'choice' && (
+                  <div>
+                    <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Variação</label>
+                    <select
+                      value={editing.variation || 'single'}
+                      onChange={(e) => updateEditing({ variation: e.target.value as BankQuestion['variation'] })}
+                      className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="single">Resposta Única</option>
+                      <option value="most_least">Mais / Menos</option>
+                      <option value="ranking">Ordenação</option>
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              {editing.type === 'scale' && (
+                <div className="bg-gray-50 border border-gray-100 rounded-lg p-3">
+                  <ScaleSettings scale={editing.scale} onChange={(scale) => updateEditing({ scale })} />
+                </div>
+              )}
+
+              {editing.type === 'choice' && (
+                <div className="space-y-2">
+                  <label className="block text-xs font-bold text-gray-500 uppercase">Opções</label>
+                  {(editing.options || []).map((opt, idx) => (
+                    <div key={idx} className="flex gap-2 items-center">
+                      <input
+                        type="text"
+                        value={opt.text}
+                        placeholder={`Opção ${idx + 1}`}
+                        onChange={(e) => updateOption(idx, { text: e.target.value })}
+                        className="flex-1 px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm"
+                      />
+                      <select
+                        value={opt.value}
+                        onChange={(e) => updateOption(idx, { value: e.target.value })}
+                        className="w-32 px-2 py-2 bg-white border border-gray-300 rounded-lg text-sm"
+                      >
+                        <option value="">Sem valor</option>
+                        {SCORE_OPTIONS.map(s => <option key={s} value={s}>Valor: {s}</option>)}
+                      </select>
+                      <button
+                        onClick={() => updateEditing({ options: (editing.options || []).filter((_, i) => i !== idx) })}
+                        className="text-gray-400 hover:text-red-500"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updateEditing({ options: [...(editing.options || []), { text: '', value: '' }] })}
+                    className="text-sm text-emerald-600 font-medium hover:underline flex items-center gap-1"
+                  >
+                    <Plus size={14} /> Adicionar opção
+                  </button>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Tags</label>
+                <input
+                  type="text"
+                  value={tagsInput}
+                  placeholder="liderança, comunicação, ..."
+                  onChange={(e) => setTagsInput(e.target.value)}
+                  className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm"
+                />
+                <p className="text-xs text-gray-400 mt-1">Separe as tags por vírgula.</p>
+              </div>
+
+              {editorError && (
+                <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-center gap-2">
+                  <AlertCircle size={16} /> {editorError}
+                </div>
+              )}
+            </div>
+
+            <div className="mt-6 flex justify-end gap-3">
+              <button onClick={() => setEditing(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium">
+                Cancelar
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 flex items-center gap-2 shadow-sm"
+              >
+                {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                Salvar
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
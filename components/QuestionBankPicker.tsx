@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { X, Search, Loader2, Library, Link2, Copy } from 'lucide-react';
+import { BankQuestion } from '../types';
+import { fetchBankQuestions } from '../services/questionBank';
+
+interface QuestionBankPickerProps {
+  excludeIds: string[]; // bank items already used by the test
+  onClose: () => void;
+  onAdd: (items: BankQuestion[], link: 'reference' | 'copy') => void;
+}
+
+export const QuestionBankPicker: React.FC<QuestionBankPickerProps> = ({ excludeIds, onClose, onAdd }) => {
+  const [items, setItems] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [link, setLink] = useState<'reference' | 'copy'>('reference');
+
+  useEffect(() => {
+    fetchBankQuestions()
+      .then(setItems)
+      .catch(err => console.error('Error fetching question bank:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const term = searchTerm.toLowerCase();
+  const filtered = items.filter(item =>
+    item.text.toLowerCase().includes(term) ||
+    (item.category || '').toLowerCase().includes(term) ||
+    item.tags.some(t => t.toLowerCase().includes(term))
+  );
+
+  const toggle = (id: string) => {
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[85vh] flex flex-col animate-fade-in relative">
+        <div className="p-6 border-b border-gray-100">
+          <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <Library size={20} className="text-emerald-600" /> Adicionar do Banco de Questões
+          </h2>
+          <div className="relative mt-4">
+            <Search className="absolute left-3 top-2.5 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Buscar por texto, categoria ou tag..."
+              className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="overflow-y-auto flex-1 divide-y divide-gray-100">
+          {loading ? (
+            <div className="flex justify-center py-12"><Loader2 className="w-8 h-8 text-emerald-600 animate-spin" /></div>
+          ) : filtered.length === 0 ? (
+            <p className="text-center text-gray-400 text-sm py-12">Nenhuma questão encontrada no banco.</p>
+          ) : filtered.map(item => {
+            const used = excludeIds.includes(item.id);
+            return (
+              <label key={item.id} className={`flex items-start gap-3 p-4 ${used ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-50'}`}>
+                <input
+                  type="checkbox"
+                  disabled={used}
+                  checked={selectedIds.includes(item.id)}
+                  onChange={() => toggle(item.id)}
+                  className="mt-1 accent-emerald-600"
+                />
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-gray-800">{item.text}</p>
+                  <div className="flex flex-wrap items-center gap-1.5 mt-1">
+                    <span className="text-[10px] uppercase font-bold text-gray-400">
+                      {item.type === 'scale' ? 'Escala' : item.variation === 'most_least' ? 'Mais/Menos' : item.variation === 'ranking' ? 'Ordenação' : 'Escolha'}
+                    </span>
+                    {item.category && <span className="text-[10px] text-gray-500">· {item.category}</span>}
+                    {item.tags.map(tag => (
+                      <span key={tag} className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 text-[10px] font-medium">#{tag}</span>
+                    ))}
+                    {used && <span className="text-[10px] text-gray-500 italic">já está no teste</span>}
+                  </div>
+                </div>
+              </label>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-between items-center gap-3">
+          <div className="flex gap-2 text-sm">
+            <button
+              type="button"
+              onClick={() => setLink('reference')}
+              className={`px-3 py-1.5 rounded-lg border flex items-center gap-1 ${link === 'reference' ? 'border-emerald-500 bg-emerald-50 text-emerald-700' : 'border-gray-200 text-gray-600'}`}
+              title="A questão acompanha as edições feitas no banco"
+            >
+              <Link2 size={14} /> Por referência
+            </button>
+            <button
+              type="button"
+              onClick={() => setLink('copy')}
+              className={`px-3 py-1.5 rounded-lg border flex items-center gap-1 ${link === 'copy' ? 'border-emerald-500 bg-emerald-50 text-emerald-700' : 'border-gray-200 text-gray-600'}`}
+              title="Uma cópia independente, editável neste teste"
+            >
+              <Copy size={14} /> Como cópia
+            </button>
+          </div>
+          <button
+            onClick={() => onAdd(items.filter(i => selectedIds.includes(i.id)), link)}
+            disabled={selectedIds.length === 0}
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 transition-colors shadow-sm"
+          >
+            Adicionar {selectedIds.length > 0 ? `(${selectedIds.length})` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React from 'react';
+import { GitBranch } from 'lucide-react';
+import { Question, QuestionCondition } from '../types';
+import { CONDITION_OPERATORS, canBeConditionSource, conditionValues, validateCondition } from '../services/conditions';
+
+interface QuestionConditionSettingsProps {
+  question: Question;
+  questions: Question[]; // the whole test, in display order
+  onChange: (showIf: QuestionCondition | undefined) => void;
+}
+
+export const QuestionConditionSettings: React.FC<QuestionConditionSettingsProps> = ({ question, questions, onChange }) => {
+  const index = questions.findIndex(q => q.id === question.id);
+  const sources = questions
+    .map((q, idx) => ({ q, idx }))
+    .filter(({ q, idx }) => idx < index && canBeConditionSource(q));
+  const condition = question.showIf;
+  const source = condition && questions.find(q => q.id === condition.questionId);
+  const values = source ? conditionValues(source) : [];
+  const error = validateCondition(question, questions);
+
+  if (!condition) {
+    return (
+      <button
+        type="button"
+        onClick={() => sources.length > 0 && onChange({ questionId: sources[sources.length - 1].q.id, operator: 'equals', values: [] })}
+        disabled={sources.length === 0}
+        title={sources.length === 0 ? 'Só é possível depender de uma pergunta anterior de escala ou múltipla escolha.' : undefined}
+        className="text-xs text-gray-400 hover:text-emerald-600 flex items-center gap-1 disabled:opacity-40 disabled:hover:text-gray-400"
+      >
+        <GitBranch size={12} /> Exibir somente se...
+      </button>
+    );
+  }
+
+  const toggleValue = (value: string) => {
+    onChange({
+      ...condition,
+      values: condition.values.includes(value) ? condition.values.filter(v => v !== value) : [...condition.values, value]
+    });
+  };
+
+  return (
+    <div className="flex-1 min-w-0 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-xs font-medium text-gray-500 uppercase flex items-center gap-1">
+          <GitBranch size={12} /> Exibir somente se
+        </span>
+        <select
+          value={condition.questionId}
+          onChange={(e) => onChange({ ...condition, questionId: e.target.value, values: [] })}
+          className="max-w-xs border border-gray-300 rounded-md p-1.5 text-sm bg-white focus:ring-1 focus:ring-emerald-500 outline-none"
+        >
+          {!sources.some(({ q }) => q.id === condition.questionId) && (
+            <option value={condition.questionId}>{source ? `Pergunta ${questions.indexOf(source) + 1} (inválida)` : 'Pergunta removida'}</option>
+          )}
+          {sources.map(({ q, idx }) => (
+            <option key={q.id} value={q.id}>Pergunta {idx + 1}: {q.text || 'Sem texto'}</option>
+          ))}
+        </select>
+        <select
+          value={condition.operator}
+          onChange={(e) => {
+            const operator = e.target.value as QuestionCondition['operator'];
+            onChange({ ...condition, operator, values: operator === 'equals' ? condition.values.slice(0, 1) : condition.values });
+          }}
+          className="border border-gray-300 rounded-md p-1.5 text-sm bg-white focus:ring-1 focus:ring-emerald-500 outline-none"
+        >
+          {CONDITION_OPERATORS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        {condition.operator === 'equals' && (
+          <select
+            value={condition.values[0] || ''}
+            onChange={(e) => onChange({ ...condition, values: e.target.value ? [e.target.value] : [] })}
+            className="max-w-xs border border-gray-300 rounded-md p-1.5 text-sm bg-white focus:ring-1 focus:ring-emerald-500 outline-none"
+          >
+            <option value="">Selecione a resposta...</option>
+            {values.map(v => <option key={v.value} value={v.value}>{v.label}</option>)}
+          </select>
+        )}
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          className="text-xs text-gray-400 hover:text-red-500"
+        >
+          Remover condição
+        </button>
+      </div>
+
+      {condition.operator === 'in' && (
+        <div className="flex flex-wrap gap-2">
+          {values.map(v => (
+            <label key={v.value} className="flex items-center gap-1.5 text-xs text-gray-700 bg-white border border-gray-200 rounded-md px-2 py-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={condition.values.includes(v.value)}
+                onChange={() => toggleValue(v.value)}
+                className="accent-emerald-600"
+              />
+              {v.label}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Shuffle } from 'lucide-react';
+import { Randomization } from '../types';
+import { DEFAULT_RANDOMIZATION, isRandomized } from '../services/randomization';
+
+interface RandomizationSettingsProps {
+  randomization: Randomization | null;
+  hasSections: boolean;
+  onChange: (randomization: Randomization | null) => void;
+}
+
+export const RandomizationSettings: React.FC<RandomizationSettingsProps> = ({ randomization, hasSections, onChange }) => {
+  const current = randomization || DEFAULT_RANDOMIZATION;
+
+  // The default (nothing shuffled) is stored as null
+  const update = (updates: Partial<Randomization>) => {
+    const next = { ...current, ...updates };
+    onChange(isRandomized(next) ? next : null);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <Shuffle size={18} className="text-emerald-600" /> Ordem Aleatória
+        </h3>
+        <p className="text-xs text-gray-500">
+          Cada candidato recebe uma ordem própria, reproduzível a partir da semente salva com a tentativa.
+          Perguntas condicionais continuam depois da pergunta de que dependem.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Perguntas</label>
+          <select
+            value={!hasSections && current.questions === 'all' ? 'within_sections' : current.questions}
+            onChange={(e) => update({ questions: e.target.value as Randomization['questions'] })}
+            className="w-full border border-gray-300 rounded-lg p-2 bg-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+          >
+            <option value="fixed">Ordem fixa</option>
+            <option value="within_sections">{hasSections ? 'Embaralhar dentro de cada seção' : 'Embaralhar'}</option>
+            {hasSections && <option value="all">Embaralhar seções e perguntas</option>}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer md:pt-6">
+          <input
+            type="checkbox"
+            checked={current.options}
+            onChange={(e) => update({ options: e.target.checked })}
+            className="accent-emerald-600"
+          />
+          Embaralhar opções das perguntas de múltipla escolha
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,29 @@
 import React, { useState, useEffect } from 'react';
-import { Search, FileText, Calendar, User, Eye, X, BarChart2, Loader2, AlertCircle, TrendingUp, Filter, Brain, MessageSquare, Briefcase, Lightbulb, ThumbsUp, ThumbsDown, CheckCircle } from 'lucide-react';
+import { Search, FileText, Calendar, User, Eye, X, BarChart2, Loader2, AlertCircle, TrendingUp, Filter, Brain, MessageSquare, Briefcase, Lightbulb, ThumbsUp, ThumbsDown, CheckCircle, Clock, Zap, ShieldCheck, ShieldAlert } from 'lucide-react';
 import { supabase } from '../supabaseClient';
+import { scoreSubmissionBody, rankPoints, profileKey } from '../services/scoring';
+import { saveTextReview } from '../services/results';
+import { getRubric, rubricLevel } from '../services/rubrics';
+import { sjtScore, effectivenessOf, effectivenessLabel } from '../services/sjt';
+import { describeCondition } from '../services/conditions';
+import { formatDuration, isImplausiblyFast, fastAnswerThresholdMs } from '../services/timing';
+import { assessValidity, VALIDITY_STATUS_LABELS } from '../services/validity';
+import { INTEGRITY_EVENT_LABELS, summarizeIntegrity } from '../services/integrity';
+import { fetchVersion } from '../services/testVersions';
+import { fetchAssignments, CANDIDATE_STATUS_LABELS } from '../services/assignments';
+import { fetchCategories, findCategory, categoryLabel } from '../services/categories';
+import { findDimension } from '../services/profileModels';
+import { getScale, scaleLabel, normalizeScaleValue, reversedScaleValue, isNotApplicable, NOT_APPLICABLE_LABEL } from '../services/scales';
+import { Category, ProfileModel, Question, ScoringResult, TestVersion, TextAnswerReview, ValidityReport, ValidityStatus, IntegrityEvent, TestAssignment } from '../types';
 import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Cell } from 'recharts';
 
 interface ResultRow {
   id: string;
   created_at: string;
   test_id: string;
+  test_version?: number | null;
   candidate_id: string;
+  assignment_id?: string | null;
   result: any; 
   profiles?: {
     name: string;
@@ -18,17 +34,72 @@ interface ResultRow {
   };
 }
 
+// One bar of the profile chart; dimension details are absent for AI-processed rows
+interface ProfileBar {
+  name: string;
+  value: number;
+  color?: string;
+  interpretation?: string;
+}
+
 export const ResultsAnalysis: React.FC = () => {
   const [results, setResults] = useState<ResultRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedResult, setSelectedResult] = useState<ResultRow | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [fetchError, setFetchError] = useState('');
+  const [selectedVersion, setSelectedVersion] = useState<TestVersion | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [savingReview, setSavingReview] = useState<string | null>(null);
+  const [reviewError, setReviewError] = useState('');
+  const [battery, setBattery] = useState<{ assignment: TestAssignment; title: string }[]>([]);
 
   useEffect(() => {
     fetchResults();
+    fetchCategories()
+      .then(setCategories)
+      .catch(err => console.warn('Error fetching categories:', err));
   }, []);
 
+  // Load the exact test version the selected result was answered against
+  useEffect(() => {
+    setSelectedVersion(null);
+    if (!selectedResult) return;
+    const version = selectedResult.test_version ?? selectedResult.result?.test_version;
+    if (!version) return;
+
+    let cancelled = false;
+    fetchVersion(selectedResult.test_id, version)
+      .then(v => { if (!cancelled) setSelectedVersion(v); })
+      .catch(err => console.warn('Could not load test version:', err));
+    return () => { cancelled = true; };
+  }, [selectedResult]);
+
+  // The selected candidate's whole battery, so their results are read together
+  const batteryCandidateId = selectedResult?.candidate_id;
+  useEffect(() => {
+    setBattery([]);
+    if (!batteryCandidateId) return;
+
+    let cancelled = false;
+    const loadBattery = async () => {
+      const assignments = await fetchAssignments(batteryCandidateId);
+      if (assignments.length < 2) return;
+      const { data, error } = await supabase
+        .from('tests')
+        .select('id, title')
+        .in('id', assignments.map(a => a.testId));
+      if (error) throw error;
+      if (cancelled) return;
+      setBattery(assignments.map(assignment => ({
+        assignment,
+        title: (data || []).find((t: any) => t.id === assignment.testId)?.title || 'Teste'
+      })));
+    };
+    loadBattery().catch(err => console.warn('Could not load candidate battery:', err));
+    return () => { cancelled = true; };
+  }, [batteryCandidateId]);
+
   const fetchResults = async () => {
     setLoading(true);
     setFetchError('');
@@ -39,7 +110,9 @@ export const ResultsAnalysis: React.FC = () => {
           id,
           created_at,
           test_id,
+          test_version,
           candidate_id,
+          assignment_id,
           result,
           profiles:candidate_id (name, email),
           tests:test_id (title)
@@ -105,6 +178,18 @@ export const ResultsAnalysis: React.FC = () => {
       }
   };
 
+  // Results carry a snapshot of the profile model; older ones use their version's model
+  const profileModelFor = (resultRow: ResultRow): ProfileModel | null =>
+    resultRow.result?.profile_model
+      || (selectedVersion && selectedVersion.testId === resultRow.test_id ? selectedVersion.profileModel || null : null);
+
+  // Dimension name for a picked option of the question
+  const profileLabel = (model: ProfileModel | null, q: Question, picked: any): string | null => {
+    const key = profileKey(q, picked);
+    if (!key) return null;
+    return findDimension(model, key)?.name || key;
+  };
+
   const calculateChartData = (resultRow: ResultRow) => {
     const data = resultRow.result || {};
 
@@ -134,7 +219,7 @@ export const ResultsAnalysis: React.FC = () => {
         });
 
         // 2. Bar Data (Overall Profile)
-        let barData: any[] = [];
+        let barData: ProfileBar[] = [];
         if (data.metadados_calculo && data.metadados_calculo.escala_0_100) {
             barData = Object.entries(data.metadados_calculo.escala_0_100).map(([key, value]) => ({
                 name: key,
@@ -145,42 +230,32 @@ export const ResultsAnalysis: React.FC = () => {
         return { radarData, barData, isAiData: true };
     }
 
-    // --- Scenario B: Raw Answers (Legacy/Fallback) ---
-    // If the JSON is just the raw questions list
+    // --- Scenario B: Locally Scored / Raw Answers ---
+    // Rows saved by the app carry their own scoring; legacy rows are scored from the raw questions list
     const questions = data.body || data.questions || data.payload?.body || [];
-    const categoryScores: Record<string, { total: number; count: number }> = {};
-    const profileCounts: Record<string, number> = {};
-
-    questions.forEach((q: any) => {
-      if (q.category && q.type === 'scale' && q.resposta?.value) {
-        if (!categoryScores[q.category]) categoryScores[q.category] = { total: 0, count: 0 };
-        categoryScores[q.category].total += parseInt(q.resposta.value, 10);
-        categoryScores[q.category].count += 1;
-      }
-      if (q.type === 'choice' && q.resposta) {
-         if (q.resposta.value && isNaN(parseInt(q.resposta.value))) {
-             const tag = q.resposta.value;
-             profileCounts[tag] = (profileCounts[tag] || 0) + 1;
-         }
-         if (q.resposta.most?.value && isNaN(parseInt(q.resposta.most.value))) {
-             const tag = q.resposta.most.value;
-             profileCounts[tag] = (profileCounts[tag] || 0) + 1;
-         }
-         // We don't typically chart 'least' for profile dominance, but could if needed
-      }
-    });
+    const scoring: ScoringResult = data.scoring?.version ? data.scoring : scoreSubmissionBody(questions, data.reviews);
 
+    // Scores are labelled with the category's current name, in the configured order
+    const orderOf = (c: { categoryId?: string; category?: string }) => findCategory(categories, c)?.displayOrder ?? Number.MAX_SAFE_INTEGER;
     return {
-        radarData: Object.keys(categoryScores).map(cat => ({
-            subject: cat.length > 20 ? cat.substring(0, 20) + '...' : cat,
-            fullSubject: cat,
-            A: (categoryScores[cat].total / categoryScores[cat].count).toFixed(1),
-            fullMark: 5
-        })),
-        barData: Object.keys(profileCounts).map(tag => ({
-            name: tag,
-            value: profileCounts[tag]
-        })),
+        radarData: [...scoring.categories].sort((a, b) => orderOf(a) - orderOf(b)).map(c => {
+            const label = categoryLabel(categories, c);
+            return {
+                subject: label.length > 20 ? label.substring(0, 20) + '...' : label,
+                fullSubject: label,
+                A: c.score,
+                fullMark: 100
+            };
+        }),
+        barData: Object.keys(scoring.profileCounts).map((key): ProfileBar => {
+            const dimension = findDimension(profileModelFor(resultRow), key);
+            return {
+                name: dimension?.name || key,
+                value: scoring.profileCounts[key],
+                color: dimension?.color,
+                interpretation: dimension?.interpretation
+            };
+        }).sort((a, b) => b.value - a.value),
         isAiData: false
     };
   };
@@ -291,48 +366,340 @@ export const ResultsAnalysis: React.FC = () => {
     );
   };
 
+  const handleReview = async (questionId: string, score: number) => {
+    if (!selectedResult) return;
+    setSavingReview(questionId);
+    setReviewError('');
+    try {
+      const result = await saveTextReview(selectedResult.id, selectedResult.result, questionId, score);
+      const updated = { ...selectedResult, result };
+      setSelectedResult(updated);
+      setResults(results.map(r => r.id === updated.id ? updated : r));
+    } catch (err: any) {
+      console.error('Error saving review:', err);
+      setReviewError('Erro ao salvar a avaliação: ' + err.message);
+    } finally {
+      setSavingReview(null);
+    }
+  };
+
+  const renderTextReview = (q: any, review?: TextAnswerReview) => {
+      const rubric = getRubric(q);
+      return (
+          <div className="space-y-4">
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                  <span className="text-xs font-bold text-gray-400 uppercase mb-2 block">Resposta do Candidato</span>
+                  <p className="text-sm text-gray-800 leading-relaxed whitespace-pre-wrap">{q.resposta.text}</p>
+              </div>
+              <div>
+                  <div className="flex justify-between items-center mb-2">
+                      <span className="text-xs font-bold text-gray-400 uppercase">Avaliação pela Rubrica</span>
+                      {review ? (
+                          <span className="text-xs text-emerald-700">
+                              Avaliada em {new Date(review.reviewedAt).toLocaleDateString('pt-BR')}: {rubricLevel(rubric, review.score)?.label || review.score}
+                          </span>
+                      ) : (
+                          <span className="text-xs font-medium text-orange-600">Aguardando avaliação</span>
+                      )}
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {rubric.map(level => (
+                          <button
+                              key={level.score}
+                              type="button"
+                              onClick={() => handleReview(q.id, level.score)}
+                              disabled={savingReview !== null}
+                              className={`text-left p-3 rounded-lg border-2 transition-colors disabled:opacity-60
+                                  ${review?.score === level.score
+                                      ? 'border-emerald-500 bg-emerald-50'
+                                      : 'border-gray-100 bg-white hover:border-emerald-200'}`}
+                          >
+                              <span className="flex items-center gap-2 text-sm font-bold text-gray-800">
+                                  {savingReview === q.id ? <Loader2 size={14} className="animate-spin text-gray-400" /> : <span className="text-emerald-600">{level.score}</span>}
+                                  {level.label}
+                              </span>
+                              {level.description && <span className="block text-xs text-gray-500 mt-1">{level.description}</span>}
+                          </button>
+                      ))}
+                  </div>
+              </div>
+          </div>
+      );
+  };
+
+  const renderSjtAnswer = (q: any) => {
+      const score = sjtScore(q, q.resposta);
+      const picks = [
+          { key: 'best', label: 'Melhor ação escolhida', box: 'bg-emerald-50 border-emerald-100', title: 'text-emerald-700', icon: <ThumbsUp size={14} /> },
+          { key: 'worst', label: 'Pior ação escolhida', box: 'bg-red-50 border-red-100', title: 'text-red-700', icon: <ThumbsDown size={14} /> }
+      ];
+      return (
+          <div className="space-y-3">
+              {q.scenario && (
+                  <p className="text-sm text-gray-600 bg-blue-50 border-l-4 border-blue-300 rounded-r-lg p-3 whitespace-pre-wrap">{q.scenario}</p>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {picks.map(pick => {
+                      const picked = q.resposta[pick.key];
+                      const keyed = effectivenessOf(q, picked);
+                      return (
+                          <div key={pick.key} className={`border rounded-lg p-4 ${pick.box}`}>
+                              <span className={`text-xs font-bold uppercase flex items-center gap-2 mb-2 ${pick.title}`}>{pick.icon} {pick.label}</span>
+                              <p className="text-sm text-gray-800 font-medium leading-relaxed">"{picked?.text || '—'}"</p>
+                              {keyed !== undefined && (
+                                  <p className="text-xs text-gray-500 mt-2">Gabarito: {keyed} · {effectivenessLabel(keyed)}</p>
+                              )}
+                          </div>
+                      );
+                  })}
+              </div>
+              {score !== null && (
+                  <p className="text-sm font-bold text-emerald-700">Aderência ao gabarito: {Math.round(score * 100)}%</p>
+              )}
+          </div>
+      );
+  };
+
+  const VALIDITY_TONES: Record<ValidityStatus, string> = {
+      ok: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+      caution: 'bg-amber-50 text-amber-700 border-amber-100',
+      invalid: 'bg-red-50 text-red-700 border-red-100',
+      not_applicable: 'bg-gray-50 text-gray-500 border-gray-100'
+  };
+
+  const renderValidityBadge = (report: ValidityReport) => {
+      const flagged = report.indicators.filter(i => i.status === 'caution' || i.status === 'invalid');
+      return (
+          <span
+              title={flagged.map(i => `${i.label}: ${i.detail}`).join('\n') || undefined}
+              className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-md border text-xs font-medium ${VALIDITY_TONES[report.status]}`}
+          >
+              {report.status === 'ok' ? <ShieldCheck size={12} /> : <ShieldAlert size={12} />}
+              {VALIDITY_STATUS_LABELS[report.status]}
+          </span>
+      );
+  };
+
+  const renderValidityBreakdown = (report: ValidityReport) => (
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 mb-8">
+          <div className="flex justify-between items-center mb-4">
+              <h3 className="font-bold text-gray-700 flex items-center gap-2"><ShieldCheck size={18} /> Qualidade das Respostas</h3>
+              {renderValidityBadge(report)}
+          </div>
+          {report.status === 'invalid' && (
+              <p className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+                  Os padrões de resposta sugerem que este perfil não reflete o candidato. Considere desconsiderá-lo ou reaplicar o teste.
+              </p>
+          )}
+          <div className="grid gap-2 md:grid-cols-2">
+              {report.indicators.map(indicator => (
+                  <div key={indicator.id} className={`p-3 rounded-lg border ${VALIDITY_TONES[indicator.status]}`}>
+                      <div className="flex justify-between items-center gap-2">
+                          <span className="text-sm font-semibold">{indicator.label}</span>
+                          <span className="text-[10px] font-bold uppercase tracking-wider">{VALIDITY_STATUS_LABELS[indicator.status]}</span>
+                      </div>
+                      <p className="text-xs mt-1 opacity-90">{indicator.detail}</p>
+                  </div>
+              ))}
+          </div>
+      </div>
+  );
+
+  // Results from before integrity monitoring carry no 'integrity_events' and show nothing
+  const renderIntegrityTimeline = (resultData: any) => {
+      const events: IntegrityEvent[] | undefined = resultData?.integrity_events;
+      if (!Array.isArray(events)) return null;
+      const summary = summarizeIntegrity(events);
+      const startedAt = resultData.started_at ? new Date(resultData.started_at).getTime() : null;
+      const questionNumber = (id?: string) => {
+          const idx = (resultData.body || []).findIndex((q: any) => q.id === id);
+          return idx >= 0 ? idx + 1 : null;
+      };
+      const chips = [
+          { label: 'Saídas da página', value: String(summary.focusLosses), alert: summary.focusLosses > 0 },
+          { label: 'Tempo fora', value: formatDuration(summary.awayMs / 1000), alert: summary.awayMs > 0 },
+          { label: 'Textos colados', value: String(summary.pastes), alert: summary.pastes > 0 },
+          { label: 'Redimensionamentos', value: String(summary.resizes), alert: false },
+          { label: 'Ferramentas de desenvolvedor', value: String(summary.devtools), alert: summary.devtools > 0 }
+      ];
+
+      return (
+          <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 mb-8">
+              <h3 className="font-bold text-gray-700 flex items-center gap-2 mb-4"><ShieldAlert size={18} /> Integridade da Tentativa</h3>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-4">
+                  {chips.map(chip => (
+                      <div key={chip.label} className={`p-2 rounded-lg border text-center ${chip.alert ? 'bg-amber-50 border-amber-100 text-amber-800' : 'bg-gray-50 border-gray-100 text-gray-600'}`}>
+                          <p className="text-lg font-bold tabular-nums">{chip.value}</p>
+                          <p className="text-[10px] uppercase tracking-wider">{chip.label}</p>
+                      </div>
+                  ))}
+              </div>
+              {events.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nenhum evento registrado durante a tentativa.</p>
+              ) : (
+                  <ol className="relative border-l border-gray-200 ml-2 space-y-3 max-h-72 overflow-y-auto">
+                      {events.map((event, idx) => {
+                          const number = questionNumber(event.questionId);
+                          const at = new Date(event.at).getTime();
+                          return (
+                              <li key={idx} className="ml-4">
+                                  <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${event.type === 'resize' ? 'bg-gray-300' : 'bg-amber-500'}`}></span>
+                                  <p className="text-xs text-gray-400 tabular-nums">
+                                      {startedAt !== null ? `+${formatDuration((at - startedAt) / 1000)}` : new Date(event.at).toLocaleTimeString('pt-BR')}
+                                  </p>
+                                  <p className="text-sm text-gray-700">
+                                      <span className="font-medium">{INTEGRITY_EVENT_LABELS[event.type]}</span>
+                                      {event.durationMs !== undefined && <> por {formatDuration(event.durationMs / 1000)}</>}
+                                      {number !== null && <> na questão {number}</>}
+                                      {event.detail && <span className="text-gray-500"> · {event.detail}</span>}
+                                  </p>
+                              </li>
+                          );
+                      })}
+                  </ol>
+              )}
+          </div>
+      );
+  };
+
   const renderRawQuestions = (resultData: any) => {
-       const questions = resultData.body || resultData.questions || [];
+       const answered = resultData.body || resultData.questions || [];
+       const profileModel = selectedResult ? profileModelFor(selectedResult) : null;
+       // The body is stored in the order the candidate saw, including shuffled options
+       const shuffled = resultData.shuffle_seed !== null && resultData.shuffle_seed !== undefined;
+       // Render each answer against the question definition of its own version
+       const questions = selectedVersion
+           ? answered.map((q: any) => {
+               const definition = selectedVersion.questions.find(vq => vq.id === q.id);
+               if (!definition) return q;
+               return { ...definition, resposta: q.resposta, notShown: q.notShown, responseTimeMs: q.responseTimeMs, ...(shuffled && q.options ? { options: q.options } : {}) };
+           })
+           : answered;
        if (questions.length === 0) return <p className="text-gray-400 text-center py-4">Nenhuma resposta detalhada disponível.</p>;
+       const fastCount = questions.filter((q: any) => q.resposta && isImplausiblyFast(q, q.responseTimeMs)).length;
 
        return (
            <div className="space-y-4">
+               {fastCount > 0 && (
+                   <div className="p-3 bg-orange-50 text-orange-700 rounded-lg text-sm flex items-center gap-2">
+                       <Zap size={16} /> {fastCount} resposta(s) dada(s) mais rápido do que seria possível ler a pergunta. Avalie com cautela.
+                   </div>
+               )}
+               {shuffled && (
+                   <p className="text-xs text-gray-500 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2">
+                       Ordem embaralhada para este candidato (semente {resultData.shuffle_seed}): perguntas e opções aparecem na ordem em que foram apresentadas.
+                   </p>
+               )}
                {questions.map((q: any, idx: number) => (
                    <div key={idx} className="bg-white p-5 rounded-xl border border-gray-200 shadow-sm">
                        <div className="flex justify-between items-start mb-3">
-                           <span className="px-2 py-1 bg-gray-100 text-gray-500 text-[10px] font-bold uppercase tracking-wider rounded">
-                               {q.category || 'Geral'}
+                           <div className="flex flex-wrap gap-1.5">
+                               <span className="px-2 py-1 bg-gray-100 text-gray-500 text-[10px] font-bold uppercase tracking-wider rounded">
+                                   {categoryLabel(categories, q) || 'Geral'}
+                               </span>
+                               {q.type === 'scale' && q.reverse && (
+                                   <span className="px-2 py-1 bg-amber-50 text-amber-700 text-[10px] font-bold uppercase tracking-wider rounded" title="Afirmação negativa: a nota é invertida na pontuação">
+                                       Item invertido
+                                   </span>
+                               )}
+                               {typeof q.weight === 'number' && q.weight !== 1 && (
+                                   <span className="px-2 py-1 bg-blue-50 text-blue-700 text-[10px] font-bold uppercase tracking-wider rounded">
+                                       Peso {q.weight}
+                                   </span>
+                               )}
+                               {q.showIf && (
+                                   <span className="px-2 py-1 bg-purple-50 text-purple-700 text-[10px] font-bold uppercase tracking-wider rounded" title={describeCondition(q.showIf, questions)}>
+                                       Condicional
+                                   </span>
+                               )}
+                               {q.resposta && isImplausiblyFast(q, q.responseTimeMs) && (
+                                   <span className="px-2 py-1 bg-orange-50 text-orange-700 text-[10px] font-bold uppercase tracking-wider rounded flex items-center gap-1" title={`Abaixo do mínimo plausível de ${(fastAnswerThresholdMs(q) / 1000).toFixed(1)} s para ler e responder`}>
+                                       <Zap size={10} /> Rápida demais
+                                   </span>
+                               )}
+                           </div>
+                           <span className="text-xs text-gray-400 flex items-center gap-2">
+                               {typeof q.responseTimeMs === 'number' && (
+                                   <span className="flex items-center gap-1" title="Tempo gasto na pergunta"><Clock size={12} /> {formatDuration(q.responseTimeMs / 1000)}</span>
+                               )}
+                               #{idx + 1}
                            </span>
-                           <span className="text-xs text-gray-400">#{idx + 1}</span>
                        </div>
                        
                        <h4 className="text-md font-semibold text-gray-800 mb-4">{q.text}</h4>
                        
+                       {q.notShown ? (
+                       <div className="border-t border-gray-100 pt-4 text-sm text-gray-400 italic">
+                           Não exibida: a condição de exibição{q.showIf ? ` (${describeCondition(q.showIf, questions)})` : ''} não foi atendida. Não conta como pergunta sem resposta.
+                       </div>
+                       ) : !q.resposta ? (
+                       <div className="border-t border-gray-100 pt-4 text-sm text-gray-400 italic">
+                           Sem resposta{resultData.timed_out ? ': o tempo limite esgotou antes desta pergunta ser respondida.' : '.'}
+                       </div>
+                       ) : (
                        <div className="border-t border-gray-100 pt-4">
                             {/* SCALE TYPE */}
-                            {q.type === 'scale' && q.resposta && (
+                            {q.type === 'scale' && q.resposta && (isNotApplicable(q.resposta) ? (
+                                <div className="max-w-md bg-gray-50 p-4 rounded-lg text-center text-sm font-medium text-gray-500 italic">
+                                    {NOT_APPLICABLE_LABEL} (não entra na pontuação)
+                                </div>
+                            ) : (
                                 <div className="flex flex-col gap-2 max-w-md bg-gray-50 p-4 rounded-lg">
                                     <div className="flex justify-between text-xs text-gray-500 font-medium">
-                                        <span>Discordo (1)</span>
-                                        <span>Concordo (5)</span>
+                                        <span>{scaleLabel(getScale(q), getScale(q).min) || 'Mínimo'} ({getScale(q).min})</span>
+                                        <span>{scaleLabel(getScale(q), getScale(q).max) || 'Máximo'} ({getScale(q).max})</span>
                                     </div>
                                     <div className="h-3 bg-gray-200 rounded-full overflow-hidden relative">
                                         <div 
                                             className="h-full bg-emerald-500 absolute left-0 top-0 transition-all" 
-                                            style={{ width: `${(parseInt(q.resposta.value) / 5) * 100}%` }} 
+                                            style={{ width: `${normalizeScaleValue(getScale(q), parseInt(q.resposta.value)) * 100}%` }} 
                                         />
                                     </div>
                                     <div className="text-center font-bold text-emerald-700 mt-1">
                                         Nota: {q.resposta.value}
+                                        {scaleLabel(getScale(q), parseInt(q.resposta.value)) && (
+                                            <span className="font-medium text-gray-500"> — {scaleLabel(getScale(q), parseInt(q.resposta.value))}</span>
+                                        )}
                                     </div>
+                                    {q.reverse && (
+                                        <p className="text-center text-xs text-amber-700">
+                                            Item invertido: conta como {reversedScaleValue(getScale(q), parseInt(q.resposta.value))} na pontuação.
+                                        </p>
+                                    )}
                                 </div>
-                            )}
+                            ))}
+
+                            {/* SITUATIONAL JUDGMENT TYPE */}
+                            {q.type === 'sjt' && q.resposta && renderSjtAnswer(q)}
+
+                            {/* TEXT TYPE */}
+                            {q.type === 'text' && q.resposta && renderTextReview(q, resultData.reviews?.[q.id])}
 
                             {/* CHOICE TYPE */}
                             {q.type === 'choice' && q.resposta && (
                                 <div>
-                                    {/* Variation: Most/Least (Behavioral) */}
-                                    {(q.resposta.most || q.resposta.least) ? (
+                                    {/* Variation: Ranking */}
+                                    {Array.isArray(q.resposta.ranking) ? (
+                                        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                                            <span className="text-xs font-bold text-gray-400 uppercase mb-3 block">Ordem Informada</span>
+                                            <ol className="space-y-2">
+                                                {q.resposta.ranking.map((opt: any, rankIdx: number) => (
+                                                    <li key={rankIdx} className="flex items-center gap-3 bg-white border border-gray-100 rounded-lg p-3">
+                                                        <span className={`w-7 h-7 rounded-full text-xs font-bold flex items-center justify-center flex-shrink-0
+                                                            ${rankIdx === 0 ? 'bg-emerald-100 text-emerald-700' : rankIdx === q.resposta.ranking.length - 1 ? 'bg-red-100 text-red-600' : 'bg-gray-100 text-gray-500'}`}>
+                                                            {rankIdx + 1}º
+                                                        </span>
+                                                        <p className="flex-1 text-sm font-medium text-gray-800">{opt?.text || '—'}</p>
+                                                        {profileLabel(profileModel, q, opt) && (
+                                                            <span className="text-xs text-gray-500 whitespace-nowrap">
+                                                                {profileLabel(profileModel, q, opt)} · +{Math.round(rankPoints(rankIdx, q.resposta.ranking.length) * 100) / 100}
+                                                            </span>
+                                                        )}
+                                                    </li>
+                                                ))}
+                                            </ol>
+                                        </div>
+                                    ) : (q.resposta.most || q.resposta.least) ? (
                                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                             {/* Most */}
                                             {q.resposta.most && (
@@ -347,9 +714,9 @@ export const ResultsAnalysis: React.FC = () => {
                                                     <p className="text-sm text-gray-800 font-medium leading-relaxed">
                                                         "{q.resposta.most.text}"
                                                     </p>
-                                                    {q.resposta.most.value && (
+                                                    {profileLabel(profileModel, q, q.resposta.most) && (
                                                         <div className="mt-3 inline-flex items-center px-2 py-1 rounded bg-white border border-emerald-100 text-xs font-semibold text-emerald-600">
-                                                            Perfil: {q.resposta.most.value}
+                                                            Perfil: {profileLabel(profileModel, q, q.resposta.most)}
                                                         </div>
                                                     )}
                                                 </div>
@@ -368,9 +735,9 @@ export const ResultsAnalysis: React.FC = () => {
                                                     <p className="text-sm text-gray-800 font-medium leading-relaxed">
                                                         "{q.resposta.least.text}"
                                                     </p>
-                                                    {q.resposta.least.value && (
+                                                    {profileLabel(profileModel, q, q.resposta.least) && (
                                                         <div className="mt-3 inline-flex items-center px-2 py-1 rounded bg-white border border-red-100 text-xs font-semibold text-red-500">
-                                                            Perfil: {q.resposta.least.value}
+                                                            Perfil: {profileLabel(profileModel, q, q.resposta.least)}
                                                         </div>
                                                     )}
                                                 </div>
@@ -386,6 +753,9 @@ export const ResultsAnalysis: React.FC = () => {
                                                     <p className="text-sm font-medium text-gray-800">
                                                         {q.resposta.text || q.resposta.value || JSON.stringify(q.resposta)}
                                                     </p>
+                                                    {profileLabel(profileModel, q, q.resposta) && (
+                                                        <p className="text-xs text-gray-500 mt-1">Perfil: {profileLabel(profileModel, q, q.resposta)}</p>
+                                                    )}
                                                 </div>
                                             </div>
                                         </div>
@@ -393,6 +763,7 @@ export const ResultsAnalysis: React.FC = () => {
                                 </div>
                             )}
                        </div>
+                       )}
                    </div>
                ))}
            </div>
@@ -446,6 +817,7 @@ export const ResultsAnalysis: React.FC = () => {
                         <th className="p-4 text-xs font-semibold text-gray-500 uppercase">Data</th>
                         <th className="p-4 text-xs font-semibold text-gray-500 uppercase">Candidato</th>
                         <th className="p-4 text-xs font-semibold text-gray-500 uppercase">Teste Aplicado</th>
+                        <th className="p-4 text-xs font-semibold text-gray-500 uppercase">Validade</th>
                         <th className="p-4 text-xs font-semibold text-gray-500 uppercase text-right">Ações</th>
                     </tr>
                     </thead>
@@ -475,6 +847,9 @@ export const ResultsAnalysis: React.FC = () => {
                                 {r.tests?.title || r.result?.test_title || 'Teste'}
                             </span>
                         </td>
+                        <td className="p-4">
+                            {renderValidityBadge(assessValidity(r.result?.body || []))}
+                        </td>
                         <td className="p-4 text-right">
                             <button 
                                 onClick={() => setSelectedResult(r)}
@@ -502,6 +877,20 @@ export const ResultsAnalysis: React.FC = () => {
                     <div className="flex items-center gap-4 mt-2 text-sm text-gray-500">
                         <span className="flex items-center gap-1"><User size={14} /> {selectedResult.profiles?.name}</span>
                         <span className="flex items-center gap-1"><Calendar size={14} /> {new Date(selectedResult.created_at).toLocaleDateString('pt-BR')}</span>
+                        {typeof selectedResult.result?.duration_seconds === 'number' && (
+                            <span className="flex items-center gap-1" title="Do início ao envio do teste">
+                                <Clock size={14} /> {formatDuration(selectedResult.result.duration_seconds)}
+                                {selectedResult.result.time_limit_minutes ? ` de ${selectedResult.result.time_limit_minutes} min` : ''}
+                            </span>
+                        )}
+                        {selectedResult.result?.timed_out && (
+                            <span className="px-2 py-0.5 rounded-md bg-amber-100 text-amber-700 text-xs font-medium">Tempo esgotado</span>
+                        )}
+                        {(selectedResult.test_version ?? selectedResult.result?.test_version) && (
+                            <span className="px-2 py-0.5 rounded-md bg-gray-200 text-gray-600 text-xs font-medium">
+                                Versão {selectedResult.test_version ?? selectedResult.result?.test_version}
+                            </span>
+                        )}
                     </div>
                 </div>
                 <button 
@@ -512,6 +901,32 @@ export const ResultsAnalysis: React.FC = () => {
                 </button>
             </div>
 
+            {battery.length > 0 && (
+                <div className="px-6 py-3 border-b border-gray-100 flex items-center gap-2 overflow-x-auto">
+                    <span className="text-xs font-bold text-gray-400 uppercase tracking-wider flex-shrink-0">Bateria</span>
+                    {battery.map(({ assignment, title }, idx) => {
+                        // Results are listed newest first: the first match is the latest attempt
+                        const result = results.find(r => r.assignment_id === assignment.id);
+                        const isSelected = selectedResult.assignment_id === assignment.id;
+                        return (
+                            <button
+                                key={assignment.id}
+                                type="button"
+                                onClick={() => result && setSelectedResult(result)}
+                                disabled={!result}
+                                title={result ? undefined : CANDIDATE_STATUS_LABELS[assignment.status]}
+                                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm whitespace-nowrap border transition-colors
+                                    ${isSelected ? 'bg-emerald-50 border-emerald-200 text-emerald-700 font-medium' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}
+                                    disabled:opacity-50 disabled:hover:bg-transparent`}
+                            >
+                                <span className="text-xs font-bold">{idx + 1}.</span> {title}
+                                {!result && <span className="text-[10px] uppercase text-gray-400">{CANDIDATE_STATUS_LABELS[assignment.status]}</span>}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
             <div className="overflow-y-auto p-6 bg-gray-50/50">
                 
                 {/* Visual Charts */}
@@ -527,7 +942,7 @@ export const ResultsAnalysis: React.FC = () => {
                                     <RadarChart cx="50%" cy="50%" outerRadius="80%" data={calculateChartData(selectedResult).radarData}>
                                         <PolarGrid stroke="#e5e7eb" />
                                         <PolarAngleAxis dataKey="subject" tick={{ fill: '#6b7280', fontSize: 10 }} />
-                                        <PolarRadiusAxis angle={30} domain={[0, calculateChartData(selectedResult).isAiData ? 100 : 5]} tick={false} axisLine={false} />
+                                        <PolarRadiusAxis angle={30} domain={[0, 100]} tick={false} axisLine={false} />
                                         <Radar name="Candidato" dataKey="A" stroke="#10b981" fill="#10b981" fillOpacity={0.4} />
                                         <Tooltip />
                                     </RadarChart>
@@ -554,7 +969,7 @@ export const ResultsAnalysis: React.FC = () => {
                                         <Tooltip cursor={{fill: 'transparent'}} />
                                         <Bar dataKey="value" fill="#3b82f6" radius={[0, 4, 4, 0]} barSize={20}>
                                             {calculateChartData(selectedResult).barData.map((entry, index) => (
-                                                <Cell key={`cell-${index}`} fill={['#3b82f6', '#10b981', '#f59e0b', '#ef4444'][index % 4]} />
+                                                <Cell key={`cell-${index}`} fill={entry.color || ['#3b82f6', '#10b981', '#f59e0b', '#ef4444'][index % 4]} />
                                             ))}
                                         </Bar>
                                     </BarChart>
@@ -568,6 +983,22 @@ export const ResultsAnalysis: React.FC = () => {
                     </div>
                 </div>
 
+                {/* Predominant Profile Interpretation */}
+                {(() => {
+                    const top: ProfileBar | undefined = calculateChartData(selectedResult).barData[0];
+                    if (!top?.interpretation) return null;
+                    return (
+                        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 mb-8 border-l-4" style={{ borderLeftColor: top.color || '#3b82f6' }}>
+                            <p className="text-xs font-bold text-gray-400 uppercase mb-1">Perfil predominante: {top.name}</p>
+                            <p className="text-sm text-gray-700 leading-relaxed">{top.interpretation}</p>
+                        </div>
+                    );
+                })()}
+
+                {renderValidityBreakdown(assessValidity(selectedResult.result?.body || []))}
+
+                {renderIntegrityTimeline(selectedResult.result)}
+
                 {/* Analysis Content Switcher */}
                 {calculateChartData(selectedResult).isAiData ? (
                     <>
@@ -577,6 +1008,16 @@ export const ResultsAnalysis: React.FC = () => {
                 ) : (
                     <>
                         <h3 className="text-lg font-bold text-gray-800 mb-4 px-1">Respostas Detalhadas</h3>
+                        {selectedResult.result?.scoring?.pendingReviews > 0 && (
+                            <div className="mb-4 p-3 bg-orange-50 text-orange-700 rounded-lg text-sm flex items-center gap-2">
+                                <AlertCircle size={16} /> {selectedResult.result.scoring.pendingReviews} resposta(s) aberta(s) aguardando avaliação. As competências só incluem respostas avaliadas.
+                            </div>
+                        )}
+                        {reviewError && (
+                            <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-center gap-2">
+                                <AlertCircle size={16} /> {reviewError}
+                            </div>
+                        )}
                         {renderRawQuestions(selectedResult.result)}
                     </>
                 )}
@@ -0,0 +1,105 @@
+import React from 'react';
+import { ScaleConfig } from '../types';
+import { DEFAULT_SCALE, SCALE_PRESETS, MAX_SCALE_POINTS, scalePoints, validateScale } from '../services/scales';
+
+interface ScaleSettingsProps {
+  scale?: ScaleConfig;
+  onChange: (scale: ScaleConfig | undefined) => void;
+}
+
+export const ScaleSettings: React.FC<ScaleSettingsProps> = ({ scale, onChange }) => {
+  const current = scale || DEFAULT_SCALE;
+  const presetId = SCALE_PRESETS.find(p => JSON.stringify(p.scale) === JSON.stringify(current))?.id || 'custom';
+  const error = validateScale(current);
+
+  // The 1-5 agreement default is stored as "no scale" to keep older questions unchanged
+  const commit = (next: ScaleConfig) => {
+    onChange(JSON.stringify(next) === JSON.stringify(DEFAULT_SCALE) ? undefined : next);
+  };
+
+  const setRange = (min: number, max: number) => {
+    if (isNaN(min) || isNaN(max)) return;
+    const labels = Object.fromEntries(
+      Object.entries(current.labels || {}).filter(([point]) => Number(point) >= min && Number(point) <= max)
+    );
+    commit({ ...current, min, max, labels });
+  };
+
+  const setLabel = (point: number, label: string) => {
+    const labels = { ...(current.labels || {}) };
+    if (label) labels[String(point)] = label;
+    else delete labels[String(point)];
+    commit({ ...current, labels });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Escala</label>
+          <select
+            value={presetId}
+            onChange={(e) => {
+              const preset = SCALE_PRESETS.find(p => p.id === e.target.value);
+              if (preset) commit({ ...preset.scale, allowNotApplicable: current.allowNotApplicable });
+            }}
+            className="border border-gray-300 rounded-md p-1.5 text-sm bg-white focus:ring-1 focus:ring-emerald-500 outline-none"
+          >
+            {SCALE_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            <option value="custom" disabled>Personalizada</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase mb-1">De</label>
+          <input
+            type="number"
+            value={current.min}
+            onChange={(e) => setRange(parseInt(e.target.value, 10), current.max)}
+            className="w-16 border border-gray-300 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Até</label>
+          <input
+            type="number"
+            value={current.max}
+            onChange={(e) => setRange(current.min, parseInt(e.target.value, 10))}
+            className="w-16 border border-gray-300 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 pb-1.5">
+          <input
+            type="checkbox"
+            checked={!!current.allowNotApplicable}
+            onChange={(e) => commit({ ...current, allowNotApplicable: e.target.checked || undefined })}
+            className="accent-emerald-600"
+          />
+          Permitir "Não se aplica"
+        </label>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : (
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Rótulos (opcionais)</label>
+          <div className={`grid gap-2 ${scalePoints(current).length > 6 ? 'grid-cols-3 sm:grid-cols-4' : 'grid-cols-2 sm:grid-cols-3'}`}>
+            {scalePoints(current).map(point => (
+              <div key={point} className="flex items-center gap-1.5">
+                <span className="w-6 text-right text-xs font-bold text-gray-400">{point}</span>
+                <input
+                  type="text"
+                  value={current.labels?.[String(point)] || ''}
+                  onChange={(e) => setLabel(point, e.target.value)}
+                  placeholder="—"
+                  className="flex-1 min-w-0 border border-gray-300 rounded-md p-1 text-xs focus:ring-1 focus:ring-emerald-500 outline-none"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-400 mt-1">Até {MAX_SCALE_POINTS} pontos. A pontuação é normalizada para a faixa escolhida.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown, ListOrdered } from 'lucide-react';
+import { Question, TestSection } from '../types';
+import { orderBySection } from '../services/candidateFlow';
+
+interface SectionSettingsProps {
+  sections: TestSection[];
+  questions: Question[];
+  onChange: (sections: TestSection[], questions: Question[]) => void;
+}
+
+export const SectionSettings: React.FC<SectionSettingsProps> = ({ sections, questions, onChange }) => {
+  const countOf = (sectionId: string) => questions.filter(q => q.sectionId === sectionId).length;
+
+  const updateSection = (id: string, updates: Partial<TestSection>) => {
+    onChange(sections.map(s => s.id === id ? { ...s, ...updates } : s), questions);
+  };
+
+  // The first section takes every existing question, so turning sections on
+  // does not leave the whole test in front of "Parte 1".
+  const addSection = () => {
+    const section: TestSection = { id: `sec${Date.now()}`, title: `Parte ${sections.length + 1}`, intro: '', questionsPerPage: 1 };
+    onChange(
+      [...sections, section],
+      sections.length === 0 ? questions.map(q => ({ ...q, sectionId: section.id })) : questions
+    );
+  };
+
+  const removeSection = (id: string) => {
+    const used = countOf(id);
+    if (used > 0 && !window.confirm(`${used} pergunta(s) desta seção passarão a aparecer antes da primeira seção. Remover?`)) return;
+    const next = sections.filter(s => s.id !== id);
+    onChange(next, orderBySection(questions.map(q => q.sectionId === id ? { ...q, sectionId: undefined } : q), next));
+  };
+
+  const moveSection = (from: number, to: number) => {
+    if (to < 0 || to >= sections.length) return;
+    const next = [...sections];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next, orderBySection(questions, next));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex justify-between items-start mb-4 gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <ListOrdered size={18} className="text-emerald-600" /> Seções
+          </h3>
+          <p className="text-xs text-gray-500">Divida o teste em partes, cada uma com uma tela de introdução e perguntas paginadas.</p>
+        </div>
+        <button
+          type="button"
+          onClick={addSection}
+          className="text-sm text-emerald-600 font-medium hover:underline flex items-center gap-1 flex-shrink-0"
+        >
+          <Plus size={14} /> Adicionar seção
+        </button>
+      </div>
+
+      {sections.length === 0 ? (
+        <p className="text-sm text-gray-400">Sem seções: o candidato vê uma pergunta por vez, sem telas de introdução.</p>
+      ) : (
+        <div className="space-y-3">
+          {sections.map((section, idx) => (
+            <div key={section.id} className="flex gap-3 p-4 border border-gray-200 rounded-lg">
+              <div className="flex flex-col items-center gap-1 text-gray-400 pt-1">
+                <button
+                  type="button"
+                  onClick={() => moveSection(idx, idx - 1)}
+                  disabled={idx === 0}
+                  aria-label={`Mover seção ${idx + 1} para cima`}
+                  className="hover:text-emerald-600 disabled:opacity-30 disabled:hover:text-gray-400"
+                >
+                  <ChevronUp size={16} />
+                </button>
+                <span className="text-xs font-bold text-gray-500">{idx + 1}</span>
+                <button
+                  type="button"
+                  onClick={() => moveSection(idx, idx + 1)}
+                  disabled={idx === sections.length - 1}
+                  aria-label={`Mover seção ${idx + 1} para baixo`}
+                  className="hover:text-emerald-600 disabled:opacity-30 disabled:hover:text-gray-400"
+                >
+                  <ChevronDown size={16} />
+                </button>
+              </div>
+
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex flex-wrap gap-2 items-end">
+                  <div className="flex-1 min-w-[12rem]">
+                    <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Título</label>
+                    <input
+                      type="text"
+                      value={section.title}
+                      onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                      placeholder="Ex: Parte 1 – Estilo de trabalho"
+                      className="w-full border border-gray-300 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Perguntas por página</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={section.questionsPerPage ?? 1}
+                      onChange={(e) => updateSection(section.id, { questionsPerPage: parseInt(e.target.value, 10) || 1 })}
+                      className="w-24 border border-gray-300 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+                    />
+                  </div>
+                  <span className="text-xs text-gray-400 pb-2">{countOf(section.id)} pergunta(s)</span>
+                </div>
+                <textarea
+                  value={section.intro || ''}
+                  onChange={(e) => updateSection(section.id, { intro: e.target.value })}
+                  placeholder="Texto de introdução mostrado antes das perguntas da seção"
+                  rows={2}
+                  className="w-full border border-gray-300 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+                />
+                <textarea
+                  value={section.instructions || ''}
+                  onChange={(e) => updateSection(section.id, { instructions: e.target.value || undefined })}
+                  placeholder="Instruções (opcional)"
+                  rows={2}
+                  className="w-full border border-gray-300 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+                />
+              </div>
+
+              <button
+                type="button"
+                onClick={() => removeSection(section.id)}
+                className="text-gray-400 hover:text-red-500 self-start p-1"
+                title="Remover seção"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,268 @@
+import React, { useState } from 'react';
+import { X, Upload, FileJson, FileSpreadsheet, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import { Category, ImportPreview, Test } from '../types';
+import { parseTestCsv, parseTestJson } from '../services/testTransfer';
+import { publishVersion } from '../services/testVersions';
+import { orderBySection } from '../services/candidateFlow';
+import { supabase } from '../supabaseClient';
+
+interface TestImportModalProps {
+  tests: Test[];
+  categories: Category[];
+  onClose: () => void;
+  onImported: (test: Test) => void;
+}
+
+export const TestImportModal: React.FC<TestImportModalProps> = ({ tests, categories, onClose, onImported }) => {
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [target, setTarget] = useState<'new' | 'version'>('new');
+  const [targetTestId, setTargetTestId] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setErrorMsg('');
+    const content = await file.text();
+    const parsed = /\.csv$/i.test(file.name) ? parseTestCsv(content, file.name, categories) : parseTestJson(content, categories);
+    setFileName(file.name);
+    setPreview(parsed);
+    setTitle(parsed.title);
+    setDescription(parsed.description);
+  };
+
+  const issuesForRow = (row: number) => preview?.issues.filter(i => i.row === row) || [];
+  const generalIssues = preview?.issues.filter(i => !preview.questionRows.includes(i.row)) || [];
+  const hasErrors = !!preview && (preview.issues.length > 0 || preview.questions.length === 0);
+
+  const handleImport = async () => {
+    if (!preview || hasErrors) return;
+    if (target === 'new' && !title.trim()) {
+      setErrorMsg('Informe o título do novo teste.');
+      return;
+    }
+    if (target === 'version' && !targetTestId) {
+      setErrorMsg('Selecione o teste que receberá a nova versão.');
+      return;
+    }
+    // The imported content replaces the draft before it is published
+    const draftTest = target === 'version' ? tests.find(t => t.id === targetTestId) : null;
+    if (draftTest?.has_draft_changes && !window.confirm(`"${draftTest.title}" tem alterações não publicadas, que serão descartadas e substituídas pelo arquivo importado. Continuar?`)) {
+      return;
+    }
+
+    setIsImporting(true);
+    setErrorMsg('');
+    try {
+      if (target === 'new') {
+        // New tests arrive as drafts so they can be reviewed before publishing
+        const { data, error } = await supabase
+          .from('tests')
+          .insert([{ title, description, questions: orderBySection(preview.questions, preview.sections), sections: preview.sections, randomization: preview.randomization, time_limit: preview.timeLimit, integrity: preview.integrity, profile_model: preview.profileModel, active: true, has_draft_changes: true }])
+          .select()
+          .single();
+
+        if (error) throw error;
+        onImported(data as unknown as Test);
+      } else {
+        const existing = tests.find(t => t.id === targetTestId) as Test;
+        const content = {
+          title: title.trim() || existing.title,
+          description: description || existing.description,
+          questions: orderBySection(preview.questions, preview.sections),
+          sections: preview.sections,
+          randomization: preview.randomization,
+          time_limit: preview.timeLimit,
+          integrity: preview.integrity
+        };
+
+        const { error } = await supabase
+          .from('tests')
+          .update({ ...content, profile_model: preview.profileModel, has_draft_changes: false })
+          .eq('id', targetTestId);
+
+        if (error) throw error;
+
+        const version = await publishVersion(targetTestId, { ...content, timeLimit: preview.timeLimit, integrity: preview.integrity, profileModel: preview.profileModel });
+        onImported({ ...existing, ...content, profile_model: preview.profileModel, published_version: version.version, has_draft_changes: false });
+      }
+    } catch (err: any) {
+      console.error('Error importing test:', err);
+      setErrorMsg('Erro ao importar: ' + err.message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col animate-fade-in relative">
+        <div className="p-6 border-b border-gray-100">
+          <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+          <h2 className="text-xl font-bold text-gray-800">Importar Teste</h2>
+          <p className="text-sm text-gray-500">Arquivos JSON (formato saveco-test) ou CSV com uma linha por opção.</p>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed border-gray-200 rounded-xl p-6 cursor-pointer hover:border-emerald-300 hover:bg-emerald-50/30 transition-colors">
+            <div className="flex gap-2 text-gray-400">
+              <FileJson size={28} /> <FileSpreadsheet size={28} />
+            </div>
+            <span className="text-sm font-medium text-gray-600">{fileName || 'Selecione um arquivo .json ou .csv'}</span>
+            <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFile} className="hidden" />
+          </label>
+
+          {preview && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Título</label>
+                  <input
+                    type="text"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Destino</label>
+                  <div className="flex gap-2">
+                    <select
+                      value={target}
+                      onChange={(e) => setTarget(e.target.value as 'new' | 'version')}
+                      className="border border-gray-300 rounded-lg p-2 text-sm bg-white focus:ring-2 focus:ring-emerald-500 outline-none"
+                    >
+                      <option value="new">Criar novo teste</option>
+                      <option value="version">Nova versão de...</option>
+                    </select>
+                    {target === 'version' && (
+                      <select
+                        value={targetTestId}
+                        onChange={(e) => setTargetTestId(e.target.value)}
+                        className="flex-1 border border-gray-300 rounded-lg p-2 text-sm bg-white focus:ring-2 focus:ring-emerald-500 outline-none"
+                      >
+                        <option value="">Selecione o teste...</option>
+                        {tests.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+                      </select>
+                    )}
+                  </div>
+                  {target === 'version' && tests.find(t => t.id === targetTestId)?.has_draft_changes && (
+                    <p className="text-xs text-amber-700 mt-1 flex items-center gap-1">
+                      <AlertCircle size={12} /> Este teste tem alterações não publicadas que serão substituídas.
+                    </p>
+                  )}
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Descrição</label>
+                  <textarea
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none h-16 resize-none"
+                  />
+                </div>
+              </div>
+
+              {preview.profileModel && (
+                <p className="text-xs text-gray-500">
+                  Modelo de perfil: <strong>{preview.profileModel.name}</strong> ({preview.profileModel.dimensions.map(d => d.name).join(', ')})
+                </p>
+              )}
+
+              {preview.sections.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  Seções: {preview.sections.map(s => s.title).join(' · ')}
+                </p>
+              )}
+
+              {generalIssues.length > 0 && (
+                <div className="p-3 bg-red-50 text-red-700 border border-red-200 rounded-lg text-sm space-y-1">
+                  {generalIssues.map((issue, idx) => (
+                    <p key={idx} className="flex items-start gap-2">
+                      <AlertCircle size={14} className="mt-0.5 flex-shrink-0" />
+                      {issue.row > 0 && <strong>Linha {issue.row}:</strong>} {issue.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="p-2 text-xs font-semibold text-gray-500 uppercase w-16">Linha</th>
+                      <th className="p-2 text-xs font-semibold text-gray-500 uppercase">Pergunta</th>
+                      <th className="p-2 text-xs font-semibold text-gray-500 uppercase w-28">Tipo</th>
+                      <th className="p-2 text-xs font-semibold text-gray-500 uppercase w-20">Opções</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {preview.questions.map((q, idx) => {
+                      const row = preview.questionRows[idx];
+                      const rowIssues = issuesForRow(row);
+                      return (
+                        <tr key={q.id} className={rowIssues.length > 0 ? 'bg-red-50/60' : ''}>
+                          <td className="p-2 text-xs text-gray-400 align-top">{row}</td>
+                          <td className="p-2 align-top">
+                            <p className="text-gray-800">{q.text || <em className="text-gray-400">(sem texto)</em>}</p>
+                            {q.category && <p className="text-[10px] text-gray-400 uppercase">{q.category}</p>}
+                            {rowIssues.map((issue, i) => (
+                              <p key={i} className="text-xs text-red-600 flex items-center gap-1 mt-1">
+                                <AlertCircle size={12} /> {issue.message}
+                              </p>
+                            ))}
+                          </td>
+                          <td className="p-2 text-xs text-gray-600 align-top">
+                            {q.type === 'choice' ? (q.variation === 'most_least' ? 'Mais/Menos' : q.variation === 'ranking' ? 'Ordenação' : 'Escolha') : q.type === 'scale' ? 'Escala' : q.type === 'text' ? 'Texto' : q.type === 'sjt' ? 'SJT' : q.type}
+                          </td>
+                          <td className="p-2 text-xs text-gray-600 align-top">{q.options?.length || '-'}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <p className={`text-sm flex items-center gap-2 ${hasErrors ? 'text-red-600' : 'text-emerald-600'}`}>
+                {hasErrors ? <AlertCircle size={16} /> : <CheckCircle size={16} />}
+                {hasErrors
+                  ? `${preview.issues.length} problema(s) encontrado(s). Corrija o arquivo e selecione-o novamente.`
+                  : `${preview.questions.length} pergunta(s) prontas para importar.`}
+              </p>
+            </>
+          )}
+
+          {errorMsg && (
+            <div className="p-3 bg-red-50 text-red-700 text-sm rounded-lg flex items-start gap-2">
+              <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+              <span>{errorMsg}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={isImporting}
+            className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium disabled:opacity-50 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!preview || hasErrors || isImporting}
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 flex items-center gap-2 disabled:opacity-50 transition-colors shadow-sm"
+          >
+            {isImporting ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+            {target === 'new' ? 'Criar Teste' : 'Publicar Nova Versão'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
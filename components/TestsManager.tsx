@@ -1,12 +1,43 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Trash2, Save, X, GripVertical, CheckSquare, Circle, FileText, Loader2, AlertCircle, Pencil, Power, GitMerge, Tag, Layers } from 'lucide-react';
-import { Test, Question } from '../types';
+import { Plus, Trash2, Save, X, GripVertical, CheckSquare, FileText, Loader2, AlertCircle, Pencil, Power, GitMerge, Tag, Layers, Upload, ChevronUp, ChevronDown, Download, FileUp, Library, Link2, BookmarkPlus, Eye, Repeat, Scale, ShieldCheck } from 'lucide-react';
+import { Test, Question, WebhookConfig, BankQuestion, Category, ProfileModel, TestSection, Randomization, TimeLimit, IntegritySettings as IntegritySettingsValue } from '../types';
 import { supabase } from '../supabaseClient';
-import { QUESTION_CATEGORIES } from '../constants';
+import { WebhookSettings } from './WebhookSettings';
+import { VersionHistory } from './VersionHistory';
+import { TestImportModal } from './TestImportModal';
+import { QuestionBankPicker } from './QuestionBankPicker';
+import { CandidateView } from './CandidateView';
+import { fetchCategories, applyCategories } from '../services/categories';
+import { ProfileModelSettings } from './ProfileModelSettings';
+import { ScaleSettings } from './ScaleSettings';
+import { SectionSettings } from './SectionSettings';
+import { RandomizationSettings } from './RandomizationSettings';
+import { TimeLimitSettings } from './TimeLimitSettings';
+import { IntegritySettings } from './IntegritySettings';
+import { QuestionConditionSettings } from './QuestionConditionSettings';
+import { TextQuestionSettings } from './TextQuestionSettings';
+import { migrateLegacyProfiles } from '../services/profileModels';
+import { getScale, validateScale } from '../services/scales';
+import { validateTextQuestion } from '../services/rubrics';
+import { EFFECTIVENESS_LEVELS, validateSjtQuestion } from '../services/sjt';
+import { validateCondition } from '../services/conditions';
+import { validateTimeLimit } from '../services/timing';
+import { fetchBankQuestions, bankItemToQuestion, resolveBankReferences, saveBankQuestion, questionToBankItem } from '../services/questionBank';
+import { publishVersion } from '../services/testVersions';
+import { orderBySection } from '../services/candidateFlow';
+import { fetchTestWebhooks, saveTestWebhooks } from '../services/webhooks';
+import { exportTestToJson, exportTestToCsv, downloadFile, exportFileName } from '../services/testTransfer';
 
-const PROFILE_OPTIONS = ['Analítico', 'Organizado', 'Comunicativo', 'Líder'];
 const SCORE_OPTIONS = Array.from({ length: 11 }, (_, i) => i.toString()); // "0" to "10"
 
+const moveItem = <T,>(list: T[], from: number, to: number): T[] => {
+  if (from === to || to < 0 || to >= list.length) return list;
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
 export const TestsManager: React.FC = () => {
   const [tests, setTests] = useState<Test[]>([]);
   const [loading, setLoading] = useState(true);
@@ -16,16 +47,41 @@ export const TestsManager: React.FC = () => {
   const [isCreating, setIsCreating] = useState(false); // Used for both Create and Edit view
   const [isSaving, setIsSaving] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [versionsRefreshKey, setVersionsRefreshKey] = useState(0);
+  const [showImport, setShowImport] = useState(false);
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [showBankPicker, setShowBankPicker] = useState(false);
+  const [previewTest, setPreviewTest] = useState<Test | null>(null);
+
+  // Drag and Drop State
+  const [dragQuestionIdx, setDragQuestionIdx] = useState<number | null>(null);
+  const [dragOverQuestionIdx, setDragOverQuestionIdx] = useState<number | null>(null);
+  const [dragOption, setDragOption] = useState<{ qId: string; idx: number } | null>(null);
 
   // Form State
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [active, setActive] = useState(true);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [webhooks, setWebhooks] = useState<WebhookConfig[]>([]);
+  // Until an edited test's webhooks load, saving leaves them untouched
+  const [webhooksLoaded, setWebhooksLoaded] = useState(true);
+  const [profileModel, setProfileModel] = useState<ProfileModel | null>(null);
+  const [sections, setSections] = useState<TestSection[]>([]);
+  const [randomization, setRandomization] = useState<Randomization | null>(null);
+  const [timeLimit, setTimeLimit] = useState<TimeLimit | null>(null);
+  const [integrity, setIntegrity] = useState<IntegritySettingsValue | null>(null);
 
   // Fetch Tests from DB
   useEffect(() => {
     fetchTests();
+    fetchBankQuestions()
+      .then(setBank)
+      .catch(err => console.warn('Error fetching question bank:', err));
+    fetchCategories()
+      .then(setCategories)
+      .catch(err => console.warn('Error fetching categories:', err));
   }, []);
 
   const fetchTests = async () => {
@@ -56,6 +112,13 @@ export const TestsManager: React.FC = () => {
     setDescription('');
     setActive(true);
     setQuestions([{ id: `q${Date.now()}`, text: '', type: 'scale' }]);
+    setWebhooks([]);
+    setWebhooksLoaded(true);
+    setProfileModel(null);
+    setSections([]);
+    setRandomization(null);
+    setTimeLimit(null);
+    setIntegrity(null);
     setIsCreating(true);
   };
 
@@ -76,8 +139,45 @@ export const TestsManager: React.FC = () => {
         return q;
     });
 
-    setQuestions(sanitizedQuestions);
+    // Profile names stored in option values move to explicit dimensions
+    const migrated = migrateLegacyProfiles(sanitizedQuestions, test.profile_model);
+
+    // Referenced bank questions always show the bank's current content,
+    // and questions saved before categories had ids get linked by name
+    setQuestions(orderBySection(applyCategories(resolveBankReferences(migrated.questions, bank), categories), test.sections));
+    setProfileModel(migrated.profileModel);
+    setSections(test.sections ? JSON.parse(JSON.stringify(test.sections)) : []);
+    setRandomization(test.randomization || null);
+    setTimeLimit(test.time_limit || null);
+    setIntegrity(test.integrity || null);
+    setWebhooks([]);
+    setWebhooksLoaded(false);
     setIsCreating(true);
+
+    fetchTestWebhooks(test.id)
+        .then(loaded => {
+            setWebhooks(loaded);
+            setWebhooksLoaded(true);
+        })
+        .catch(err => {
+            console.error('Error fetching webhooks:', err);
+            setErrorMsg('Erro ao carregar os webhooks deste teste: ' + err.message);
+        });
+  };
+
+  const handleExport = (test: Test, format: 'json' | 'csv') => {
+    if (format === 'json') {
+        downloadFile(exportFileName(test, 'json'), exportTestToJson(test), 'application/json');
+    } else {
+        downloadFile(exportFileName(test, 'csv'), exportTestToCsv(test), 'text/csv;charset=utf-8');
+    }
+  };
+
+  const handleImported = (imported: Test) => {
+    setTests(tests.some(t => t.id === imported.id)
+        ? tests.map(t => t.id === imported.id ? imported : t)
+        : [imported, ...tests]);
+    setShowImport(false);
   };
 
   const handleCancel = () => {
@@ -86,11 +186,57 @@ export const TestsManager: React.FC = () => {
     setErrorMsg('');
   };
 
-  const handleSave = async () => {
+  // Saving only touches the draft; publishing freezes it as a new immutable version.
+  const handleSave = async (publish: boolean) => {
     if (!title) {
         alert('O título do teste é obrigatório.');
         return;
     }
+
+    const invalidWebhook = webhooks.find(w => w.active && (!/^https?:\/\//.test(w.url) || w.events.length === 0));
+    if (invalidWebhook) {
+        alert('Cada webhook ativo precisa de uma URL http(s) válida e de pelo menos um evento.');
+        return;
+    }
+
+    const timeLimitError = validateTimeLimit(timeLimit);
+    if (timeLimitError) {
+        alert(timeLimitError);
+        return;
+    }
+
+    if (sections.some(s => !s.title.trim())) {
+        alert('Todas as seções precisam de um título.');
+        return;
+    }
+
+    const invalidText = questions.findIndex(q => q.type === 'text' && validateTextQuestion(q));
+    if (invalidText >= 0) {
+        alert(`Pergunta ${invalidText + 1}: ${validateTextQuestion(questions[invalidText])}`);
+        return;
+    }
+
+    const invalidSjt = questions.findIndex(q => q.type === 'sjt' && validateSjtQuestion(q));
+    if (invalidSjt >= 0) {
+        alert(`Pergunta ${invalidSjt + 1}: ${validateSjtQuestion(questions[invalidSjt])}`);
+        return;
+    }
+
+    const invalidCondition = questions.findIndex(q => validateCondition(q, questions));
+    if (invalidCondition >= 0) {
+        alert(`Pergunta ${invalidCondition + 1}: ${validateCondition(questions[invalidCondition], questions)}`);
+        return;
+    }
+
+    const invalidScale = questions.findIndex(q => q.type === 'scale' && validateScale(getScale(q)));
+    if (invalidScale >= 0) {
+        alert(`Pergunta ${invalidScale + 1}: ${validateScale(getScale(questions[invalidScale]))}`);
+        return;
+    }
+
+    if (publish && !window.confirm('Publicar uma nova versão? Novas atribuições passarão a usar esta versão; resultados anteriores continuam vinculados à versão respondida.')) {
+        return;
+    }
     
     setIsSaving(true);
     setErrorMsg('');
@@ -99,12 +245,20 @@ export const TestsManager: React.FC = () => {
         const payload = {
             title,
             description,
-            questions, 
-            active
+            questions: orderBySection(applyCategories(resolveBankReferences(questions, bank), categories), sections), 
+            sections,
+            randomization,
+            time_limit: timeLimit,
+            integrity,
+            active,
+            profile_model: profileModel,
+            has_draft_changes: !publish
         };
 
+        let savedTest: Test;
+
         if (editingId) {
-            // UPDATE logic
+            // UPDATE logic (draft)
             const { error } = await supabase
                 .from('tests')
                 .update(payload)
@@ -112,8 +266,8 @@ export const TestsManager: React.FC = () => {
 
             if (error) throw error;
 
-            // Update local state
-            setTests(tests.map(t => t.id === editingId ? { ...t, ...payload, id: editingId } : t));
+            const existing = tests.find(t => t.id === editingId);
+            savedTest = { ...(existing as Test), ...payload, id: editingId };
         } else {
             // INSERT logic
             const { data, error } = await supabase
@@ -123,14 +277,29 @@ export const TestsManager: React.FC = () => {
                 .single();
 
             if (error) throw error;
+            savedTest = data as unknown as Test;
+        }
+
+        if (webhooksLoaded) await saveTestWebhooks(savedTest.id, webhooks);
 
-            if (data) {
-                setTests([data as unknown as Test, ...tests]);
-            }
+        if (publish) {
+            const version = await publishVersion(savedTest.id, { title, description, questions: payload.questions, sections, randomization, timeLimit, integrity, profileModel });
+            savedTest = { ...savedTest, published_version: version.version, has_draft_changes: false };
+        }
+
+        // Update local state
+        setTests(editingId
+            ? tests.map(t => t.id === editingId ? savedTest : t)
+            : [savedTest, ...tests]);
+
+        if (publish) {
+            setIsCreating(false);
+            setEditingId(null);
+        } else {
+            // Stay in the editor so the draft can be compared and published
+            setEditingId(savedTest.id);
+            setVersionsRefreshKey(k => k + 1);
         }
-        
-        setIsCreating(false);
-        setEditingId(null);
 
     } catch (error: any) {
         console.error('Error saving test:', error);
@@ -141,18 +310,105 @@ export const TestsManager: React.FC = () => {
   };
 
   // --- Question Helpers ---
-  const addQuestion = () => {
-    setQuestions([
-      ...questions,
-      { 
+  const insertQuestionAt = (index: number) => {
+    const next = [...questions];
+    next.splice(index, 0, { 
         id: `q${Date.now()}`, 
         text: '', 
         type: 'scale', 
         category: '',
         variation: 'single',
-        options: [{ text: '', value: '' }]
-      }
-    ]);
+        options: [{ text: '', value: '' }],
+        sectionId: (questions[index - 1] || questions[index])?.sectionId
+    });
+    setQuestions(next);
+  };
+
+  const addQuestion = () => insertQuestionAt(questions.length);
+
+  // A question dropped next to another section's question joins that section
+  const moveQuestion = (from: number, to: number) => {
+    if (to < 0 || to >= questions.length) return;
+    const sectionId = questions[to].sectionId;
+    setQuestions(moveItem<Question>(questions, from, to).map((q, idx) => idx === to ? { ...q, sectionId } : q));
+  };
+
+  const assignSection = (id: string, sectionId: string) => {
+    setQuestions(orderBySection(questions.map(q => q.id === id ? { ...q, sectionId: sectionId || undefined } : q), sections));
+  };
+
+  const handleSectionsChange = (nextSections: TestSection[], nextQuestions: Question[]) => {
+    setSections(nextSections);
+    setQuestions(nextQuestions);
+  };
+
+  const handleQuestionDrop = (targetIdx: number) => {
+    if (dragQuestionIdx !== null) moveQuestion(dragQuestionIdx, targetIdx);
+    setDragQuestionIdx(null);
+    setDragOverQuestionIdx(null);
+  };
+
+  // Keyboard alternative to dragging: arrow keys on the handle move the question
+  const handleQuestionHandleKey = (e: React.KeyboardEvent, index: number) => {
+    if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      moveQuestion(index, index - 1);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      moveQuestion(index, index + 1);
+    }
+  };
+
+  const moveOption = (qId: string, from: number, to: number) => {
+    setQuestions(questions.map(q => q.id === qId && q.options ? { ...q, options: moveItem(q.options, from, to) } : q));
+  };
+
+  const handleOptionDrop = (qId: string, targetIdx: number) => {
+    if (dragOption && dragOption.qId === qId) moveOption(qId, dragOption.idx, targetIdx);
+    setDragOption(null);
+  };
+
+  // Snapshot of the editor state as the candidate would receive it
+  const openPreview = () => {
+    if (questions.length === 0) {
+        setErrorMsg('Adicione ao menos uma pergunta para pré-visualizar o teste.');
+        return;
+    }
+    setPreviewTest({
+        id: editingId || 'preview',
+        title,
+        description,
+        questions: applyCategories(resolveBankReferences(questions, bank), categories),
+        sections,
+        randomization,
+        time_limit: timeLimit,
+        integrity,
+        active: true,
+        profile_model: profileModel
+    });
+  };
+
+  const addFromBank = (items: BankQuestion[], link: 'reference' | 'copy') => {
+    const stamp = Date.now();
+    const sectionId = sections[sections.length - 1]?.id;
+    setQuestions([...questions, ...items.map((item, idx) => ({ ...bankItemToQuestion(item, link, `q${stamp}${idx}`), sectionId }))]);
+    setBank([...bank.filter(b => !items.some(item => item.id === b.id)), ...items]);
+    setShowBankPicker(false);
+  };
+
+  const saveQuestionToBank = async (q: Question) => {
+    if (!q.text.trim()) {
+        alert('Preencha o texto da pergunta antes de salvá-la no banco.');
+        return;
+    }
+    try {
+        const item = await saveBankQuestion(questionToBankItem(q));
+        setBank([item, ...bank]);
+        updateQuestion(q.id, { bankItemId: item.id, bankLink: 'reference' });
+    } catch (error: any) {
+        console.error('Error saving to question bank:', error);
+        setErrorMsg('Erro ao salvar no banco de questões: ' + error.message);
+    }
   };
 
   const updateQuestion = (id: string, updates: Partial<Question>) => {
@@ -160,7 +416,11 @@ export const TestsManager: React.FC = () => {
   };
 
   const removeQuestion = (id: string) => {
-    setQuestions(questions.filter(q => q.id !== id));
+    const dependents = questions.filter(q => q.showIf?.questionId === id);
+    if (dependents.length > 0 && !window.confirm(`${dependents.length} pergunta(s) dependem desta e passarão a ser sempre exibidas. Remover?`)) return;
+    setQuestions(questions
+        .filter(q => q.id !== id)
+        .map(q => q.showIf?.questionId === id ? { ...q, showIf: undefined } : q));
   };
 
   const addOption = (qId: string) => {
@@ -197,6 +457,28 @@ export const TestsManager: React.FC = () => {
     }));
   };
   
+  const updateOptionDimension = (qId: string, idx: number, dimensionId: string) => {
+    setQuestions(questions.map(q => {
+      if (q.id === qId && q.options) {
+        const newOpts = [...q.options];
+        newOpts[idx] = { ...newOpts[idx], dimensionId: dimensionId || undefined };
+        return { ...q, options: newOpts };
+      }
+      return q;
+    }));
+  };
+  
+  const updateOptionEffectiveness = (qId: string, idx: number, value: string) => {
+    setQuestions(questions.map(q => {
+      if (q.id === qId && q.options) {
+        const newOpts = [...q.options];
+        newOpts[idx] = { ...newOpts[idx], effectiveness: value ? Number(value) : undefined };
+        return { ...q, options: newOpts };
+      }
+      return q;
+    }));
+  };
+
   const removeOption = (qId: string, idx: number) => {
     setQuestions(questions.map(q => {
         if (q.id === qId && q.options) {
@@ -230,12 +512,28 @@ export const TestsManager: React.FC = () => {
                 Cancelar
                 </button>
                 <button 
-                onClick={handleSave}
+                onClick={openPreview}
                 disabled={isSaving}
-                className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 shadow-sm flex items-center gap-2 disabled:opacity-50"
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                <Eye size={18} />
+                Pré-visualizar
+                </button>
+                <button 
+                onClick={() => handleSave(false)}
+                disabled={isSaving}
+                className="px-4 py-2 border border-emerald-600 text-emerald-700 rounded-lg text-sm font-medium hover:bg-emerald-50 flex items-center gap-2 disabled:opacity-50"
                 >
                 {isSaving ? <Loader2 size={18} className="animate-spin" /> : <Save size={18} />}
-                Salvar Teste
+                Salvar Rascunho
+                </button>
+                <button 
+                onClick={() => handleSave(true)}
+                disabled={isSaving}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 shadow-sm flex items-center gap-2 disabled:opacity-50"
+                >
+                {isSaving ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />}
+                Publicar Versão
                 </button>
             </div>
             </div>
@@ -294,6 +592,20 @@ export const TestsManager: React.FC = () => {
                 </div>
             </div>
 
+            <ProfileModelSettings model={profileModel} questions={questions} onChange={setProfileModel} />
+
+            <SectionSettings sections={sections} questions={questions} onChange={handleSectionsChange} />
+
+            <RandomizationSettings randomization={randomization} hasSections={sections.length > 0} onChange={setRandomization} />
+
+            <TimeLimitSettings timeLimit={timeLimit} onChange={setTimeLimit} />
+
+            <IntegritySettings integrity={integrity} onChange={setIntegrity} />
+
+            <WebhookSettings webhooks={webhooks} onChange={setWebhooks} testId={editingId} testTitle={title} />
+
+            {editingId && <VersionHistory testId={editingId} draftQuestions={questions} refreshKey={versionsRefreshKey} />}
+
             {/* Questions Builder */}
             <div className="space-y-4">
                 <div className="flex justify-between items-center">
@@ -302,7 +614,33 @@ export const TestsManager: React.FC = () => {
                 </div>
 
                 {questions.map((q, index) => (
-                <div key={q.id} className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 group relative animate-fade-in-up">
+                <React.Fragment key={q.id}>
+                {sections.length > 0 && (index === 0 || questions[index - 1].sectionId !== q.sectionId) && (
+                    <div className="flex items-center gap-2 pt-2 text-xs font-bold text-gray-500 uppercase tracking-wider">
+                        <span>{sections.find(s => s.id === q.sectionId)?.title || 'Antes da primeira seção'}</span>
+                        <div className="h-px flex-1 bg-gray-200" />
+                    </div>
+                )}
+                {index > 0 && (
+                    <div className="group/insert flex items-center gap-2 -my-2 py-1">
+                        <div className="h-px flex-1 bg-transparent group-hover/insert:bg-emerald-200 transition-colors" />
+                        <button
+                            type="button"
+                            onClick={() => insertQuestionAt(index)}
+                            className="text-xs text-gray-400 hover:text-emerald-600 focus:text-emerald-600 flex items-center gap-1 px-2 py-0.5 rounded-full hover:bg-emerald-50 opacity-0 group-hover/insert:opacity-100 focus:opacity-100 transition-opacity"
+                        >
+                            <Plus size={12} /> Inserir pergunta aqui
+                        </button>
+                        <div className="h-px flex-1 bg-transparent group-hover/insert:bg-emerald-200 transition-colors" />
+                    </div>
+                )}
+                <div
+                    onDragOver={(e) => { if (dragQuestionIdx !== null) { e.preventDefault(); setDragOverQuestionIdx(index); } }}
+                    onDrop={(e) => { e.preventDefault(); handleQuestionDrop(index); }}
+                    className={`bg-white p-6 rounded-xl shadow-sm border group relative animate-fade-in-up transition-colors
+                        ${dragOverQuestionIdx === index && dragQuestionIdx !== index ? 'border-emerald-400 ring-2 ring-emerald-100' : 'border-gray-200'}
+                        ${dragQuestionIdx === index ? 'opacity-50' : ''}`}
+                >
                     <div className="absolute top-6 right-6">
                     <button 
                         onClick={() => removeQuestion(q.id)}
@@ -314,12 +652,87 @@ export const TestsManager: React.FC = () => {
                     </div>
                     
                     <div className="flex gap-4">
-                    <div className="pt-3 text-gray-400 cursor-move">
-                        <GripVertical size={20} />
+                    <div className="pt-2 flex flex-col items-center gap-1 text-gray-400">
+                        <button
+                            type="button"
+                            onClick={() => moveQuestion(index, index - 1)}
+                            disabled={index === 0}
+                            aria-label={`Mover pergunta ${index + 1} para cima`}
+                            className="hover:text-emerald-600 disabled:opacity-30 disabled:hover:text-gray-400"
+                        >
+                            <ChevronUp size={16} />
+                        </button>
+                        <div
+                            draggable
+                            tabIndex={0}
+                            role="button"
+                            aria-label={`Arrastar pergunta ${index + 1}. Use as setas para cima e para baixo para mover.`}
+                            onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDragQuestionIdx(index); }}
+                            onDragEnd={() => { setDragQuestionIdx(null); setDragOverQuestionIdx(null); }}
+                            onKeyDown={(e) => handleQuestionHandleKey(e, index)}
+                            className="cursor-move rounded hover:text-emerald-600 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                        >
+                            <GripVertical size={20} />
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => moveQuestion(index, index + 1)}
+                            disabled={index === questions.length - 1}
+                            aria-label={`Mover pergunta ${index + 1} para baixo`}
+                            className="hover:text-emerald-600 disabled:opacity-30 disabled:hover:text-gray-400"
+                        >
+                            <ChevronDown size={16} />
+                        </button>
                     </div>
-                    <div className="flex-1 space-y-4">
+                    <fieldset disabled={q.bankLink === 'reference'} className="flex-1 space-y-4 min-w-0">
+                        {/* Bank Link */}
+                        {q.bankItemId ? (
+                            <div className={`flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-xs ${q.bankLink === 'reference' ? 'bg-blue-50 text-blue-800 border border-blue-100' : 'bg-gray-50 text-gray-500 border border-gray-100'}`}>
+                                <span className="flex items-center gap-1.5">
+                                    <Library size={14} />
+                                    {q.bankLink === 'reference'
+                                        ? 'Vinculada ao banco de questões. Edite-a no Banco de Questões.'
+                                        : 'Cópia de uma questão do banco.'}
+                                </span>
+                                {q.bankLink === 'reference' && (
+                                    // Not a <button>: the surrounding fieldset is disabled for referenced questions
+                                    <span
+                                        role="button"
+                                        tabIndex={0}
+                                        onClick={() => updateQuestion(q.id, { bankLink: 'copy' })}
+                                        onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') updateQuestion(q.id, { bankLink: 'copy' }); }}
+                                        className="font-medium underline cursor-pointer flex items-center gap-1"
+                                    >
+                                        <Link2 size={12} /> Desvincular para editar
+                                    </span>
+                                )}
+                            </div>
+                        ) : (q.type === 'scale' || q.type === 'choice') && (
+                            <div className="flex justify-end -mb-2">
+                                <button
+                                    type="button"
+                                    onClick={() => saveQuestionToBank(q)}
+                                    className="text-xs text-gray-400 hover:text-emerald-600 flex items-center gap-1"
+                                >
+                                    <BookmarkPlus size={12} /> Salvar no banco
+                                </button>
+                            </div>
+                        )}
+
                         {/* Question Main Inputs */}
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {q.type === 'sjt' && (
+                        <div className="md:col-span-2">
+                            <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Cenário</label>
+                            <textarea
+                            value={q.scenario || ''}
+                            onChange={(e) => updateQuestion(q.id, { scenario: e.target.value })}
+                            placeholder="Descreva a situação que o candidato deve analisar..."
+                            rows={3}
+                            className="w-full border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                            />
+                        </div>
+                        )}
                         <div className="md:col-span-2">
                             <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Pergunta {index + 1}</label>
                             <input 
@@ -337,13 +750,16 @@ export const TestsManager: React.FC = () => {
                                 <Layers size={12} /> Categoria / Competência
                             </label>
                             <select
-                            value={q.category || ''}
-                            onChange={(e) => updateQuestion(q.id, { category: e.target.value })}
+                            value={q.categoryId || ''}
+                            onChange={(e) => {
+                                const cat = categories.find(c => c.id === e.target.value);
+                                updateQuestion(q.id, { categoryId: cat?.id, category: cat?.name || '' });
+                            }}
                             className="w-full border border-gray-300 rounded-lg p-2 bg-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
                             >
-                                <option value="">Selecione a competência...</option>
-                                {QUESTION_CATEGORIES.map(cat => (
-                                    <option key={cat} value={cat}>{cat}</option>
+                                <option value="">{q.category && !q.categoryId ? `${q.category} (não cadastrada)` : 'Selecione a competência...'}</option>
+                                {categories.filter(cat => cat.active || cat.id === q.categoryId).map(cat => (
+                                    <option key={cat.id} value={cat.id}>{cat.name}{cat.active ? '' : ' (inativa)'}</option>
                                 ))}
                             </select>
                         </div>
@@ -355,14 +771,16 @@ export const TestsManager: React.FC = () => {
                                 <select 
                                 value={q.type}
                                 onChange={(e) => updateQuestion(q.id, { 
-                                    type: e.target.value as 'scale' | 'choice', 
-                                    options: e.target.value === 'choice' ? [{text: '', value: ''}] : undefined,
+                                    type: e.target.value as Question['type'], 
+                                    options: e.target.value === 'choice' || e.target.value === 'sjt' ? [{text: '', value: ''}] : undefined,
                                     variation: 'single' // Reset variation when type changes
                                 })}
                                 className="w-full border border-gray-300 rounded-lg p-2 bg-white focus:ring-2 focus:ring-emerald-500 outline-none"
                                 >
-                                <option value="scale">Escala (1-5)</option>
+                                <option value="scale">Escala</option>
                                 <option value="choice">Múltipla Escolha</option>
+                                <option value="text">Texto Livre</option>
+                                <option value="sjt">Julgamento Situacional (SJT)</option>
                                 </select>
                             </div>
                             
@@ -374,11 +792,12 @@ export const TestsManager: React.FC = () => {
                                     </label>
                                     <select 
                                         value={q.variation || 'single'}
-                                        onChange={(e) => updateQuestion(q.id, { variation: e.target.value as 'single' | 'most_least' })}
+                                        onChange={(e) => updateQuestion(q.id, { variation: e.target.value as Question['variation'] })}
                                         className="w-full border border-emerald-200 rounded-md p-1.5 text-sm bg-white focus:ring-1 focus:ring-emerald-500 outline-none"
                                     >
                                         <option value="single">Única Escolha (Padrão)</option>
                                         <option value="most_least">Mais / Menos (Perfil DISC)</option>
+                                        <option value="ranking">Ordenação (Ranking)</option>
                                     </select>
                                 </div>
                             )}
@@ -388,24 +807,129 @@ export const TestsManager: React.FC = () => {
                         {/* Options Area */}
                         <div className="bg-gray-50 p-4 rounded-lg border border-gray-100 mt-2">
                         {q.type === 'scale' ? (
-                            <div className="flex items-center justify-between text-sm text-gray-500 px-4 py-2">
-                            <span>1. Discordo Totalmente</span>
-                            <div className="h-1 flex-1 mx-4 bg-gray-200 rounded-full"></div>
-                            <span>5. Concordo Totalmente</span>
+                            <div className="space-y-3">
+                            <div className="px-4 py-2">
+                                <ScaleSettings scale={q.scale} onChange={(scale) => updateQuestion(q.id, { scale })} />
+                            </div>
+                            <div className="flex flex-wrap items-center gap-4 px-4 pt-3 border-t border-gray-200">
+                                <label className="flex items-center gap-2 text-sm text-gray-700" title="Para afirmações negativas: discordar totalmente vale a pontuação máxima">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!q.reverse}
+                                        onChange={(e) => updateQuestion(q.id, { reverse: e.target.checked || undefined })}
+                                        className="accent-emerald-600"
+                                    />
+                                    <Repeat size={14} className="text-gray-400" /> Pontuação invertida
+                                </label>
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                    <Scale size={14} className="text-gray-400" /> Peso
+                                    <input
+                                        type="number"
+                                        min={0.5}
+                                        max={5}
+                                        step={0.5}
+                                        value={q.weight ?? 1}
+                                        onChange={(e) => {
+                                            const weight = parseFloat(e.target.value);
+                                            updateQuestion(q.id, { weight: !weight || weight === 1 ? undefined : Math.max(0.5, Math.min(5, weight)) });
+                                        }}
+                                        className="w-16 border border-gray-300 rounded-md p-1 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+                                    />
+                                </label>
+                                {q.reverse && (
+                                    <span className="text-xs text-amber-700">Resposta {getScale(q).min} conta como {getScale(q).max} na pontuação.</span>
+                                )}
+                            </div>
+                            <div className="flex flex-wrap items-center gap-4 px-4 pt-3 border-t border-gray-200">
+                                <label className="flex items-center gap-2 text-sm text-gray-700" title="Itens com a mesma chave medem a mesma coisa; respostas muito diferentes entre eles indicam inconsistência">
+                                    <Link2 size={14} className="text-gray-400" /> Par de consistência
+                                    <input
+                                        type="text"
+                                        value={q.pairKey || ''}
+                                        onChange={(e) => updateQuestion(q.id, { pairKey: e.target.value.trim() || undefined })}
+                                        placeholder="ex: pontualidade"
+                                        className="w-36 border border-gray-300 rounded-md p-1 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+                                    />
+                                </label>
+                                {q.pairKey && (() => {
+                                    const partners = questions.filter(o => o.id !== q.id && o.type === 'scale' && o.pairKey === q.pairKey).length;
+                                    return partners > 0
+                                        ? <span className="text-xs text-gray-500">Pareada com {partners} outra(s) pergunta(s).</span>
+                                        : <span className="text-xs text-amber-700">Nenhuma outra pergunta de escala usa esta chave.</span>;
+                                })()}
+                                <label className="flex items-center gap-2 text-sm text-gray-700" title="Afirmação que quase ninguém pode endossar com sinceridade (ex: 'Nunca me atrasei na vida'); concordar com várias indica respostas idealizadas">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!q.socialDesirability}
+                                        onChange={(e) => updateQuestion(q.id, { socialDesirability: e.target.checked || undefined })}
+                                        className="accent-emerald-600"
+                                    />
+                                    <ShieldCheck size={14} className="text-gray-400" /> Item de desejabilidade social
+                                </label>
+                            </div>
+                            </div>
+                        ) : q.type === 'text' ? (
+                            <div className="px-4 py-2">
+                                <TextQuestionSettings question={q} onChange={(updates) => updateQuestion(q.id, updates)} />
                             </div>
                         ) : (
                             <div className="space-y-3">
                             <div className="flex justify-between items-center">
                                 <label className="block text-xs font-medium text-gray-500 uppercase">Opções de Resposta</label>
-                                {q.variation === 'most_least' && (
+                                {q.type === 'choice' && q.variation === 'most_least' && (
                                     <span className="text-xs text-emerald-600 font-medium">O candidato deverá escolher a opção que MAIS o descreve e a que MENOS o descreve.</span>
                                 )}
+                                {q.type === 'choice' && q.variation === 'ranking' && (
+                                    <span className="text-xs text-emerald-600 font-medium">O candidato deverá ordenar todas as opções, da que MAIS à que MENOS o descreve.</span>
+                                )}
+                                {q.type === 'sjt' && (
+                                    <span className="text-xs text-emerald-600 font-medium">O candidato escolherá a MELHOR e a PIOR ação. Defina o gabarito de eficácia de cada uma.</span>
+                                )}
                             </div>
                             
                             {q.options?.map((opt, optIdx) => (
-                                <div key={optIdx} className="flex items-start gap-2">
-                                <div className="mt-2.5">
-                                    <Circle size={16} className="text-gray-300" />
+                                <div
+                                    key={optIdx}
+                                    onDragOver={(e) => { if (dragOption?.qId === q.id) e.preventDefault(); }}
+                                    onDrop={(e) => { e.preventDefault(); handleOptionDrop(q.id, optIdx); }}
+                                    className={`flex items-start gap-2 rounded-md ${dragOption?.qId === q.id && dragOption.idx === optIdx ? 'opacity-50' : ''}`}
+                                >
+                                <div className="mt-1.5 flex items-center text-gray-300">
+                                    <div
+                                        draggable
+                                        tabIndex={0}
+                                        role="button"
+                                        aria-label={`Arrastar opção ${optIdx + 1}. Use as setas para cima e para baixo para mover.`}
+                                        onDragStart={(e) => { e.stopPropagation(); e.dataTransfer.effectAllowed = 'move'; setDragOption({ qId: q.id, idx: optIdx }); }}
+                                        onDragEnd={() => setDragOption(null)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'ArrowUp') { e.preventDefault(); moveOption(q.id, optIdx, optIdx - 1); }
+                                            if (e.key === 'ArrowDown') { e.preventDefault(); moveOption(q.id, optIdx, optIdx + 1); }
+                                        }}
+                                        className="cursor-move hover:text-emerald-600 rounded focus:outline-none focus:ring-2 focus:ring-emerald-500 p-0.5"
+                                    >
+                                        <GripVertical size={14} />
+                                    </div>
+                                    <div className="flex flex-col">
+                                        <button
+                                            type="button"
+                                            onClick={() => moveOption(q.id, optIdx, optIdx - 1)}
+                                            disabled={optIdx === 0}
+                                            aria-label={`Mover opção ${optIdx + 1} para cima`}
+                                            className="hover:text-emerald-600 disabled:opacity-30"
+                                        >
+                                            <ChevronUp size={12} />
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => moveOption(q.id, optIdx, optIdx + 1)}
+                                            disabled={optIdx === (q.options?.length || 0) - 1}
+                                            aria-label={`Mover opção ${optIdx + 1} para baixo`}
+                                            className="hover:text-emerald-600 disabled:opacity-30"
+                                        >
+                                            <ChevronDown size={12} />
+                                        </button>
+                                    </div>
                                 </div>
                                 
                                 <div className="flex-1 space-y-2 sm:space-y-0 sm:flex sm:gap-2">
@@ -418,8 +942,20 @@ export const TestsManager: React.FC = () => {
                                         className="flex-1 w-full border border-gray-300 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
                                     />
 
-                                    {/* Weight/Category Selector */}
-                                    <div className="relative min-w-[140px]">
+                                    {/* Expert Key (SJT) */}
+                                    {q.type === 'sjt' ? (
+                                    <select
+                                        value={opt.effectiveness ?? ''}
+                                        onChange={(e) => updateOptionEffectiveness(q.id, optIdx, e.target.value)}
+                                        className="min-w-[150px] border border-gray-300 rounded-md py-1.5 px-2 text-xs bg-white text-gray-600 focus:ring-1 focus:ring-emerald-500 outline-none"
+                                    >
+                                        <option value="">Eficácia...</option>
+                                        {EFFECTIVENESS_LEVELS.map(l => <option key={l.value} value={l.value}>{l.value}. {l.label}</option>)}
+                                    </select>
+                                    ) : (
+                                    <>
+                                    {/* Score Selector */}
+                                    <div className="relative min-w-[120px]">
                                         <div className="absolute inset-y-0 left-0 pl-2 flex items-center pointer-events-none">
                                             <Tag size={12} className="text-gray-400" />
                                         </div>
@@ -428,15 +964,32 @@ export const TestsManager: React.FC = () => {
                                             onChange={(e) => updateOptionValue(q.id, optIdx, e.target.value)}
                                             className="w-full border border-gray-300 rounded-md py-1.5 pl-7 pr-2 text-xs bg-white text-gray-600 focus:ring-1 focus:ring-emerald-500 outline-none"
                                         >
-                                            <option value="">Sem Peso/Perfil</option>
-                                            <optgroup label="Perfis Comportamentais">
-                                                {PROFILE_OPTIONS.map(p => <option key={p} value={p}>{p}</option>)}
-                                            </optgroup>
-                                            <optgroup label="Pontuação">
-                                                {SCORE_OPTIONS.map(s => <option key={s} value={s}>Valor: {s}</option>)}
-                                            </optgroup>
+                                            <option value="">Sem Pontuação</option>
+                                            {SCORE_OPTIONS.map(s => <option key={s} value={s}>Valor: {s}</option>)}
                                         </select>
                                     </div>
+
+                                    {/* Profile Dimension Selector */}
+                                    {profileModel && (
+                                    <div className="relative min-w-[140px]">
+                                        <div className="absolute inset-y-0 left-0 pl-2 flex items-center pointer-events-none">
+                                            <span
+                                                className="w-2.5 h-2.5 rounded-full"
+                                                style={{ backgroundColor: profileModel.dimensions.find(d => d.id === opt.dimensionId)?.color || '#d1d5db' }}
+                                            />
+                                        </div>
+                                        <select
+                                            value={opt.dimensionId || ''}
+                                            onChange={(e) => updateOptionDimension(q.id, optIdx, e.target.value)}
+                                            className="w-full border border-gray-300 rounded-md py-1.5 pl-7 pr-2 text-xs bg-white text-gray-600 focus:ring-1 focus:ring-emerald-500 outline-none"
+                                        >
+                                            <option value="">Sem Perfil</option>
+                                            {profileModel.dimensions.map(d => <option key={d.id} value={d.id}>{d.name || 'Sem nome'}</option>)}
+                                        </select>
+                                    </div>
+                                    )}
+                                    </>
+                                    )}
                                 </div>
 
                                 <button 
@@ -456,13 +1009,42 @@ export const TestsManager: React.FC = () => {
                             </div>
                         )}
                         </div>
+                    </fieldset>
                     </div>
+                    {/* Outside the fieldset: referenced bank questions can still be placed and made conditional */}
+                    <div className="mt-4 pl-9 flex flex-wrap items-start justify-between gap-3">
+                        <QuestionConditionSettings
+                            question={q}
+                            questions={questions}
+                            onChange={(showIf) => updateQuestion(q.id, { showIf })}
+                        />
+                        {sections.length > 0 && (
+                            <div className="flex items-center gap-2">
+                                <label className="text-xs font-medium text-gray-500 uppercase">Seção</label>
+                                <select
+                                    value={q.sectionId || ''}
+                                    onChange={(e) => assignSection(q.id, e.target.value)}
+                                    className="border border-gray-300 rounded-md p-1.5 text-sm bg-white focus:ring-1 focus:ring-emerald-500 outline-none"
+                                >
+                                    <option value="">Antes da primeira seção</option>
+                                    {sections.map((s, idx) => <option key={s.id} value={s.id}>{idx + 1}. {s.title || 'Sem título'}</option>)}
+                                </select>
+                            </div>
+                        )}
                     </div>
                 </div>
+                </React.Fragment>
                 ))}
 
                 {/* New Add Button Location */}
-                <div className="flex justify-end pt-4">
+                <div className="flex justify-end gap-2 pt-4">
+                    <button 
+                        onClick={() => setShowBankPicker(true)}
+                        className="text-gray-600 text-sm font-medium hover:text-emerald-700 flex items-center gap-1 hover:bg-emerald-50 px-3 py-2 rounded-lg transition-colors"
+                    >
+                        <Library size={18} />
+                        Adicionar do Banco
+                    </button>
                     <button 
                         onClick={addQuestion}
                         className="text-emerald-600 text-sm font-medium hover:text-emerald-700 flex items-center gap-1 hover:bg-emerald-50 px-3 py-2 rounded-lg transition-colors"
@@ -481,6 +1063,20 @@ export const TestsManager: React.FC = () => {
             </div>
             </div>
         </div>
+
+        {showBankPicker && (
+            <QuestionBankPicker
+                excludeIds={questions.map(q => q.bankItemId).filter((id): id is string => !!id)}
+                onClose={() => setShowBankPicker(false)}
+                onAdd={addFromBank}
+            />
+        )}
+
+        {previewTest && (
+            <div className="fixed inset-0 z-50 overflow-y-auto">
+                <CandidateView candidateId="" previewTest={previewTest} onComplete={() => setPreviewTest(null)} />
+            </div>
+        )}
       </div>
     );
   }
@@ -493,15 +1089,28 @@ export const TestsManager: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-800">Gerenciar Testes</h1>
           <p className="text-gray-500 text-sm">Crie e edite os modelos de avaliação comportamental.</p>
         </div>
-        <button 
-          onClick={handleCreateNew}
-          className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors flex items-center gap-2 shadow-sm"
-        >
-          <Plus size={18} />
-          Novo Teste
-        </button>
+        <div className="flex gap-3">
+          <button 
+            onClick={() => setShowImport(true)}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors flex items-center gap-2"
+          >
+            <FileUp size={18} />
+            Importar
+          </button>
+          <button 
+            onClick={handleCreateNew}
+            className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors flex items-center gap-2 shadow-sm"
+          >
+            <Plus size={18} />
+            Novo Teste
+          </button>
+        </div>
       </div>
 
+      {showImport && (
+        <TestImportModal tests={tests} categories={categories} onClose={() => setShowImport(false)} onImported={handleImported} />
+      )}
+
       {loading ? (
         <div className="flex justify-center items-center h-64">
           <Loader2 className="w-8 h-8 text-emerald-600 animate-spin" />
@@ -537,10 +1146,16 @@ export const TestsManager: React.FC = () => {
                 <div className="p-3 bg-emerald-50 text-emerald-600 rounded-lg">
                     <FileText size={24} />
                 </div>
-                <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium flex items-center gap-1 ${test.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
-                    {test.active ? <CheckSquare size={10} /> : <Power size={10} />}
-                    {test.active ? 'Ativo' : 'Inativo'}
-                </span>
+                <div className="flex flex-col items-end gap-1">
+                    <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium flex items-center gap-1 ${test.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                        {test.active ? <CheckSquare size={10} /> : <Power size={10} />}
+                        {test.active ? 'Ativo' : 'Inativo'}
+                    </span>
+                    <span className="text-[10px] font-medium text-gray-500">
+                        {test.published_version ? `v${test.published_version}` : 'Não publicado'}
+                        {test.has_draft_changes && <span className="ml-1 px-1.5 py-0.5 rounded bg-amber-100 text-amber-700">Rascunho</span>}
+                    </span>
+                </div>
                 </div>
                 
                 <h3 className="text-lg font-bold text-gray-800 mb-2">{test.title}</h3>
@@ -550,6 +1165,21 @@ export const TestsManager: React.FC = () => {
                 <span className="flex items-center gap-1">
                     <CheckSquare size={16} /> {test.questions ? test.questions.length : 0} questões
                 </span>
+                <div className="flex items-center gap-1">
+                <button
+                    onClick={() => handleExport(test, 'json')}
+                    className="text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 px-2 py-1 rounded-md transition-colors flex items-center gap-1 text-xs"
+                    title="Exportar JSON"
+                >
+                    <Download size={12} /> JSON
+                </button>
+                <button
+                    onClick={() => handleExport(test, 'csv')}
+                    className="text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 px-2 py-1 rounded-md transition-colors flex items-center gap-1 text-xs"
+                    title="Exportar CSV"
+                >
+                    <Download size={12} /> CSV
+                </button>
                 <button 
                     onClick={() => handleEdit(test)}
                     className="text-emerald-600 font-medium hover:text-emerald-700 hover:bg-emerald-50 px-3 py-1 rounded-md transition-colors flex items-center gap-1"
@@ -558,6 +1188,7 @@ export const TestsManager: React.FC = () => {
                     Editar
                 </button>
                 </div>
+                </div>
             </div>
             ))}
         </div>
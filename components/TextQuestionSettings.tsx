@@ -0,0 +1,118 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Question, RubricLevel } from '../types';
+import { DEFAULT_RUBRIC, DEFAULT_MAX_LENGTH, getRubric, validateTextQuestion } from '../services/rubrics';
+
+interface TextQuestionSettingsProps {
+  question: Question;
+  onChange: (updates: Partial<Question>) => void;
+}
+
+export const TextQuestionSettings: React.FC<TextQuestionSettingsProps> = ({ question, onChange }) => {
+  const rubric = getRubric(question);
+  const error = validateTextQuestion(question);
+
+  const parseLength = (value: string) => {
+    const n = parseInt(value, 10);
+    return isNaN(n) ? undefined : n;
+  };
+
+  const updateLevel = (idx: number, updates: Partial<RubricLevel>) => {
+    onChange({ rubric: rubric.map((level, i) => i === idx ? { ...level, ...updates } : level) });
+  };
+
+  const addLevel = () => {
+    const nextScore = rubric.length > 0 ? Math.max(...rubric.map(l => l.score)) + 1 : 1;
+    onChange({ rubric: [...rubric, { score: nextScore, label: '' }] });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Mínimo de caracteres</label>
+          <input
+            type="number"
+            min={0}
+            value={question.minLength ?? ''}
+            placeholder="1"
+            onChange={(e) => onChange({ minLength: parseLength(e.target.value) })}
+            className="w-24 border border-gray-300 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Máximo de caracteres</label>
+          <input
+            type="number"
+            min={1}
+            value={question.maxLength ?? ''}
+            placeholder={String(DEFAULT_MAX_LENGTH)}
+            onChange={(e) => onChange({ maxLength: parseLength(e.target.value) })}
+            className="w-24 border border-gray-300 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <label className="block text-xs font-medium text-gray-500 uppercase">Rubrica de Avaliação</label>
+          {question.rubric && (
+            <button
+              type="button"
+              onClick={() => onChange({ rubric: undefined })}
+              className="text-xs text-gray-400 hover:text-emerald-600"
+            >
+              Restaurar padrão
+            </button>
+          )}
+        </div>
+        {rubric.map((level, idx) => (
+          <div key={idx} className="flex gap-2 items-start">
+            <input
+              type="number"
+              value={level.score}
+              onChange={(e) => updateLevel(idx, { score: parseFloat(e.target.value) })}
+              title="Nota"
+              className="w-16 border border-gray-300 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+            />
+            <input
+              type="text"
+              value={level.label}
+              placeholder="Nível"
+              onChange={(e) => updateLevel(idx, { label: e.target.value })}
+              className="w-32 border border-gray-300 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+            />
+            <input
+              type="text"
+              value={level.description || ''}
+              placeholder="O que caracteriza uma resposta neste nível"
+              onChange={(e) => updateLevel(idx, { description: e.target.value || undefined })}
+              className="flex-1 min-w-0 border border-gray-300 rounded-md p-1.5 text-sm focus:ring-1 focus:ring-emerald-500 outline-none"
+            />
+            <button
+              type="button"
+              onClick={() => onChange({ rubric: rubric.filter((_, i) => i !== idx) })}
+              disabled={rubric.length <= 2}
+              className="text-gray-400 hover:text-red-500 p-1.5 disabled:opacity-30"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={addLevel}
+          className="text-sm text-emerald-600 font-medium hover:underline flex items-center gap-1"
+        >
+          <Plus size={14} /> Adicionar nível
+        </button>
+        <p className="text-[10px] text-gray-400">
+          O avaliador escolhe um nível ao analisar a resposta; a nota é normalizada entre o menor e o maior nível.
+          {!question.rubric && ` Usando a rubrica padrão de ${DEFAULT_RUBRIC.length} níveis.`}
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
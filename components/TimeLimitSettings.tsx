@@ -0,0 +1,63 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { TimeLimit } from '../types';
+import { MAX_TIME_LIMIT_MINUTES, validateTimeLimit } from '../services/timing';
+
+interface TimeLimitSettingsProps {
+  timeLimit: TimeLimit | null;
+  onChange: (timeLimit: TimeLimit | null) => void;
+}
+
+export const TimeLimitSettings: React.FC<TimeLimitSettingsProps> = ({ timeLimit, onChange }) => {
+  const error = validateTimeLimit(timeLimit);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex justify-between items-start mb-4 gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <Clock size={18} className="text-emerald-600" /> Tempo Limite
+          </h3>
+          <p className="text-xs text-gray-500">O candidato vê uma contagem regressiva a partir do momento em que abre o teste.</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer flex-shrink-0">
+          <input
+            type="checkbox"
+            checked={!!timeLimit}
+            onChange={(e) => onChange(e.target.checked ? { minutes: 30, onExpiry: 'submit' } : null)}
+            className="accent-emerald-600"
+          />
+          Limitar tempo
+        </label>
+      </div>
+
+      {timeLimit && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Duração (minutos)</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_TIME_LIMIT_MINUTES}
+              value={isNaN(timeLimit.minutes) ? '' : timeLimit.minutes}
+              onChange={(e) => onChange({ ...timeLimit, minutes: parseInt(e.target.value, 10) })}
+              className="w-32 border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Ao esgotar o tempo</label>
+            <select
+              value={timeLimit.onExpiry}
+              onChange={(e) => onChange({ ...timeLimit, onExpiry: e.target.value as TimeLimit['onExpiry'] })}
+              className="w-full border border-gray-300 rounded-lg p-2 bg-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+            >
+              <option value="submit">Enviar automaticamente as respostas dadas</option>
+              <option value="lock">Bloquear a tentativa sem enviar</option>
+            </select>
+          </div>
+          {error && <p className="text-xs text-red-600 md:col-span-2">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
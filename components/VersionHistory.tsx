@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { History, Loader2, GitCompare, Plus, Minus, PenLine, ArrowUpDown } from 'lucide-react';
+import { Question, QuestionChange, TestVersion } from '../types';
+import { fetchVersions, diffQuestions } from '../services/testVersions';
+
+interface VersionHistoryProps {
+  testId: string;
+  draftQuestions: Question[];
+  refreshKey: number;
+}
+
+const DRAFT_KEY = 'draft';
+
+const CHANGE_STYLES: Record<QuestionChange, { label: string; className: string; icon: any }> = {
+  added: { label: 'Adicionada', className: 'bg-emerald-50 border-emerald-200 text-emerald-800', icon: Plus },
+  removed: { label: 'Removida', className: 'bg-red-50 border-red-200 text-red-800', icon: Minus },
+  changed: { label: 'Alterada', className: 'bg-amber-50 border-amber-200 text-amber-800', icon: PenLine },
+  moved: { label: 'Reordenada', className: 'bg-blue-50 border-blue-200 text-blue-800', icon: ArrowUpDown }
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  text: 'texto',
+  category: 'categoria',
+  type: 'tipo',
+  variation: 'variação',
+  options: 'opções',
+  scale: 'escala',
+  reverse: 'inversão',
+  weight: 'peso',
+  scenario: 'cenário',
+  minLength: 'tamanho mínimo',
+  maxLength: 'tamanho máximo',
+  rubric: 'rubrica',
+  sectionId: 'seção',
+  showIf: 'condição de exibição',
+  pairKey: 'par de consistência',
+  socialDesirability: 'desejabilidade social'
+};
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ testId, draftQuestions, refreshKey }) => {
+  const [versions, setVersions] = useState<TestVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromKey, setFromKey] = useState('');
+  const [toKey, setToKey] = useState(DRAFT_KEY);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const data = await fetchVersions(testId);
+        setVersions(data);
+        setFromKey(data.length > 0 ? String(data[0].version) : '');
+        setToKey(DRAFT_KEY);
+      } catch (err) {
+        console.error('Error fetching versions:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [testId, refreshKey]);
+
+  const questionsFor = (key: string): Question[] => {
+    if (key === DRAFT_KEY) return draftQuestions;
+    return versions.find(v => String(v.version) === key)?.questions || [];
+  };
+
+  const diffs = fromKey && toKey && fromKey !== toKey ? diffQuestions(questionsFor(fromKey), questionsFor(toKey)) : [];
+
+  const renderSelect = (value: string, onChange: (v: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="border border-gray-300 rounded-md p-1.5 text-sm bg-white focus:ring-1 focus:ring-emerald-500 outline-none"
+    >
+      <option value={DRAFT_KEY}>Rascunho atual</option>
+      {versions.map(v => (
+        <option key={v.version} value={String(v.version)}>
+          v{v.version} – {new Date(v.publishedAt).toLocaleDateString('pt-BR')}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2 mb-1">
+        <History size={18} className="text-emerald-600" /> Versões Publicadas
+      </h3>
+      <p className="text-xs text-gray-500 mb-4">Versões publicadas são imutáveis. Os resultados são sempre exibidos na versão respondida pelo candidato.</p>
+
+      {loading ? (
+        <div className="flex justify-center py-4"><Loader2 size={20} className="animate-spin text-emerald-600" /></div>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4 bg-gray-50 rounded-lg border border-dashed border-gray-200">
+          Este teste ainda não foi publicado.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {versions.map(v => (
+              <span key={v.version} className="px-2.5 py-1 rounded-md bg-gray-100 text-xs text-gray-600">
+                <strong>v{v.version}</strong> · {v.questions.length} questões · {new Date(v.publishedAt).toLocaleString('pt-BR')}
+              </span>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2 text-sm text-gray-600 mb-3">
+            <GitCompare size={16} className="text-gray-400" />
+            Comparar {renderSelect(fromKey, setFromKey)} com {renderSelect(toKey, setToKey)}
+          </div>
+
+          {fromKey === toKey ? (
+            <p className="text-xs text-gray-400">Selecione duas versões diferentes.</p>
+          ) : diffs.length === 0 ? (
+            <p className="text-xs text-gray-400">Nenhuma diferença entre as versões selecionadas.</p>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {diffs.map(d => {
+                const style = CHANGE_STYLES[d.change];
+                const Icon = style.icon;
+                return (
+                  <div key={`${d.change}-${d.questionId}`} className={`border rounded-lg p-3 text-sm ${style.className}`}>
+                    <div className="flex items-center gap-2 font-semibold text-xs uppercase mb-1">
+                      <Icon size={12} /> {style.label}
+                      {d.fields.length > 0 && <span className="normal-case font-normal">({d.fields.map(f => FIELD_LABELS[f] || f).join(', ')})</span>}
+                    </div>
+                    {d.change === 'changed' && d.fields.includes('text') ? (
+                      <>
+                        <p className="line-through opacity-70">{d.before?.text}</p>
+                        <p>{d.after?.text}</p>
+                      </>
+                    ) : (
+                      <p>{(d.after || d.before)?.text || '(sem texto)'}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Webhook, KeyRound, Send, History, Loader2, CheckCircle, XCircle } from 'lucide-react';
+import { OutboxEntry, WebhookConfig, WebhookEvent } from '../types';
+import { WEBHOOK_EVENT_LABELS, generateWebhookSecret, buildWebhookPayload, sendWebhook, WebhookResponse } from '../services/webhooks';
+import { fetchWebhookDeliveries } from '../services/submissionOutbox';
+
+interface WebhookSettingsProps {
+  webhooks: WebhookConfig[];
+  onChange: (webhooks: WebhookConfig[]) => void;
+  testId?: string | null;
+  testTitle: string;
+}
+
+const ALL_EVENTS: WebhookEvent[] = ['completed', 'started', 'expired'];
+
+export const WebhookSettings: React.FC<WebhookSettingsProps> = ({ webhooks, onChange, testId, testTitle }) => {
+  const [pingResults, setPingResults] = useState<Record<string, WebhookResponse | 'loading'>>({});
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [logEntries, setLogEntries] = useState<OutboxEntry[]>([]);
+  const [logLoading, setLogLoading] = useState(false);
+
+  const addWebhook = () => {
+    onChange([
+      ...webhooks,
+      { id: `wh${Date.now()}`, url: '', events: ['completed'], secret: generateWebhookSecret(), payloadVersion: 2, active: true }
+    ]);
+  };
+
+  const updateWebhook = (id: string, updates: Partial<WebhookConfig>) => {
+    onChange(webhooks.map(w => w.id === id ? { ...w, ...updates } : w));
+  };
+
+  const removeWebhook = (id: string) => {
+    onChange(webhooks.filter(w => w.id !== id));
+  };
+
+  const toggleEvent = (webhook: WebhookConfig, event: WebhookEvent) => {
+    const events = webhook.events.includes(event)
+      ? webhook.events.filter(e => e !== event)
+      : [...webhook.events, event];
+    updateWebhook(webhook.id, { events });
+  };
+
+  // Sends a sample 'completed' payload without touching the outbox
+  const pingWebhook = async (webhook: WebhookConfig) => {
+    setPingResults(prev => ({ ...prev, [webhook.id]: 'loading' }));
+    const payload = buildWebhookPayload(webhook, 'completed', {
+      test_id: testId || 'preview',
+      test_title: testTitle,
+      candidate_id: 'test-candidate',
+      candidate_email: 'teste@saveco.com.br',
+      body: [],
+      is_test_delivery: true
+    });
+    const response = await sendWebhook(webhook.url, 'completed', payload, webhook.secret);
+    setPingResults(prev => ({ ...prev, [webhook.id]: response }));
+  };
+
+  const toggleLog = async (webhookId: string) => {
+    if (openLogId === webhookId) {
+      setOpenLogId(null);
+      return;
+    }
+    setOpenLogId(webhookId);
+    setLogLoading(true);
+    try {
+      setLogEntries(await fetchWebhookDeliveries(webhookId));
+    } catch (err) {
+      console.error('Error fetching webhook deliveries:', err);
+      setLogEntries([]);
+    } finally {
+      setLogLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <Webhook size={18} className="text-emerald-600" /> Webhooks
+          </h3>
+          <p className="text-xs text-gray-500">Integrações chamadas quando candidatos iniciam, concluem ou perdem o prazo deste teste.</p>
+        </div>
+        <button
+          type="button"
+          onClick={addWebhook}
+          className="text-emerald-600 text-sm font-medium hover:text-emerald-700 flex items-center gap-1 hover:bg-emerald-50 px-3 py-2 rounded-lg transition-colors"
+        >
+          <Plus size={16} /> Adicionar Webhook
+        </button>
+      </div>
+
+      {webhooks.length === 0 && (
+        <p className="text-sm text-gray-400 text-center py-4 bg-gray-50 rounded-lg border border-dashed border-gray-200">
+          Nenhum webhook configurado. Os resultados ficam salvos apenas na plataforma.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {webhooks.map(w => {
+          const ping = pingResults[w.id];
+          return (
+            <div key={w.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="flex gap-2 items-center">
+                <input
+                  type="url"
+                  value={w.url}
+                  onChange={(e) => updateWebhook(w.id, { url: e.target.value })}
+                  placeholder="https://exemplo.com/webhook"
+                  className="flex-1 border border-gray-300 rounded-md p-2 text-sm font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={() => updateWebhook(w.id, { active: !w.active })}
+                  className={`px-2.5 py-1 rounded-full text-xs font-bold uppercase ${w.active ? 'bg-emerald-100 text-emerald-700' : 'bg-gray-100 text-gray-500'}`}
+                >
+                  {w.active ? 'Ativo' : 'Inativo'}
+                </button>
+                <button type="button" onClick={() => removeWebhook(w.id)} className="text-gray-400 hover:text-red-500" title="Remover webhook">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Eventos</label>
+                  <div className="space-y-1">
+                    {ALL_EVENTS.map(event => (
+                      <label key={event} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={w.events.includes(event)}
+                          onChange={() => toggleEvent(w, event)}
+                          className="accent-emerald-600"
+                        />
+                        {WEBHOOK_EVENT_LABELS[event]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 uppercase mb-1 flex items-center gap-1">
+                    <KeyRound size={12} /> Segredo HMAC
+                  </label>
+                  <div className="flex gap-1">
+                    <input
+                      type="text"
+                      value={w.secret || ''}
+                      onChange={(e) => updateWebhook(w.id, { secret: e.target.value })}
+                      placeholder="Sem assinatura"
+                      className="flex-1 min-w-0 border border-gray-300 rounded-md p-1.5 text-xs font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => updateWebhook(w.id, { secret: generateWebhookSecret() })}
+                      className="text-xs text-emerald-600 font-medium hover:underline px-1"
+                    >
+                      Gerar
+                    </button>
+                  </div>
+                  <p className="text-[10px] text-gray-400 mt-1">Enviado em X-SaveCo-Signature (sha256).</p>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Versão do Payload</label>
+                  <select
+                    value={w.payloadVersion}
+                    onChange={(e) => updateWebhook(w.id, { payloadVersion: Number(e.target.value) as 1 | 2 })}
+                    className="w-full border border-gray-300 rounded-md p-1.5 text-sm bg-white focus:ring-1 focus:ring-emerald-500 outline-none"
+                  >
+                    <option value={1}>v1 – Legado (n8n)</option>
+                    <option value={2}>v2 – Envelope com evento</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-4 pt-2 border-t border-gray-100">
+                <button
+                  type="button"
+                  onClick={() => pingWebhook(w)}
+                  disabled={!w.url || ping === 'loading'}
+                  className="text-xs text-emerald-600 font-medium hover:underline flex items-center gap-1 disabled:opacity-50"
+                >
+                  {ping === 'loading' ? <Loader2 size={12} className="animate-spin" /> : <Send size={12} />} Enviar teste
+                </button>
+                <button
+                  type="button"
+                  onClick={() => toggleLog(w.id)}
+                  className="text-xs text-gray-600 font-medium hover:underline flex items-center gap-1"
+                >
+                  <History size={12} /> {openLogId === w.id ? 'Ocultar entregas' : 'Ver entregas'}
+                </button>
+                {ping && ping !== 'loading' && (
+                  <span className={`text-xs flex items-center gap-1 ${ping.ok ? 'text-emerald-600' : 'text-red-600'}`}>
+                    {ping.ok ? <CheckCircle size={12} /> : <XCircle size={12} />}
+                    {ping.status ?? 'Sem resposta'} {ping.error && !ping.ok ? `– ${ping.error}` : ''}
+                  </span>
+                )}
+              </div>
+
+              {openLogId === w.id && (
+                <div className="bg-gray-50 rounded-lg border border-gray-100 max-h-64 overflow-y-auto">
+                  {logLoading ? (
+                    <div className="flex justify-center p-4"><Loader2 size={18} className="animate-spin text-emerald-600" /></div>
+                  ) : logEntries.length === 0 ? (
+                    <p className="text-xs text-gray-400 text-center p-4">Nenhuma entrega registrada para este webhook.</p>
+                  ) : (
+                    <table className="w-full text-left text-xs">
+                      <thead>
+                        <tr className="text-gray-500 uppercase">
+                          <th className="p-2">Data</th>
+                          <th className="p-2">Evento</th>
+                          <th className="p-2">Status</th>
+                          <th className="p-2">Resposta</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {logEntries.map(entry => (
+                          <tr key={entry.id} className="align-top">
+                            <td className="p-2 whitespace-nowrap text-gray-500">{new Date(entry.createdAt).toLocaleString('pt-BR')}</td>
+                            <td className="p-2 text-gray-600">{WEBHOOK_EVENT_LABELS[entry.event]}</td>
+                            <td className="p-2">
+                              <span className={`font-mono font-bold ${entry.status === 'delivered' ? 'text-emerald-600' : 'text-red-600'}`}>
+                                {entry.lastStatusCode ?? '—'}
+                              </span>
+                              <span className="text-gray-400 ml-1">({entry.attempts}x)</span>
+                            </td>
+                            <td className="p-2 font-mono text-gray-600 break-all">
+                              {entry.lastResponseBody || entry.lastError || '-'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,12 +0,0 @@
-import { Candidate, Test } from './types';
-
-export const QUESTION_CATEGORIES = [
-  'Tomada de Decisão e Pensamento Crítico',
-  'Organização, Atenção a Detalhes e Disciplina',
-  'Comunicação e Relacionamento Interpessoal',
-  'Resiliência, Gestão de Pressão e Adaptação',
-  'Motivadores e Valores no Trabalho',
-  'Trabalho em Equipe e Colaboração',
-  'Liderança e Gestão',
-  'Persistência, Entrega e Orientação a Resultados'
-];
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CandidateStatus, TestAssignment } from '../types';
+import { batteryStatus, currentAssignment, expirableAssignments, isOverdue } from './assignments';
+
+// Only the pure helpers are exercised; the client is never called
+vi.mock('../supabaseClient', () => ({ supabase: {} }));
+
+const now = new Date('2026-10-19T12:00:00.000Z').getTime();
+const past = '2026-10-18T12:00:00.000Z';
+const future = '2026-10-20T12:00:00.000Z';
+
+const assignment = (id: string, status: CandidateStatus, extra: Partial<TestAssignment> = {}): TestAssignment => ({
+  id,
+  candidateId: 'c1',
+  testId: `t-${id}`,
+  testVersion: 1,
+  position: 0,
+  status,
+  invitedAt: '2026-10-01T12:00:00.000Z',
+  dueAt: null,
+  expiresAt: null,
+  startedAt: null,
+  completedAt: null,
+  ...extra
+});
+
+describe('expirableAssignments', () => {
+  it('picks unfinished assignments past their expiry date', () => {
+    const battery = [
+      assignment('a', 'pending', { expiresAt: past }),
+      assignment('b', 'in-progress', { expiresAt: past }),
+      assignment('c', 'completed', { expiresAt: past }),
+      assignment('d', 'pending', { expiresAt: future }),
+      assignment('e', 'pending')
+    ];
+    expect(expirableAssignments(battery, new Set(), now).map(a => a.id)).toEqual(['a', 'b']);
+  });
+
+  it('leaves out assignments whose result is stored but not yet delivered', () => {
+    const battery = [assignment('a', 'in-progress', { expiresAt: past }), assignment('b', 'pending', { expiresAt: past })];
+    expect(expirableAssignments(battery, new Set(['a']), now).map(a => a.id)).toEqual(['b']);
+  });
+});
+
+describe('batteryStatus', () => {
+  const status = (...statuses: CandidateStatus[]) => batteryStatus(statuses.map((s, idx) => assignment(`a${idx}`, s)));
+
+  it('is pending for an empty or untouched battery and completed once every test is', () => {
+    expect(status()).toBe('pending');
+    expect(status('pending', 'pending')).toBe('pending');
+    expect(status('completed', 'completed')).toBe('completed');
+  });
+
+  it('is in progress while a test is started or others remain after a finished one', () => {
+    expect(status('in-progress', 'pending')).toBe('in-progress');
+    expect(status('completed', 'pending')).toBe('in-progress');
+    expect(status('expired', 'in-progress')).toBe('in-progress');
+  });
+
+  it('is expired once only expired and completed tests remain', () => {
+    expect(status('completed', 'expired')).toBe('expired');
+    expect(status('expired', 'expired')).toBe('expired');
+    expect(status('expired', 'pending')).toBe('pending');
+  });
+});
+
+describe('currentAssignment', () => {
+  it('is the first unfinished test in battery order', () => {
+    const battery = [assignment('a', 'completed'), assignment('b', 'pending'), assignment('c', 'in-progress')];
+    expect(currentAssignment(battery)?.id).toBe('b');
+  });
+
+  it('skips expired tests, by status or by date', () => {
+    const battery = [assignment('a', 'expired'), assignment('b', 'pending', { expiresAt: past }), assignment('c', 'pending', { expiresAt: future })];
+    expect(currentAssignment(battery)?.id).toBe('c');
+    expect(currentAssignment([assignment('a', 'completed'), assignment('b', 'expired')])).toBeNull();
+  });
+});
+
+describe('isOverdue', () => {
+  const due = '2026-10-19T12:00:00.000Z';
+
+  it('starts right after the due date', () => {
+    expect(isOverdue(assignment('a', 'pending', { dueAt: due }), now)).toBe(false);
+    expect(isOverdue(assignment('a', 'pending', { dueAt: due }), now + 1)).toBe(true);
+  });
+
+  it('does not apply to finished, expired or undated tests', () => {
+    expect(isOverdue(assignment('a', 'completed', { dueAt: past }), now)).toBe(false);
+    expect(isOverdue(assignment('a', 'in-progress', { dueAt: past, expiresAt: past }), now)).toBe(false);
+    expect(isOverdue(assignment('a', 'pending'), now)).toBe(false);
+    expect(isOverdue(null, now)).toBe(false);
+  });
+});
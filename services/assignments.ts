@@ -0,0 +1,285 @@
+import { supabase } from '../supabaseClient';
+import { CandidateStatus, TestAssignment } from '../types';
+import { requestDelivery } from './submissionOutbox';
+
+// A candidate's battery: an ordered list of assigned tests, each with its own
+// status and deadlines. The profile's status mirrors the whole battery and is
+// recomputed whenever an assignment changes. An assignment past 'expiresAt'
+// moves to 'expired' (here when assignments are loaded, and by a scheduled
+// database job).
+
+export const CANDIDATE_STATUS_LABELS: Record<CandidateStatus, string> = {
+  pending: 'Pendente',
+  'in-progress': 'Em Progresso',
+  completed: 'Concluído',
+  expired: 'Expirado'
+};
+
+export const DEFAULT_EXTENSION_DAYS = 7;
+
+const mapAssignmentRow = (row: any): TestAssignment => ({
+  id: row.id,
+  candidateId: row.candidate_id,
+  testId: row.test_id,
+  testVersion: row.test_version ?? null,
+  position: row.position ?? 0,
+  status: row.status || 'pending',
+  invitedAt: row.invited_at,
+  dueAt: row.due_at || null,
+  expiresAt: row.expires_at || null,
+  startedAt: row.started_at || null,
+  completedAt: row.completed_at || null
+});
+
+/** Every assignment, or one candidate's battery, in battery order. */
+export const fetchAssignments = async (candidateId?: string): Promise<TestAssignment[]> => {
+  let query = supabase.from('test_assignments').select('*');
+  if (candidateId) query = query.eq('candidate_id', candidateId);
+
+  const { data, error } = await query.order('position', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(mapAssignmentRow);
+};
+
+export const fetchAssignment = async (candidateId: string, testId: string): Promise<TestAssignment | null> => {
+  const { data, error } = await supabase
+    .from('test_assignments')
+    .select('*')
+    .eq('candidate_id', candidateId)
+    .eq('test_id', testId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? mapAssignmentRow(data) : null;
+};
+
+export const isUnfinished = (status: CandidateStatus) => status === 'pending' || status === 'in-progress';
+
+export const hasExpired = (assignment?: TestAssignment | null, now = Date.now()) =>
+  !!assignment?.expiresAt && new Date(assignment.expiresAt).getTime() < now;
+
+/** Past the due date, not finished and not yet expired. */
+export const isOverdue = (assignment?: TestAssignment | null, now = Date.now()) =>
+  !!assignment && isUnfinished(assignment.status) && !!assignment.dueAt && new Date(assignment.dueAt).getTime() < now && !hasExpired(assignment, now);
+
+export const hasOverdue = (assignments: TestAssignment[] = [], now = Date.now()) =>
+  assignments.some(a => isOverdue(a, now));
+
+/** The unfinished assignment due first, if any has a due date. */
+export const nextDeadline = (assignments: TestAssignment[] = []): TestAssignment | null =>
+  assignments
+    .filter(a => isUnfinished(a.status) && a.dueAt)
+    .sort((a, b) => new Date(a.dueAt!).getTime() - new Date(b.dueAt!).getTime())[0] || null;
+
+/**
+ * Status of the whole battery: completed when every test is, in progress once
+ * any test was started or finished while others remain, expired when only
+ * expired tests remain. Mirrors public.battery_status.
+ */
+export const batteryStatus = (assignments: TestAssignment[]): CandidateStatus => {
+  if (assignments.length === 0) return 'pending';
+  const some = (status: CandidateStatus) => assignments.some(a => a.status === status);
+  if (assignments.every(a => a.status === 'completed')) return 'completed';
+  if (some('in-progress') || (some('completed') && some('pending'))) return 'in-progress';
+  if (some('pending')) return 'pending';
+  return 'expired';
+};
+
+/**
+ * The test the candidate can take now: the first one in battery order that is
+ * neither completed nor expired. Later tests wait until it is finished.
+ */
+export const currentAssignment = (assignments: TestAssignment[]): TestAssignment | null =>
+  assignments.find(a => isUnfinished(a.status) && !hasExpired(a)) || null;
+
+/** Writes the battery status to the profile, so lists and reports need not load every assignment. */
+export const syncCandidateStatus = async (candidateId: string, assignments?: TestAssignment[]): Promise<CandidateStatus> => {
+  const battery = assignments || await fetchAssignments(candidateId);
+  const status = batteryStatus(battery);
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({
+      status,
+      ...(status === 'completed' ? { completed_date: new Date().toISOString().split('T')[0] } : {})
+    })
+    .eq('id', candidateId);
+
+  if (error) throw error;
+  return status;
+};
+
+/**
+ * Opens the signed-in candidate's attempt at an assignment: it moves to
+ * 'in-progress' and the database records its start time (where the time limit
+ * counts from) and version on the first call only. 'firstStart' tells whether
+ * this call started it.
+ */
+export const startAssignment = async (assignmentId: string): Promise<{ startedAt: string; testVersion: number | null; firstStart: boolean }> => {
+  const { data, error } = await supabase.rpc('start_assignment', { assignment_id: assignmentId });
+  if (error) throw error;
+  return { startedAt: data.started_at, testVersion: data.test_version ?? null, firstStart: !!data.first_start };
+};
+
+/**
+ * Unfinished assignments past their expiry date. One whose result is already
+ * stored only waits for its delivery and is left out. Mirrors
+ * public.expire_overdue_assignments.
+ */
+export const expirableAssignments = (assignments: TestAssignment[], submittedIds: Set<string>, now = Date.now()) =>
+  assignments.filter(a => isUnfinished(a.status) && hasExpired(a, now) && !submittedIds.has(a.id));
+
+const fetchSubmittedIds = async (assignmentIds: string[]): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('result_test')
+    .select('assignment_id')
+    .in('assignment_id', assignmentIds);
+
+  if (error) throw error;
+  return new Set((data || []).map(row => row.assignment_id));
+};
+
+/**
+ * Moves unfinished assignments past their expiry date to 'expired' and
+ * returns the list with the new statuses; the affected candidates' profiles
+ * follow and the 'expired' webhooks are sent. A failed update leaves the list
+ * as it was.
+ */
+export const expireAssignments = async (assignments: TestAssignment[]): Promise<TestAssignment[]> => {
+  const overdue = expirableAssignments(assignments, new Set());
+  if (overdue.length === 0) return assignments;
+
+  let submittedIds: Set<string>;
+  try {
+    submittedIds = await fetchSubmittedIds(overdue.map(a => a.id));
+  } catch (err) {
+    console.warn('Could not check stored results:', err);
+    return assignments;
+  }
+  const expiredIds = expirableAssignments(overdue, submittedIds).map(a => a.id);
+  if (expiredIds.length === 0) return assignments;
+
+  const { error } = await supabase
+    .from('test_assignments')
+    .update({ status: 'expired', updated_at: new Date().toISOString() })
+    .in('id', expiredIds)
+    .in('status', ['pending', 'in-progress']);
+
+  if (error) {
+    console.warn('Could not expire assignments:', error);
+    return assignments;
+  }
+
+  const updated = assignments.map(a => expiredIds.includes(a.id) ? { ...a, status: 'expired' as CandidateStatus } : a);
+  const candidateIds = Array.from(new Set(updated.filter(a => expiredIds.includes(a.id)).map(a => a.candidateId)));
+  await Promise.all(candidateIds.map(id =>
+    syncCandidateStatus(id, updated.filter(a => a.candidateId === id))
+      .catch(err => console.warn('Could not update candidate status:', err))
+  ));
+  expiredIds.forEach(id =>
+    requestDelivery('expired', id).catch(err => console.error("Error delivering 'expired' webhooks:", err))
+  );
+  return updated;
+};
+
+/** Expires what is due in each candidate's battery and returns the candidates with their new status. */
+export const applyExpiry = async <T extends { id: string; status: CandidateStatus; assignments?: TestAssignment[] }>(candidates: T[]): Promise<T[]> => {
+  const all = candidates.flatMap(c => c.assignments || []);
+  const updated = await expireAssignments(all);
+  if (updated === all) return candidates;
+
+  return candidates.map(c => {
+    const assignments = updated.filter(a => a.candidateId === c.id);
+    return assignments.length > 0 ? { ...c, assignments, status: batteryStatus(assignments) } : c;
+  });
+};
+
+export interface BatteryItem {
+  testId: string;
+  testVersion: number | null;
+  dueAt: string | null;
+  expiresAt: string | null;
+}
+
+/**
+ * Replaces the candidate's battery with the given tests, in order. Tests kept
+ * from the previous battery keep their status and invitation date; removed
+ * ones are deleted (their results stay in result_test).
+ */
+export const saveBattery = async (candidateId: string, items: BatteryItem[]): Promise<TestAssignment[]> => {
+  const { error: deleteError } = await supabase
+    .from('test_assignments')
+    .delete()
+    .eq('candidate_id', candidateId)
+    .not('test_id', 'in', `(${items.map(i => i.testId).join(',') || '00000000-0000-0000-0000-000000000000'})`);
+
+  if (deleteError) throw deleteError;
+  if (items.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('test_assignments')
+    .upsert(items.map((item, position) => ({
+      candidate_id: candidateId,
+      test_id: item.testId,
+      test_version: item.testVersion,
+      position,
+      due_at: item.dueAt,
+      expires_at: item.expiresAt,
+      updated_at: new Date().toISOString()
+    })), { onConflict: 'candidate_id,test_id' })
+    .select();
+
+  if (error) throw error;
+  return (data || []).map(mapAssignmentRow).sort((a, b) => a.position - b.position);
+};
+
+export const validateDeadlines = (dueAt: string | null, expiresAt: string | null): string | null => {
+  if (dueAt && expiresAt && new Date(expiresAt) < new Date(dueAt)) {
+    return 'A data de expiração não pode ser anterior ao prazo de entrega.';
+  }
+  return null;
+};
+
+/**
+ * New deadlines for one test of the battery. An expired test goes back to
+ * 'pending'; saved progress and the start time are kept, so a resumed attempt
+ * continues where it stopped and is not announced as started again. Returns
+ * the updated assignment.
+ */
+export const extendAssignment = async (
+  assignment: TestAssignment,
+  dueAt: string | null,
+  expiresAt: string | null
+): Promise<TestAssignment> => {
+  const { data, error } = await supabase
+    .from('test_assignments')
+    .update({
+      due_at: dueAt,
+      expires_at: expiresAt,
+      ...(assignment.status === 'expired' ? { status: 'pending' } : {}),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', assignment.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return mapAssignmentRow(data);
+};
+
+// Dates are picked per day: deadlines end at the last second of the chosen local day
+export const toDateInput = (iso: string | null) => {
+  if (!iso) return '';
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const fromDateInput = (value: string) => value ? new Date(`${value}T23:59:59`).toISOString() : null;
+
+export const addDays = (iso: string | null, days: number) => {
+  const base = iso && new Date(iso).getTime() > Date.now() ? new Date(iso) : new Date();
+  base.setDate(base.getDate() + days);
+  return base.toISOString();
+};
+
+export const formatDeadline = (iso: string) => new Date(iso).toLocaleDateString('pt-BR');
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { Question, TestSection } from '../types';
+import { buildFlow, orderBySection, stepOfQuestion } from './candidateFlow';
+import { applyRandomization } from './randomization';
+
+const sections: TestSection[] = [
+  { id: 's1', title: 'Parte 1', intro: '', questionsPerPage: 2 },
+  { id: 's2', title: 'Parte 2', intro: '' }
+];
+const question = (id: string, sectionId?: string): Question =>
+  ({ id, text: '', type: 'scale', ...(sectionId ? { sectionId } : {}) });
+
+const questions = [question('b1', 's2'), question('a1', 's1'), question('free'), question('a2', 's1'), question('b2', 's2'), question('a3', 's1')];
+const ids = (items: { id: string }[]) => items.map(i => i.id);
+const outline = (steps: ReturnType<typeof buildFlow>) =>
+  steps.map(step => step.kind === 'intro' ? `intro:${step.section!.id}` : ids(step.questions).join(','));
+
+describe('orderBySection', () => {
+  it('puts unsectioned questions first, then follows the section order and keeps the order within each', () => {
+    expect(ids(orderBySection(questions, sections))).toEqual(['free', 'a1', 'a2', 'a3', 'b1', 'b2']);
+  });
+
+  it('treats questions of unknown sections as unsectioned', () => {
+    expect(ids(orderBySection([question('x', 's1'), question('y', 'gone')], sections))).toEqual(['y', 'x']);
+    expect(ids(orderBySection(questions))).toEqual(ids(questions));
+  });
+});
+
+describe('buildFlow', () => {
+  it('opens each section with an intro and pages its questions', () => {
+    expect(outline(buildFlow({ questions, sections }))).toEqual(['free', 'intro:s1', 'a1,a2', 'a3', 'intro:s2', 'b1', 'b2']);
+  });
+
+  it('shows one question per page without sections and skips empty sections', () => {
+    const unsectioned = [question('q1'), question('q2')];
+    expect(outline(buildFlow({ questions: unsectioned }))).toEqual(['q1', 'q2']);
+    expect(outline(buildFlow({ questions: unsectioned, sections }))).toEqual(['q1', 'q2']);
+  });
+
+  it('follows the shuffled order of a randomized test', () => {
+    const randomized = applyRandomization({ questions, sections, randomization: { questions: 'all', options: false } }, 5);
+    const steps = buildFlow(randomized);
+    const order = randomized.sections.map(s => `intro:${s.id}`);
+    expect(outline(steps).filter(step => step.startsWith('intro:'))).toEqual(order);
+    expect(steps.flatMap(step => ids(step.questions))).toEqual(ids(orderBySection(randomized.questions, randomized.sections)));
+    expect(stepOfQuestion(steps, 'free')).toBe(0);
+    expect(stepOfQuestion(steps, 'missing')).toBe(-1);
+  });
+});
@@ -0,0 +1,50 @@
+import { Question, Test, TestSection } from '../types';
+
+// The candidate goes through a test as a list of steps: each section opens
+// with an intro screen, then shows its questions a page at a time. Tests
+// without sections are one question per page, as before sections existed.
+
+export interface FlowStep {
+  kind: 'intro' | 'questions';
+  section: TestSection | null; // null for questions outside any section
+  questions: Question[]; // empty for intro steps
+}
+
+const sectionIndex = (sections: TestSection[], q: Question) =>
+  sections.findIndex(s => s.id === q.sectionId);
+
+/** Questions in the order the candidate sees them: unsectioned first, then by section order. */
+export const orderBySection = (questions: Question[], sections: TestSection[] = []): Question[] =>
+  questions
+    .map((q, idx) => ({ q, idx, section: sectionIndex(sections, q) }))
+    .sort((a, b) => a.section - b.section || a.idx - b.idx)
+    .map(entry => entry.q);
+
+export const questionsPerPage = (section: TestSection | null) =>
+  section?.questionsPerPage && section.questionsPerPage > 0 ? Math.floor(section.questionsPerPage) : 1;
+
+export const buildFlow = (test: Pick<Test, 'questions' | 'sections'>): FlowStep[] => {
+  const sections = test.sections || [];
+  const steps: FlowStep[] = [];
+
+  const addPages = (section: TestSection | null, questions: Question[]) => {
+    const perPage = questionsPerPage(section);
+    for (let i = 0; i < questions.length; i += perPage) {
+      steps.push({ kind: 'questions', section, questions: questions.slice(i, i + perPage) });
+    }
+  };
+
+  addPages(null, test.questions.filter(q => sectionIndex(sections, q) < 0));
+  sections.forEach(section => {
+    const questions = test.questions.filter(q => q.sectionId === section.id);
+    if (questions.length === 0) return;
+    steps.push({ kind: 'intro', section, questions: [] });
+    addPages(section, questions);
+  });
+
+  return steps;
+};
+
+/** Index of the step showing the given question, or -1. */
+export const stepOfQuestion = (steps: FlowStep[], questionId: string) =>
+  steps.findIndex(step => step.questions.some(q => q.id === questionId));
@@ -0,0 +1,84 @@
+import { supabase } from '../supabaseClient';
+import { Category, Question } from '../types';
+
+// Competency categories are managed data. Questions reference them by id and
+// keep the name as a snapshot; lookups by name also accept former names.
+
+const DEFAULT_COLOR = '#10b981';
+
+const mapCategoryRow = (row: any): Category => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || '',
+  color: row.color || DEFAULT_COLOR,
+  displayOrder: row.display_order ?? 0,
+  active: row.active !== false,
+  aliases: row.aliases || []
+});
+
+export const fetchCategories = async (): Promise<Category[]> => {
+  const { data, error } = await supabase
+    .from('question_categories')
+    .select('*')
+    .order('display_order', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapCategoryRow);
+};
+
+export const saveCategory = async (category: Omit<Category, 'id'> & { id?: string }, previousName?: string): Promise<Category> => {
+  const aliases = previousName && previousName !== category.name && !category.aliases.includes(previousName)
+    ? [...category.aliases, previousName]
+    : category.aliases;
+  const payload = {
+    name: category.name.trim(),
+    description: category.description || null,
+    color: category.color || DEFAULT_COLOR,
+    display_order: category.displayOrder,
+    active: category.active,
+    aliases
+  };
+
+  const query = category.id
+    ? supabase.from('question_categories').update(payload).eq('id', category.id)
+    : supabase.from('question_categories').insert([payload]);
+
+  const { data, error } = await query.select().single();
+  if (error) throw error;
+  return mapCategoryRow(data);
+};
+
+export const saveCategoryOrder = async (categories: Category[]): Promise<void> => {
+  const results = await Promise.all(categories.map((c, idx) =>
+    supabase.from('question_categories').update({ display_order: idx }).eq('id', c.id)
+  ));
+  const failed = results.find(r => r.error);
+  if (failed?.error) throw failed.error;
+};
+
+export const deleteCategory = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('question_categories').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/** Finds a category by id, or by its current or a former name. */
+export const findCategory = (categories: Category[], ref: { categoryId?: string; category?: string }): Category | undefined => {
+  if (ref.categoryId) {
+    const byId = categories.find(c => c.id === ref.categoryId);
+    if (byId) return byId;
+  }
+  const name = (ref.category || '').trim().toLowerCase();
+  if (!name) return undefined;
+  return categories.find(c => c.name.toLowerCase() === name || c.aliases.some(a => a.toLowerCase() === name));
+};
+
+/** Current display name for a question or score, falling back to its snapshot. */
+export const categoryLabel = (categories: Category[], ref: { categoryId?: string; category?: string }) =>
+  findCategory(categories, ref)?.name || ref.category || '';
+
+/** Links questions to their category id and refreshes the name snapshot. */
+export const applyCategories = (questions: Question[], categories: Category[]): Question[] =>
+  questions.map(q => {
+    const match = findCategory(categories, q);
+    return match ? { ...q, categoryId: match.id, category: match.name } : q;
+  });
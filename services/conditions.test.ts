@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { Question } from '../types';
+import { canBeConditionSource, conditionAnswer, conditionValues, describeCondition, validateCondition, visibleQuestions } from './conditions';
+
+const scale: Question = { id: 'q1', text: 'Você lidera uma equipe?', type: 'scale', scale: { min: 1, max: 3, labels: { '1': 'Não' } } };
+const choice: Question = {
+  id: 'q2',
+  text: 'Qual o tamanho da equipe?',
+  type: 'choice',
+  variation: 'single',
+  options: [{ text: 'Pequena', value: '' }, { text: 'Grande', value: '' }]
+};
+const followUp: Question = { id: 'q3', text: 'Como você delega?', type: 'text', showIf: { questionId: 'q1', operator: 'in', values: ['2', '3'] } };
+const nested: Question = { id: 'q4', text: 'E em equipes grandes?', type: 'text', showIf: { questionId: 'q2', operator: 'equals', values: ['Grande'] } };
+
+describe('condition sources', () => {
+  it('accepts only scale and choice questions', () => {
+    expect(canBeConditionSource(scale)).toBe(true);
+    expect(canBeConditionSource(choice)).toBe(true);
+    expect(canBeConditionSource(followUp)).toBe(false);
+  });
+
+  it('lists the values a condition can compare against', () => {
+    expect(conditionValues(scale)).toEqual([
+      { value: '1', label: '1 – Não' },
+      { value: '2', label: '2' },
+      { value: '3', label: '3' }
+    ]);
+    expect(conditionValues(choice).map(v => v.value)).toEqual(['Pequena', 'Grande']);
+  });
+
+  it('reads answers as the scale point or the picked option text', () => {
+    expect(conditionAnswer(scale, { value: 2 })).toBe('2');
+    expect(conditionAnswer(scale, { notApplicable: true })).toBeNull();
+    expect(conditionAnswer(choice, { text: 'Grande', value: '' })).toBe('Grande');
+    expect(conditionAnswer({ ...choice, variation: 'most_least' }, { most: { text: 'Pequena' } })).toBe('Pequena');
+    expect(conditionAnswer({ ...choice, variation: 'ranking' }, { ranking: [{ text: 'Grande' }] })).toBe('Grande');
+  });
+});
+
+describe('visibleQuestions', () => {
+  it('shows a follow-up only when its condition holds', () => {
+    expect(visibleQuestions([scale, followUp], { q1: { value: 1 } }).map(q => q.id)).toEqual(['q1']);
+    expect(visibleQuestions([scale, followUp], { q1: { value: 3 } }).map(q => q.id)).toEqual(['q1', 'q3']);
+  });
+
+  it('hides follow-ups of hidden questions', () => {
+    const questions = [scale, { ...choice, showIf: followUp.showIf }, nested];
+    const answers = { q2: { text: 'Grande', value: '' } };
+    expect(visibleQuestions(questions, { ...answers, q1: { value: 2 } }).map(q => q.id)).toEqual(['q1', 'q2', 'q4']);
+    expect(visibleQuestions(questions, { ...answers, q1: { value: 1 } }).map(q => q.id)).toEqual(['q1']);
+  });
+
+  it('ignores conditions on questions that no longer exist', () => {
+    const orphan: Question = { ...followUp, showIf: { questionId: 'gone', operator: 'equals', values: ['1'] } };
+    expect(visibleQuestions([orphan], {})).toEqual([orphan]);
+  });
+});
+
+describe('validateCondition', () => {
+  it('accepts a condition on an earlier question with known values', () => {
+    expect(validateCondition(followUp, [scale, choice, followUp])).toBeNull();
+    expect(validateCondition(scale, [scale])).toBeNull();
+  });
+
+  it('rejects missing, later, unsupported or unknown sources and values', () => {
+    expect(validateCondition({ ...followUp, showIf: { questionId: 'gone', operator: 'equals', values: ['1'] } }, [followUp])).toMatch(/não existe mais/);
+    expect(validateCondition(followUp, [followUp, scale])).toMatch(/anterior/);
+    expect(validateCondition({ ...nested, showIf: { questionId: 'q3', operator: 'equals', values: ['x'] } }, [followUp, nested])).toMatch(/escala ou múltipla escolha/);
+    expect(validateCondition({ ...followUp, showIf: { questionId: 'q1', operator: 'in', values: [] } }, [scale, followUp])).toMatch(/ao menos uma/);
+    expect(validateCondition({ ...followUp, showIf: { questionId: 'q1', operator: 'equals', values: ['9'] } }, [scale, followUp])).toMatch(/pergunta 1/);
+  });
+});
+
+describe('describeCondition', () => {
+  it('names the source question by position', () => {
+    expect(describeCondition(followUp.showIf!, [scale, followUp])).toBe('Pergunta 1 for uma destas 2, 3');
+    expect(describeCondition({ questionId: 'gone', operator: 'equals', values: ['Sim'] }, [])).toBe('Pergunta removida for igual a Sim');
+  });
+});
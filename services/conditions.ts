@@ -0,0 +1,79 @@
+import { Question, QuestionCondition } from '../types';
+import { getScale, scalePoints, scaleLabel, isNotApplicable } from './scales';
+
+// Display conditions make a question depend on an earlier answer. A question
+// whose condition does not hold is skipped by the candidate and stored as not
+// shown, so it never counts as unanswered.
+
+export const CONDITION_OPERATORS: { value: QuestionCondition['operator']; label: string }[] = [
+  { value: 'equals', label: 'for igual a' },
+  { value: 'in', label: 'for uma destas' }
+];
+
+/** Questions whose answer can drive a condition. */
+export const canBeConditionSource = (q: Question) => q.type === 'scale' || q.type === 'choice';
+
+/** Values a condition on this question can compare against, as shown in the editor. */
+export const conditionValues = (q: Question): { value: string; label: string }[] => {
+  if (q.type === 'scale') {
+    const scale = getScale(q);
+    return scalePoints(scale).map(point => {
+      const label = scaleLabel(scale, point);
+      return { value: String(point), label: label ? `${point} – ${label}` : String(point) };
+    });
+  }
+  return (q.options || []).filter(o => o.text.trim()).map(o => ({ value: o.text, label: o.text }));
+};
+
+/** The answer in the form conditions compare: the scale point or the picked option text. */
+export const conditionAnswer = (q: Question, ans: any): string | null => {
+  if (!ans) return null;
+  if (q.type === 'scale') return isNotApplicable(ans) || ans.value === undefined ? null : String(ans.value);
+  if (q.type === 'choice') {
+    const picked = q.variation === 'most_least' ? ans.most : q.variation === 'ranking' ? ans.ranking?.[0] : ans;
+    return picked?.text ?? null;
+  }
+  return null;
+};
+
+const conditionHolds = (condition: QuestionCondition, source: Question, ans: any) => {
+  const answer = conditionAnswer(source, ans);
+  if (answer === null) return false;
+  return condition.operator === 'equals' ? condition.values[0] === answer : condition.values.includes(answer);
+};
+
+/**
+ * Questions the candidate gets to see, in order. A condition on a question
+ * that is itself hidden does not hold, so follow-ups of follow-ups disappear
+ * together; a condition pointing at a question that no longer exists is ignored.
+ */
+export const visibleQuestions = (questions: Question[], answers: Record<string, any>): Question[] => {
+  const visible = new Set<string>();
+  return questions.filter(q => {
+    const condition = q.showIf;
+    const source = condition && questions.find(s => s.id === condition.questionId);
+    const shown = !condition || !source || (visible.has(source.id) && conditionHolds(condition, source, answers[source.id]));
+    if (shown) visible.add(q.id);
+    return shown;
+  });
+};
+
+export const validateCondition = (q: Question, questions: Question[]): string | null => {
+  const condition = q.showIf;
+  if (!condition) return null;
+  const sourceIdx = questions.findIndex(s => s.id === condition.questionId);
+  if (sourceIdx < 0) return 'A condição de exibição aponta para uma pergunta que não existe mais.';
+  if (sourceIdx >= questions.findIndex(s => s.id === q.id)) return 'A condição de exibição deve depender de uma pergunta anterior.';
+  if (!canBeConditionSource(questions[sourceIdx])) return 'Condições só podem depender de perguntas de escala ou múltipla escolha.';
+  if (condition.values.length === 0) return 'Escolha ao menos uma resposta para a condição de exibição.';
+  const known = conditionValues(questions[sourceIdx]).map(v => v.value);
+  if (condition.values.some(v => !known.includes(v))) return `A condição de exibição usa uma resposta que não existe na pergunta ${sourceIdx + 1}.`;
+  return null;
+};
+
+/** "Pergunta 2 for igual a Sim" for badges and summaries. */
+export const describeCondition = (condition: QuestionCondition, questions: Question[]) => {
+  const idx = questions.findIndex(s => s.id === condition.questionId);
+  const operator = CONDITION_OPERATORS.find(o => o.value === condition.operator)?.label || '';
+  return `${idx >= 0 ? `Pergunta ${idx + 1}` : 'Pergunta removida'} ${operator} ${condition.values.join(', ')}`;
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IntegrityEvent } from '../types';
+import { appendEvent, summarizeIntegrity, watchIntegrity } from './integrity';
+
+const event = (type: IntegrityEvent['type'], durationMs?: number): IntegrityEvent =>
+  ({ type, at: '2026-10-19T12:00:00.000Z', ...(durationMs !== undefined ? { durationMs } : {}) });
+
+describe('appendEvent', () => {
+  it('appends until the cap is reached', () => {
+    expect(appendEvent([], event('paste'))).toEqual([event('paste')]);
+    const full = Array.from({ length: 500 }, () => event('resize'));
+    expect(appendEvent(full, event('paste'))).toBe(full);
+  });
+});
+
+describe('summarizeIntegrity', () => {
+  it('counts events and adds up the time away', () => {
+    expect(summarizeIntegrity([event('focus_lost', 3000), event('focus_lost', 500), event('paste'), event('resize'), event('devtools')]))
+      .toEqual({ focusLosses: 2, awayMs: 3500, pastes: 1, resizes: 1, devtools: 1 });
+    expect(summarizeIntegrity()).toEqual({ focusLosses: 0, awayMs: 0, pastes: 0, resizes: 0, devtools: 0 });
+  });
+});
+
+// The browser globals are stood in for by plain event targets
+describe('watchIntegrity', () => {
+  let win: EventTarget & Record<string, any>;
+  let doc: EventTarget & Record<string, any>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00.000Z'));
+    win = Object.assign(new EventTarget(), { outerWidth: 1200, innerWidth: 1200, outerHeight: 800, innerHeight: 800 });
+    doc = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+    vi.stubGlobal('window', win);
+    vi.stubGlobal('document', doc);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('merges a tab switch and its blur into one focus_lost event with its duration', () => {
+    const events: IntegrityEvent[] = [];
+    const onReturn = vi.fn();
+    const stop = watchIntegrity(e => events.push(e), onReturn);
+
+    doc.visibilityState = 'hidden';
+    doc.dispatchEvent(new Event('visibilitychange'));
+    win.dispatchEvent(new Event('blur'));
+    vi.advanceTimersByTime(4000);
+    doc.visibilityState = 'visible';
+    doc.dispatchEvent(new Event('visibilitychange'));
+    win.dispatchEvent(new Event('focus'));
+    stop();
+
+    expect(events).toEqual([{ type: 'focus_lost', at: '2026-10-19T12:00:00.000Z', durationMs: 4000, detail: 'Trocou de aba ou minimizou' }]);
+    expect(onReturn).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports one resize per gesture and a devtools panel opening', () => {
+    const events: IntegrityEvent[] = [];
+    const stop = watchIntegrity(e => events.push(e));
+
+    win.innerWidth = 900;
+    win.dispatchEvent(new Event('resize'));
+    win.dispatchEvent(new Event('resize'));
+    vi.advanceTimersByTime(500);
+    stop();
+
+    expect(events.map(e => e.type)).toEqual(['resize', 'devtools']);
+    expect(events[0].detail).toBe('900×800');
+  });
+
+  it('stops listening once stopped', () => {
+    const events: IntegrityEvent[] = [];
+    watchIntegrity(e => events.push(e))();
+
+    win.dispatchEvent(new Event('blur'));
+    win.dispatchEvent(new Event('focus'));
+    expect(events).toEqual([]);
+  });
+});
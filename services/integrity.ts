@@ -0,0 +1,105 @@
+import { IntegrityEvent, IntegrityEventType } from '../types';
+
+// Integrity signals of an unsupervised attempt. They are recorded as a plain
+// event list kept with the autosave and sent with the submission; nothing here
+// blocks the candidate, the events only inform HR's reading of the result.
+
+const MAX_EVENTS = 500; // a runaway listener must not bloat the submission
+const RESIZE_SETTLE_MS = 500; // one event per resize gesture, not per frame
+const DEVTOOLS_GAP_PX = 160; // docked devtools shrink the viewport by at least this much
+
+export const INTEGRITY_EVENT_LABELS: Record<IntegrityEventType, string> = {
+  focus_lost: 'Saiu da página do teste',
+  paste: 'Colou texto',
+  resize: 'Redimensionou a janela',
+  devtools: 'Ferramentas de desenvolvedor possivelmente abertas'
+};
+
+export const appendEvent = (events: IntegrityEvent[], event: IntegrityEvent): IntegrityEvent[] =>
+  events.length >= MAX_EVENTS ? events : [...events, event];
+
+export interface IntegritySummary {
+  focusLosses: number;
+  awayMs: number;
+  pastes: number;
+  resizes: number;
+  devtools: number;
+}
+
+export const summarizeIntegrity = (events: IntegrityEvent[] = []): IntegritySummary => ({
+  focusLosses: events.filter(e => e.type === 'focus_lost').length,
+  awayMs: events.reduce((sum, e) => sum + (e.type === 'focus_lost' ? e.durationMs || 0 : 0), 0),
+  pastes: events.filter(e => e.type === 'paste').length,
+  resizes: events.filter(e => e.type === 'resize').length,
+  devtools: events.filter(e => e.type === 'devtools').length
+});
+
+// Heuristic only: a docked inspector leaves a large gap between the window and its viewport
+const devtoolsLikelyOpen = () =>
+  window.outerWidth - window.innerWidth > DEVTOOLS_GAP_PX || window.outerHeight - window.innerHeight > DEVTOOLS_GAP_PX;
+
+/**
+ * Listens to the browser while an attempt is open and reports each integrity
+ * event. Switching tabs fires both 'visibilitychange' and 'blur'; they are
+ * merged into one 'focus_lost' event, reported on return with its duration.
+ * Returns the function that removes every listener.
+ */
+export const watchIntegrity = (
+  onEvent: (event: IntegrityEvent) => void,
+  onReturn?: () => void
+): (() => void) => {
+  let awaySince: number | null = null;
+  let awayDetail = '';
+  let resizeTimer: ReturnType<typeof setTimeout> | undefined;
+  let devtoolsOpen = devtoolsLikelyOpen();
+
+  const leave = (detail: string) => {
+    if (awaySince !== null) return;
+    awaySince = Date.now();
+    awayDetail = detail;
+  };
+
+  const comeBack = () => {
+    if (awaySince === null) return;
+    onEvent({ type: 'focus_lost', at: new Date(awaySince).toISOString(), durationMs: Date.now() - awaySince, detail: awayDetail });
+    awaySince = null;
+    onReturn?.();
+  };
+
+  const handleVisibility = () => document.visibilityState === 'hidden' ? leave('Trocou de aba ou minimizou') : comeBack();
+  const handleBlur = () => leave('Janela perdeu o foco');
+  const handleFocus = () => comeBack();
+
+  const handlePaste = (e: ClipboardEvent) => {
+    const length = e.clipboardData?.getData('text').length ?? 0;
+    const questionId = (e.target as HTMLElement | null)?.closest?.('[data-question-id]')?.getAttribute('data-question-id') || undefined;
+    onEvent({ type: 'paste', at: new Date().toISOString(), detail: `${length} caracteres`, ...(questionId ? { questionId } : {}) });
+  };
+
+  const handleResize = () => {
+    clearTimeout(resizeTimer);
+    resizeTimer = setTimeout(() => {
+      onEvent({ type: 'resize', at: new Date().toISOString(), detail: `${window.innerWidth}×${window.innerHeight}` });
+      const open = devtoolsLikelyOpen();
+      if (open && !devtoolsOpen) onEvent({ type: 'devtools', at: new Date().toISOString() });
+      devtoolsOpen = open;
+    }, RESIZE_SETTLE_MS);
+  };
+
+  if (devtoolsOpen) onEvent({ type: 'devtools', at: new Date().toISOString(), detail: 'Já abertas ao iniciar' });
+
+  document.addEventListener('visibilitychange', handleVisibility);
+  window.addEventListener('blur', handleBlur);
+  window.addEventListener('focus', handleFocus);
+  document.addEventListener('paste', handlePaste);
+  window.addEventListener('resize', handleResize);
+
+  return () => {
+    clearTimeout(resizeTimer);
+    document.removeEventListener('visibilitychange', handleVisibility);
+    window.removeEventListener('blur', handleBlur);
+    window.removeEventListener('focus', handleFocus);
+    document.removeEventListener('paste', handlePaste);
+    window.removeEventListener('resize', handleResize);
+  };
+};
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { ProfileModel, Question } from '../types';
+import { DISC_PROFILE_MODEL, LEGACY_PROFILE_MODEL, findDimension, migrateLegacyProfiles } from './profileModels';
+
+const legacy: Question = {
+  id: 'q1',
+  text: 'Em uma reunião, você',
+  type: 'choice',
+  options: [
+    { text: 'Analisa os números', value: 'Analítico' },
+    { text: 'Puxa a conversa', value: ' comunicativo ' },
+    { text: 'Concorda com tudo', value: '3' }
+  ]
+};
+const scored: Question = { id: 'q2', text: 'Quando há conflito', type: 'choice', options: [{ text: 'Converso', value: '8' }, { text: 'Espero', value: '' }] };
+
+describe('findDimension', () => {
+  it('matches a dimension id or, case-insensitively, its name', () => {
+    expect(findDimension(DISC_PROFILE_MODEL, 'd')?.name).toBe('Dominância');
+    expect(findDimension(DISC_PROFILE_MODEL, 'influência')?.id).toBe('i');
+    expect(findDimension(DISC_PROFILE_MODEL, 'Líder')).toBeUndefined();
+    expect(findDimension(null, 'd')).toBeUndefined();
+  });
+});
+
+describe('migrateLegacyProfiles', () => {
+  it('moves profile names to dimension ids of the legacy model and keeps numeric values', () => {
+    const { questions, profileModel } = migrateLegacyProfiles([legacy, scored], null);
+    expect(profileModel).toEqual(LEGACY_PROFILE_MODEL);
+    expect(questions[0].options).toEqual([
+      { text: 'Analisa os números', value: '', dimensionId: 'analitico' },
+      { text: 'Puxa a conversa', value: '', dimensionId: 'comunicativo' },
+      { text: 'Concorda com tudo', value: '3' }
+    ]);
+    expect(questions[1]).toBe(scored);
+  });
+
+  it('leaves tests without profile names untouched', () => {
+    const { questions, profileModel } = migrateLegacyProfiles([scored], null);
+    expect(questions[0]).toBe(scored);
+    expect(profileModel).toBeNull();
+  });
+
+  it('adds names missing from the model without changing the given one', () => {
+    const model: ProfileModel = { id: 'custom', name: 'Próprio', dimensions: [{ id: 'x', name: 'Analítico', color: '#000' }] };
+    const { questions, profileModel } = migrateLegacyProfiles([legacy], model);
+    expect(questions[0].options!.map(o => o.dimensionId)).toEqual(['x', 'dim-2', undefined]);
+    expect(profileModel!.dimensions.map(d => d.name)).toEqual(['Analítico', 'comunicativo']);
+    expect(model.dimensions).toHaveLength(1);
+  });
+});
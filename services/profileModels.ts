@@ -0,0 +1,79 @@
+import { ProfileDimension, ProfileModel, Question, QuestionOption } from '../types';
+
+// Behavioral profile models are defined per test. Options point at a dimension
+// through 'dimensionId'; 'value' only carries a score. Older tests stored the
+// profile name in 'value' and are mapped onto the legacy quadrant model.
+
+export const LEGACY_PROFILE_MODEL: ProfileModel = {
+  id: 'saveco-quadrants',
+  name: 'Quadrantes Save Co',
+  dimensions: [
+    { id: 'analitico', name: 'Analítico', color: '#3b82f6', description: 'Orientado a dados, lógica e precisão.', interpretation: 'Tende a decidir com base em análise cuidadosa e evidências.' },
+    { id: 'organizado', name: 'Organizado', color: '#10b981', description: 'Orientado a processos, rotina e disciplina.', interpretation: 'Valoriza planejamento, previsibilidade e cumprimento de prazos.' },
+    { id: 'comunicativo', name: 'Comunicativo', color: '#f59e0b', description: 'Orientado a pessoas e relacionamentos.', interpretation: 'Engaja, influencia e se expressa com facilidade em grupo.' },
+    { id: 'lider', name: 'Líder', color: '#ef4444', description: 'Orientado a resultados e tomada de decisão.', interpretation: 'Assume a frente, decide rápido e busca desafios.' }
+  ]
+};
+
+export const DISC_PROFILE_MODEL: ProfileModel = {
+  id: 'disc',
+  name: 'DISC',
+  dimensions: [
+    { id: 'd', name: 'Dominância', color: '#ef4444', description: 'Foco em resultados, desafios e controle.', interpretation: 'Direto e decidido; prefere ambientes competitivos e autonomia.' },
+    { id: 'i', name: 'Influência', color: '#f59e0b', description: 'Foco em pessoas, persuasão e entusiasmo.', interpretation: 'Sociável e otimista; motiva os outros e busca reconhecimento.' },
+    { id: 's', name: 'Estabilidade', color: '#10b981', description: 'Foco em cooperação, constância e apoio.', interpretation: 'Paciente e leal; prefere ritmo estável e ambientes harmoniosos.' },
+    { id: 'c', name: 'Conformidade', color: '#3b82f6', description: 'Foco em qualidade, regras e exatidão.', interpretation: 'Analítico e cuidadoso; valoriza padrões e informação completa.' }
+  ]
+};
+
+export const PROFILE_MODEL_PRESETS: ProfileModel[] = [LEGACY_PROFILE_MODEL, DISC_PROFILE_MODEL];
+
+export const cloneProfileModel = (model: ProfileModel): ProfileModel => JSON.parse(JSON.stringify(model));
+
+const isLegacyProfileValue = (value: any) =>
+  typeof value === 'string' && value.trim() !== '' && isNaN(parseInt(value, 10));
+
+/** Dimension for a stored key: a dimension id or, for older data, a profile name. */
+export const findDimension = (model: ProfileModel | null | undefined, key: string | undefined): ProfileDimension | undefined => {
+  if (!model || !key) return undefined;
+  const lower = key.toLowerCase();
+  return model.dimensions.find(d => d.id === key) || model.dimensions.find(d => d.name.toLowerCase() === lower);
+};
+
+/** The preset whose dimensions cover all the given names, or a custom model built from them. */
+export const modelForDimensionNames = (names: string[]): ProfileModel => {
+  const unique = Array.from(new Set(names.map(n => n.trim()).filter(Boolean)));
+  const preset = PROFILE_MODEL_PRESETS.find(p => unique.every(name => findDimension(p, name)));
+  if (preset) return cloneProfileModel(preset);
+  return {
+    id: 'custom',
+    name: 'Modelo importado',
+    dimensions: unique.map((name, idx) => ({ id: `dim-${idx + 1}`, name, color: '#9ca3af' }))
+  };
+};
+
+/**
+ * Moves legacy profile names from 'value' to 'dimensionId'. Names missing from
+ * the model are added to it, so no answer loses its profile.
+ */
+export const migrateLegacyProfiles = (questions: Question[], model: ProfileModel | null | undefined) => {
+  let nextModel = model ? cloneProfileModel(model) : null;
+
+  const nextQuestions = questions.map(q => {
+    if (!q.options?.some(o => isLegacyProfileValue(o?.value))) return q;
+    nextModel = nextModel || cloneProfileModel(LEGACY_PROFILE_MODEL);
+
+    const options = q.options.map((o): QuestionOption => {
+      if (!isLegacyProfileValue(o.value)) return o;
+      let dimension = findDimension(nextModel, o.value.trim());
+      if (!dimension) {
+        dimension = { id: `dim-${nextModel!.dimensions.length + 1}`, name: o.value.trim(), color: '#9ca3af' };
+        nextModel!.dimensions.push(dimension);
+      }
+      return { text: o.text, value: '', dimensionId: dimension.id };
+    });
+    return { ...q, options };
+  });
+
+  return { questions: nextQuestions, profileModel: nextModel as ProfileModel | null };
+};
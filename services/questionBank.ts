@@ -0,0 +1,131 @@
+import { supabase } from '../supabaseClient';
+import { BankItemStats, BankQuestion, Question, Test } from '../types';
+import { normalizedAnswer, pickedOption } from './scoring';
+
+// Shared questions that tests pull in either by reference (kept in sync with
+// the bank whenever the test is edited) or as an independent copy.
+
+const mapBankRow = (row: any): BankQuestion => ({
+  id: row.id,
+  text: row.text,
+  category: row.category || '',
+  categoryId: row.category_id || undefined,
+  type: row.type,
+  scale: row.scale || undefined,
+  variation: row.variation || undefined,
+  options: row.options || undefined,
+  tags: row.tags || [],
+  updatedAt: row.updated_at
+});
+
+export const fetchBankQuestions = async (): Promise<BankQuestion[]> => {
+  const { data, error } = await supabase
+    .from('question_bank')
+    .select('*')
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(mapBankRow);
+};
+
+export const saveBankQuestion = async (item: Omit<BankQuestion, 'id'> & { id?: string }): Promise<BankQuestion> => {
+  const payload = {
+    text: item.text,
+    category: item.category || null,
+    category_id: item.categoryId || null,
+    type: item.type,
+    scale: item.type === 'scale' ? item.scale || null : null,
+    variation: item.type === 'choice' ? item.variation || 'single' : null,
+    options: item.type === 'choice' ? item.options || [] : null,
+    tags: item.tags,
+    updated_at: new Date().toISOString()
+  };
+
+  const query = item.id
+    ? supabase.from('question_bank').update(payload).eq('id', item.id)
+    : supabase.from('question_bank').insert([payload]);
+
+  const { data, error } = await query.select().single();
+  if (error) throw error;
+  return mapBankRow(data);
+};
+
+export const deleteBankQuestion = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('question_bank').delete().eq('id', id);
+  if (error) throw error;
+};
+
+const bankContent = (item: BankQuestion): Partial<Question> => ({
+  text: item.text,
+  category: item.category,
+  categoryId: item.categoryId,
+  type: item.type,
+  scale: item.type === 'scale' ? item.scale : undefined,
+  variation: item.type === 'choice' ? item.variation || 'single' : undefined,
+  options: item.type === 'choice' ? JSON.parse(JSON.stringify(item.options || [])) : undefined
+});
+
+export const bankItemToQuestion = (item: BankQuestion, link: 'reference' | 'copy', id: string): Question => ({
+  id,
+  ...bankContent(item),
+  bankItemId: item.id,
+  bankLink: link
+} as Question);
+
+// Open-text and situational questions carry a rubric or scenario the bank does not store,
+// so they are not offered for saving
+export const questionToBankItem = (q: Question, tags: string[] = []): Omit<BankQuestion, 'id'> => ({
+  text: q.text,
+  category: q.category,
+  categoryId: q.categoryId,
+  type: q.type as BankQuestion['type'],
+  scale: q.scale,
+  variation: q.variation,
+  options: q.options,
+  tags
+});
+
+/** Refreshes the content of every 'reference' question from its bank item. */
+export const resolveBankReferences = (questions: Question[], bank: BankQuestion[]): Question[] =>
+  questions.map(q => {
+    if (q.bankLink !== 'reference' || !q.bankItemId) return q;
+    const item = bank.find(b => b.id === q.bankItemId);
+    return item ? { ...q, ...bankContent(item) } : q;
+  });
+
+export const findTestsUsingItem = (tests: Test[], itemId: string) =>
+  tests
+    .map(test => ({
+      test,
+      link: (test.questions || []).find(q => q.bankItemId === itemId)?.bankLink
+    }))
+    .filter(entry => !!entry.link);
+
+/**
+ * Response statistics for a bank item across every stored result that used it.
+ * The database returns only the answered entries of this item (public.bank_item_responses).
+ */
+export const fetchBankItemStats = async (itemId: string): Promise<BankItemStats> => {
+  const { data, error } = await supabase.rpc('bank_item_responses', { item_id: itemId });
+  if (error) throw error;
+
+  const stats: BankItemStats = { responses: 0, averageScore: null, optionCounts: {} };
+  let scoreTotal = 0;
+  let scoreCount = 0;
+
+  (data || []).forEach((q: any) => {
+    stats.responses += 1;
+    const score = normalizedAnswer(q, q.resposta);
+    if (score !== null) {
+      scoreTotal += score;
+      scoreCount += 1;
+    }
+    const picked = pickedOption(q, q.resposta);
+    if (q.type === 'choice' && picked?.text) {
+      stats.optionCounts[picked.text] = (stats.optionCounts[picked.text] || 0) + 1;
+    }
+  });
+
+  if (scoreCount > 0) stats.averageScore = Math.round((scoreTotal / scoreCount) * 1000) / 10;
+  return stats;
+};
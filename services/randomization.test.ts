@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { Question, Randomization, TestSection } from '../types';
+import { applyRandomization, isRandomized } from './randomization';
+
+const options = ['A', 'B', 'C', 'D', 'E'].map(text => ({ text, value: '' }));
+const sections: TestSection[] = [
+  { id: 's1', title: 'Parte 1', intro: '' },
+  { id: 's2', title: 'Parte 2', intro: '' },
+  { id: 's3', title: 'Parte 3', intro: '' }
+];
+const questions: Question[] = [
+  { id: 'intro', text: 'Sem seção', type: 'scale' },
+  ...sections.flatMap(s => [1, 2, 3, 4].map((n): Question => ({ id: `${s.id}-q${n}`, text: '', type: 'choice', sectionId: s.id, options })))
+];
+
+const content = (randomization: Randomization | null) => ({ questions, sections, randomization });
+const ids = (items: { id: string }[]) => items.map(i => i.id);
+
+describe('isRandomized', () => {
+  it('is false for a missing or fixed configuration', () => {
+    expect(isRandomized(null)).toBe(false);
+    expect(isRandomized({ questions: 'fixed', options: false })).toBe(false);
+    expect(isRandomized({ questions: 'fixed', options: true })).toBe(true);
+  });
+});
+
+describe('applyRandomization', () => {
+  it('leaves fixed tests untouched', () => {
+    const result = applyRandomization(content(null), 42);
+    expect(result.questions).toBe(questions);
+    expect(result.sections).toBe(sections);
+  });
+
+  it('is a pure function of the seed', () => {
+    const r: Randomization = { questions: 'all', options: true };
+    expect(applyRandomization(content(r), 7)).toEqual(applyRandomization(content(r), 7));
+    const orders = [1, 2, 3, 4, 5].map(seed => ids(applyRandomization(content(r), seed).questions).join());
+    expect(new Set(orders).size).toBeGreaterThan(1);
+  });
+
+  it('shuffles questions within their section and keeps sections in order', () => {
+    const result = applyRandomization(content({ questions: 'within_sections', options: false }), 3);
+    expect(ids(result.sections)).toEqual(['s1', 's2', 's3']);
+    expect(result.questions[0].id).toBe('intro');
+    expect(result.questions.slice(1).map(q => q.sectionId)).toEqual(['s1', 's1', 's1', 's1', 's2', 's2', 's2', 's2', 's3', 's3', 's3', 's3']);
+    expect(ids(result.questions).sort()).toEqual(ids(questions).sort());
+  });
+
+  it('shuffles options only when asked', () => {
+    const fixedOptions = applyRandomization(content({ questions: 'all', options: false }), 3);
+    fixedOptions.questions.forEach(q => expect(q.options).toBe(questions.find(o => o.id === q.id)!.options));
+
+    const shuffled = applyRandomization(content({ questions: 'fixed', options: true }), 3);
+    expect(ids(shuffled.questions)).toEqual(ids(questions));
+    expect(shuffled.questions.slice(1).some(q => q.options!.map(o => o.text).join() !== 'A,B,C,D,E')).toBe(true);
+  });
+
+  it('never places a conditional question or its section before its source', () => {
+    const conditional: Question[] = [
+      { id: 'src', text: '', type: 'scale', sectionId: 's1' },
+      { id: 'dep', text: '', type: 'text', sectionId: 's1', showIf: { questionId: 'src', operator: 'equals', values: ['5'] } },
+      { id: 'other', text: '', type: 'scale', sectionId: 's1' },
+      { id: 'late', text: '', type: 'text', sectionId: 's3', showIf: { questionId: 'other', operator: 'equals', values: ['1'] } }
+    ];
+    for (let seed = 0; seed < 50; seed++) {
+      const result = applyRandomization({ questions: conditional, sections, randomization: { questions: 'all', options: false } }, seed);
+      const order = ids(result.questions);
+      expect(order.indexOf('src')).toBeLessThan(order.indexOf('dep'));
+      expect(ids(result.sections).indexOf('s1')).toBeLessThan(ids(result.sections).indexOf('s3'));
+    }
+  });
+});
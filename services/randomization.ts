@@ -0,0 +1,84 @@
+import { Question, Randomization, TestSection } from '../types';
+
+// Each attempt gets a seed; the candidate's order of sections, questions and
+// options is a pure function of the test and that seed, so a resumed attempt
+// or a result can be shown again in exactly the order the candidate saw.
+
+export const DEFAULT_RANDOMIZATION: Randomization = { questions: 'fixed', options: false };
+
+export const isRandomized = (r?: Randomization | null) => !!r && (r.questions !== 'fixed' || r.options);
+
+export const createSeed = () => Math.floor(Math.random() * 0x7fffffff);
+
+// mulberry32: small, fast and good enough for ordering items
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T,>(items: T[], random: () => number): T[] => {
+  const next = [...items];
+  for (let i = next.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [next[i], next[j]] = [next[j], next[i]];
+  }
+  return next;
+};
+
+// An item waits until everything it depends on is placed, so a conditional
+// question never lands before the question it depends on.
+const respectDependencies = <T,>(shuffled: T[], dependsOn: (item: T) => T[]): T[] => {
+  const placed: T[] = [];
+  const pending = [...shuffled];
+  while (pending.length > 0) {
+    const ready = pending.findIndex(item => dependsOn(item).every(dep => placed.includes(dep) || !shuffled.includes(dep)));
+    placed.push(...pending.splice(Math.max(ready, 0), 1));
+  }
+  return placed;
+};
+
+/** The test as one candidate sees it: sections, questions and options in shuffled order. */
+export const applyRandomization = (
+  content: { questions: Question[]; sections?: TestSection[]; randomization?: Randomization | null },
+  seed: number
+): { questions: Question[]; sections: TestSection[] } => {
+  const sections = content.sections || [];
+  const r = content.randomization;
+  if (!isRandomized(r)) return { questions: content.questions, sections };
+
+  const random = seededRandom(seed);
+  const sourceOf = (q: Question) => content.questions.filter(s => s.id === q.showIf?.questionId);
+
+  let orderedSections = sections;
+  if (r!.questions === 'all') {
+    const sectionOf = (q: Question) => sections.find(s => s.id === q.sectionId);
+    orderedSections = respectDependencies(shuffle(sections, random), section =>
+      content.questions
+        .filter(q => q.sectionId === section.id)
+        .flatMap(sourceOf)
+        .map(sectionOf)
+        .filter((s): s is TestSection => !!s && s.id !== section.id)
+    );
+  }
+
+  // Questions are shuffled inside their own group: outside any section, then each section
+  const groups = [undefined, ...orderedSections.map(s => s.id)].map(sectionId =>
+    content.questions.filter(q => sectionId ? q.sectionId === sectionId : !sections.some(s => s.id === q.sectionId))
+  );
+  const questions = groups.flatMap(group =>
+    r!.questions === 'fixed' ? group : respectDependencies(shuffle(group, random), sourceOf)
+  );
+
+  return {
+    sections: orderedSections,
+    questions: questions.map(q =>
+      r!.options && q.type === 'choice' && q.options ? { ...q, options: shuffle(q.options, random) } : q
+    )
+  };
+};
@@ -0,0 +1,72 @@
+import { supabase } from '../supabaseClient';
+import { ScoringResult, TextAnswerReview } from '../types';
+import { scoreSubmissionBody } from './scoring';
+
+/**
+ * Stores the locally scored submission in result_test and returns its id.
+ * The row is complete on its own; AI enrichment (n8n) may update it later
+ * using the 'result_id' it receives in the webhook payload. A row the legacy
+ * workflow inserts instead is merged into this one by the database.
+ */
+export const saveScoredResult = async (
+  testId: string,
+  testVersion: number | null,
+  candidateId: string,
+  assignmentId: string,
+  payload: Record<string, any>,
+  scoring: ScoringResult
+): Promise<string> => {
+  const { data, error } = await supabase
+    .from('result_test')
+    .insert([{
+      test_id: testId,
+      test_version: testVersion,
+      candidate_id: candidateId,
+      assignment_id: assignmentId,
+      result: { ...payload, scoring }
+    }])
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+/** Id of the result already stored for an assignment, if its attempt was submitted before. */
+export const findAssignmentResult = async (assignmentId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('result_test')
+    .select('id')
+    .eq('assignment_id', assignmentId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.id || null;
+};
+
+/**
+ * Stores the signed-in reviewer's rubric score for one text answer and
+ * rescores the submission, so category results include it. Returns the
+ * updated result.
+ */
+export const saveTextReview = async (
+  resultId: string,
+  result: Record<string, any>,
+  questionId: string,
+  score: number
+): Promise<Record<string, any>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const review: TextAnswerReview = { score, reviewerId: session?.user.id, reviewedAt: new Date().toISOString() };
+  const reviews = { ...(result.reviews || {}), [questionId]: review };
+  const next = { ...result, reviews, scoring: scoreSubmissionBody(result.body || [], reviews) };
+
+  const { error } = await supabase
+    .from('result_test')
+    .update({ result: next })
+    .eq('id', resultId);
+
+  if (error) throw error;
+  return next;
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MAX_LENGTH, DEFAULT_RUBRIC, getRubric, normalizeRubricScore, rubricLevel, textLimits, validateTextQuestion } from './rubrics';
+
+const threeLevels = [
+  { score: 0, label: 'Fraco' },
+  { score: 5, label: 'Bom' },
+  { score: 10, label: 'Ótimo' }
+];
+
+describe('rubrics', () => {
+  it('uses the default rubric when a question has none', () => {
+    expect(getRubric({})).toBe(DEFAULT_RUBRIC);
+    expect(getRubric({ rubric: [] })).toBe(DEFAULT_RUBRIC);
+    expect(getRubric({ rubric: threeLevels })).toBe(threeLevels);
+  });
+
+  it('applies default text limits', () => {
+    expect(textLimits({})).toEqual({ min: 1, max: DEFAULT_MAX_LENGTH });
+    expect(textLimits({ minLength: 50, maxLength: 500 })).toEqual({ min: 50, max: 500 });
+  });
+
+  it('normalizes a score between the lowest and highest level', () => {
+    expect(normalizeRubricScore(DEFAULT_RUBRIC, 1)).toBe(0);
+    expect(normalizeRubricScore(DEFAULT_RUBRIC, 4)).toBe(1);
+    expect(normalizeRubricScore(threeLevels, 5)).toBe(0.5);
+    expect(normalizeRubricScore(threeLevels, 20)).toBe(1);
+    expect(normalizeRubricScore([{ score: 3, label: 'Único' }], 3)).toBe(1);
+  });
+
+  it('finds the level of a score', () => {
+    expect(rubricLevel(threeLevels, 5)?.label).toBe('Bom');
+    expect(rubricLevel(threeLevels, 4)).toBeUndefined();
+  });
+
+  it('validates lengths and levels', () => {
+    expect(validateTextQuestion({ minLength: 10, maxLength: 100, rubric: threeLevels })).toBeNull();
+    expect(validateTextQuestion({ minLength: -1 })).toMatch(/mínimo/);
+    expect(validateTextQuestion({ maxLength: 0 })).toMatch(/máximo/);
+    expect(validateTextQuestion({ minLength: 300, maxLength: 100 })).toMatch(/maior que o mínimo/);
+    expect(validateTextQuestion({ rubric: [{ score: 1, label: ' ' }] })).toMatch(/nota e descrição/);
+    expect(validateTextQuestion({ rubric: [{ score: 1, label: 'A' }, { score: 1, label: 'B' }] })).toMatch(/notas diferentes/);
+  });
+});
@@ -0,0 +1,43 @@
+import { Question, RubricLevel } from '../types';
+
+// Open-text answers are scored by a reviewer, who picks one of the question's
+// rubric levels. Until then the answer counts as answered but adds no score.
+
+export const DEFAULT_RUBRIC: RubricLevel[] = [
+  { score: 1, label: 'Insuficiente', description: 'Não responde ao que foi pedido ou não traz exemplo concreto.' },
+  { score: 2, label: 'Parcial', description: 'Traz um exemplo, mas sem contexto, ação ou resultado claros.' },
+  { score: 3, label: 'Adequado', description: 'Descreve situação, ação e resultado de forma coerente.' },
+  { score: 4, label: 'Excelente', description: 'Exemplo completo, com reflexão sobre o aprendizado e impacto mensurável.' }
+];
+
+export const DEFAULT_MAX_LENGTH = 2000;
+
+export const getRubric = (q: Pick<Question, 'rubric'>): RubricLevel[] =>
+  q.rubric && q.rubric.length > 0 ? q.rubric : DEFAULT_RUBRIC;
+
+export const textLimits = (q: Pick<Question, 'minLength' | 'maxLength'>) => ({
+  min: q.minLength && q.minLength > 0 ? q.minLength : 1,
+  max: q.maxLength && q.maxLength > 0 ? q.maxLength : DEFAULT_MAX_LENGTH
+});
+
+/** Position of a rubric score between the lowest and highest level, 0..1. */
+export const normalizeRubricScore = (rubric: RubricLevel[], score: number) => {
+  const scores = rubric.map(l => l.score);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return max === min ? 1 : Math.max(0, Math.min(1, (score - min) / (max - min)));
+};
+
+export const rubricLevel = (rubric: RubricLevel[], score: number) => rubric.find(l => l.score === score);
+
+export const validateTextQuestion = (q: Pick<Question, 'minLength' | 'maxLength' | 'rubric'>): string | null => {
+  if (q.minLength !== undefined && (!Number.isInteger(q.minLength) || q.minLength < 0)) return 'O tamanho mínimo deve ser um número inteiro positivo.';
+  if (q.maxLength !== undefined && (!Number.isInteger(q.maxLength) || q.maxLength < 1)) return 'O tamanho máximo deve ser um número inteiro positivo.';
+  const { min, max } = textLimits(q);
+  if (max < min) return 'O tamanho máximo deve ser maior que o mínimo.';
+  if (q.rubric) {
+    if (q.rubric.some(l => !l.label?.trim() || typeof l.score !== 'number' || isNaN(l.score))) return 'Cada nível da rubrica precisa de nota e descrição curta.';
+    if (new Set(q.rubric.map(l => l.score)).size !== q.rubric.length) return 'Os níveis da rubrica precisam de notas diferentes.';
+  }
+  return null;
+};
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SCALE, MAX_SCALE_POINTS, SCALE_PRESETS, getScale, isNotApplicable, normalizeScaleValue, reversedScaleValue, scaleLabel, scalePoints, validateScale } from './scales';
+
+describe('scales', () => {
+  it('falls back to the 1-5 default for questions saved without a scale', () => {
+    expect(getScale({})).toBe(DEFAULT_SCALE);
+    expect(getScale({ scale: { min: 0, max: 10 } })).toEqual({ min: 0, max: 10 });
+  });
+
+  it('lists every point of the range', () => {
+    expect(scalePoints({ min: 1, max: 4 })).toEqual([1, 2, 3, 4]);
+    expect(scalePoints({ min: 0, max: 10 })).toHaveLength(11);
+  });
+
+  it('labels anchors only', () => {
+    expect(scaleLabel(DEFAULT_SCALE, 1)).toBe('Discordo Totalmente');
+    expect(scaleLabel(DEFAULT_SCALE, 3)).toBe('');
+  });
+
+  it('normalizes points to 0..1', () => {
+    expect(normalizeScaleValue({ min: 1, max: 7 }, 1)).toBe(0);
+    expect(normalizeScaleValue({ min: 1, max: 7 }, 4)).toBe(0.5);
+    expect(normalizeScaleValue({ min: 0, max: 10 }, 10)).toBe(1);
+    expect(normalizeScaleValue({ min: 3, max: 3 }, 3)).toBe(0);
+  });
+
+  it('mirrors points for reverse-scored items', () => {
+    expect(reversedScaleValue({ min: 1, max: 5 }, 2)).toBe(4);
+    expect(reversedScaleValue({ min: 0, max: 10 }, 10)).toBe(0);
+  });
+
+  it('validates the range', () => {
+    expect(validateScale({ min: 1, max: 5 })).toBeNull();
+    expect(validateScale({ min: 1.5, max: 5 })).toMatch(/inteiros/);
+    expect(validateScale({ min: 5, max: 5 })).toMatch(/maior que o mínimo/);
+    expect(validateScale({ min: 0, max: MAX_SCALE_POINTS })).toMatch(/no máximo/);
+  });
+
+  it('ships valid presets', () => {
+    SCALE_PRESETS.forEach(preset => expect(validateScale(preset.scale)).toBeNull());
+  });
+
+  it('recognizes "not applicable" answers', () => {
+    expect(isNotApplicable({ notApplicable: true })).toBe(true);
+    expect(isNotApplicable({ value: 3 })).toBe(false);
+    expect(isNotApplicable(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { Question, ScaleConfig } from '../types';
+
+// Scale questions answer on a configurable integer range. Questions saved
+// before scales were configurable have no 'scale' and use the 1-5 default.
+
+export const DEFAULT_SCALE: ScaleConfig = {
+  min: 1,
+  max: 5,
+  labels: { '1': 'Discordo Totalmente', '5': 'Concordo Totalmente' }
+};
+
+export const SCALE_PRESETS: { id: string; name: string; scale: ScaleConfig }[] = [
+  { id: 'agree-5', name: 'Concordância 1-5', scale: DEFAULT_SCALE },
+  {
+    id: 'forced-4',
+    name: 'Escolha forçada 1-4',
+    scale: { min: 1, max: 4, labels: { '1': 'Discordo Totalmente', '2': 'Discordo', '3': 'Concordo', '4': 'Concordo Totalmente' } }
+  },
+  {
+    id: 'agree-7',
+    name: 'Concordância 1-7',
+    scale: { min: 1, max: 7, labels: { '1': 'Discordo Totalmente', '4': 'Neutro', '7': 'Concordo Totalmente' } }
+  },
+  {
+    id: 'nps-11',
+    name: 'NPS 0-10',
+    scale: { min: 0, max: 10, labels: { '0': 'Nada provável', '10': 'Extremamente provável' } }
+  },
+  {
+    id: 'frequency-5',
+    name: 'Frequência 1-5',
+    scale: { min: 1, max: 5, labels: { '1': 'Nunca', '2': 'Raramente', '3': 'Às vezes', '4': 'Frequentemente', '5': 'Sempre' } }
+  }
+];
+
+export const MAX_SCALE_POINTS = 11;
+
+export const NOT_APPLICABLE_LABEL = 'Não se aplica';
+
+export const getScale = (q: Pick<Question, 'scale'>): ScaleConfig => q.scale || DEFAULT_SCALE;
+
+export const scalePoints = (scale: ScaleConfig): number[] =>
+  Array.from({ length: scale.max - scale.min + 1 }, (_, i) => scale.min + i);
+
+export const scaleLabel = (scale: ScaleConfig, point: number) => scale.labels?.[String(point)] || '';
+
+/** Position of a point in the range, 0..1. */
+export const normalizeScaleValue = (scale: ScaleConfig, value: number) =>
+  scale.max === scale.min ? 0 : (value - scale.min) / (scale.max - scale.min);
+
+/** The point that scores the same as 'value' once a reverse-scored item is inverted. */
+export const reversedScaleValue = (scale: ScaleConfig, value: number) => scale.min + scale.max - value;
+
+export const validateScale = (scale: ScaleConfig): string | null => {
+  if (!Number.isInteger(scale.min) || !Number.isInteger(scale.max)) return 'Os limites da escala devem ser números inteiros.';
+  if (scale.max <= scale.min) return 'O valor máximo da escala deve ser maior que o mínimo.';
+  if (scale.max - scale.min + 1 > MAX_SCALE_POINTS) return `A escala pode ter no máximo ${MAX_SCALE_POINTS} pontos.`;
+  return null;
+};
+
+export const isNotApplicable = (ans: any) => !!ans?.notApplicable;
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { Question } from '../types';
+import { SCORING_VERSION, normalizedAnswer, pickedOption, questionWeight, rankPoints, scoreAnswers, scoreSubmissionBody } from './scoring';
+
+const scale = (id: string, extra: Partial<Question> = {}): Question =>
+  ({ id, text: id, type: 'scale', categoryId: 'cat-1', category: 'Liderança', ...extra });
+
+const options = [
+  { text: 'Analisar', value: '', dimensionId: 'analytic' },
+  { text: 'Agir', value: '', dimensionId: 'driver' },
+  { text: 'Conversar', value: '', dimensionId: 'social' }
+];
+
+describe('normalizedAnswer', () => {
+  it('maps scale answers linearly over their range', () => {
+    expect(normalizedAnswer(scale('q1'), { value: 1 })).toBe(0);
+    expect(normalizedAnswer(scale('q1'), { value: 3 })).toBe(0.5);
+    expect(normalizedAnswer(scale('q1', { scale: { min: 0, max: 10 } }), { value: 7 })).toBeCloseTo(0.7);
+  });
+
+  it('inverts reverse-scored items', () => {
+    expect(normalizedAnswer(scale('q1', { reverse: true }), { value: 5 })).toBe(0);
+  });
+
+  it('leaves "not applicable" and missing answers unscored', () => {
+    expect(normalizedAnswer(scale('q1'), { notApplicable: true })).toBeNull();
+    expect(normalizedAnswer(scale('q1'), undefined)).toBeNull();
+  });
+
+  it('scores choice options by their 0-10 value and ignores profile options', () => {
+    const q: Question = { id: 'q1', text: '', type: 'choice', options: [{ text: 'A', value: '8' }] };
+    expect(normalizedAnswer(q, { text: 'A', value: '8' })).toBe(0.8);
+    expect(normalizedAnswer(q, { text: 'B', value: 'Dominante' })).toBeNull();
+  });
+
+  it('scores text answers only once reviewed', () => {
+    const q: Question = { id: 'q1', text: '', type: 'text' };
+    expect(normalizedAnswer(q, { text: 'Resposta' })).toBeNull();
+    expect(normalizedAnswer(q, { text: 'Resposta' }, { score: 4, reviewedAt: '2026-01-01' })).toBe(1);
+  });
+});
+
+describe('helpers', () => {
+  it('picks the option that describes the candidate', () => {
+    expect(pickedOption({ id: 'q', text: '', type: 'choice', variation: 'most_least' }, { most: options[0], least: options[1] })).toBe(options[0]);
+    expect(pickedOption({ id: 'q', text: '', type: 'choice', variation: 'ranking' }, { ranking: [options[2], options[0]] })).toBe(options[2]);
+  });
+
+  it('spreads ranking points from 1 to 0', () => {
+    expect([0, 1, 2].map(p => rankPoints(p, 3))).toEqual([1, 0.5, 0]);
+    expect(rankPoints(0, 1)).toBe(1);
+  });
+
+  it('treats invalid weights as 1', () => {
+    expect(questionWeight(scale('q', { weight: 3 }))).toBe(3);
+    expect(questionWeight(scale('q', { weight: 0 }))).toBe(1);
+    expect(questionWeight(scale('q'))).toBe(1);
+  });
+});
+
+describe('scoreAnswers', () => {
+  it('averages categories by weight on a 0-100 range', () => {
+    const result = scoreAnswers(
+      [scale('q1', { weight: 3 }), scale('q2')],
+      { q1: { value: 5 }, q2: { value: 1 } }
+    );
+    expect(result.version).toBe(SCORING_VERSION);
+    expect(result.categories).toEqual([{ category: 'Liderança', categoryId: 'cat-1', score: 75, count: 2 }]);
+    expect(result.answered).toBe(2);
+    expect(result.total).toBe(2);
+  });
+
+  it('tallies most/least picks and ranking points per profile dimension', () => {
+    const questions: Question[] = [
+      { id: 'm', text: '', type: 'choice', variation: 'most_least', options },
+      { id: 'r', text: '', type: 'choice', variation: 'ranking', options }
+    ];
+    const result = scoreAnswers(questions, {
+      m: { most: options[0], least: options[1] },
+      r: { ranking: [options[1], options[0], options[2]] }
+    });
+    expect(result.profileCounts).toEqual({ analytic: 1.5, driver: 1, social: 0 });
+    expect(result.profileLeastCounts).toEqual({ driver: 1, social: 1 });
+    expect(result.answered).toBe(2);
+  });
+
+  it('counts unreviewed text answers as pending', () => {
+    const result = scoreAnswers([{ id: 't', text: '', type: 'text', categoryId: 'cat-1' }], { t: { text: 'Exemplo' } });
+    expect(result.pendingReviews).toBe(1);
+    expect(result.categories).toEqual([]);
+  });
+
+  it('leaves hidden questions out, including from the total', () => {
+    const questions = [
+      scale('q1'),
+      scale('q2', { showIf: { questionId: 'q1', operator: 'equals', values: ['5'] } })
+    ];
+    const result = scoreAnswers(questions, { q1: { value: 1 }, q2: { value: 5 } });
+    expect(result.total).toBe(1);
+    expect(result.categories[0].score).toBe(0);
+  });
+
+  it('is deterministic', () => {
+    const questions = [scale('q1'), scale('q2', { reverse: true })];
+    const answers = { q1: { value: 4 }, q2: { value: 2 } };
+    expect(scoreAnswers(questions, answers)).toEqual(scoreAnswers(questions, answers));
+  });
+});
+
+describe('scoreSubmissionBody', () => {
+  it('scores the stored body and skips questions that were not shown', () => {
+    const body = [
+      { ...scale('q1'), resposta: { value: 5 } },
+      { ...scale('q2'), notShown: true, resposta: { value: 1 } }
+    ];
+    const result = scoreSubmissionBody(body);
+    expect(result.total).toBe(1);
+    expect(result.categories[0].score).toBe(100);
+  });
+});
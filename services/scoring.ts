@@ -0,0 +1,180 @@
+import { Question, ScoringResult, CategoryScore, TextAnswerReview } from '../types';
+import { getScale, isNotApplicable, normalizeScaleValue } from './scales';
+import { getRubric, normalizeRubricScore } from './rubrics';
+import { sjtScore } from './sjt';
+import { visibleQuestions } from './conditions';
+
+// Bump whenever the scoring rules change, so stored results can be told apart.
+export const SCORING_VERSION = 7; // 2: reverse-scored items and weights, 3: configurable scale ranges, 4: ranking items, 5: reviewed text answers, 6: situational judgment items, 7: conditional questions
+
+const OPTION_SCORE_MAX = 10;
+const DEFAULT_WEIGHT = 1;
+
+const isNumericValue = (value: any) =>
+  value !== undefined && value !== null && value !== '' && !isNaN(Number(value));
+
+const isProfileTag = (value: any) =>
+  typeof value === 'string' && value.trim() !== '' && isNaN(parseInt(value, 10));
+
+/** Profile key of a picked option: its dimension id or, for older answers, the profile name in 'value'. */
+export const profileKey = (q: Question, picked: any): string | null => {
+  if (!picked) return null;
+  const dimensionId = picked.dimensionId || q.options?.find(o => o.text === picked.text)?.dimensionId;
+  return dimensionId || (isProfileTag(picked.value) ? picked.value : null);
+};
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+/** The option that describes the candidate: the single pick, the 'most' pick or the top of a ranking. */
+export const pickedOption = (q: Question, ans: any) => {
+  if (!ans) return null;
+  if (q.variation === 'most_least') return ans.most || null;
+  if (q.variation === 'ranking') return ans.ranking?.[0] || null;
+  return ans;
+};
+
+/**
+ * Profile points of a ranked position (0 = first) among 'total' options:
+ * 1 for the first, falling linearly to 0 for the last, so a ranking item
+ * weighs the same as one most/least pick at the top of the tally.
+ */
+export const rankPoints = (position: number, total: number) =>
+  total > 1 ? (total - 1 - position) / (total - 1) : 1;
+
+/**
+ * Normalizes one answer to the 0..1 range, or null when it carries no score.
+ * Scale answers map their question's range linearly (inverted for
+ * reverse-scored items, null when "not applicable"); choice options map their
+ * '0'-'10' value. For most/least and ranking items only the 'most' pick or
+ * the top-ranked option describes the candidate. Text answers score only
+ * once a reviewer has rated them against the question's rubric; situational
+ * judgment answers score by distance from the expert key.
+ */
+export const normalizedAnswer = (q: Question, ans: any, review?: TextAnswerReview): number | null => {
+  if (!ans) return null;
+
+  if (q.type === 'text') {
+    return review ? normalizeRubricScore(getRubric(q), review.score) : null;
+  }
+
+  if (q.type === 'sjt') return sjtScore(q, ans);
+
+  if (q.type === 'scale') {
+    if (isNotApplicable(ans) || !isNumericValue(ans.value)) return null;
+    const normalized = normalizeScaleValue(getScale(q), Number(ans.value));
+    return q.reverse ? 1 - normalized : normalized;
+  }
+
+  if (q.type === 'choice') {
+    const picked = pickedOption(q, ans);
+    if (!picked || !isNumericValue(picked.value)) return null;
+    return Number(picked.value) / OPTION_SCORE_MAX;
+  }
+
+  return null;
+};
+
+const isAnswered = (q: Question, ans: any) => {
+  if (!ans) return false;
+  if (q.type === 'choice' && q.variation === 'most_least') return !!(ans.most && ans.least);
+  if (q.type === 'sjt') return !!(ans.best && ans.worst);
+  if (q.type === 'choice' && q.variation === 'ranking') return (ans.ranking || []).filter(Boolean).length === (q.options?.length || 0);
+  return isNotApplicable(ans) || ans.value !== undefined || ans.text !== undefined;
+};
+
+/** Weight of a question in its category average; invalid or missing weights count as 1. */
+export const questionWeight = (q: Question) =>
+  typeof q.weight === 'number' && q.weight > 0 ? q.weight : DEFAULT_WEIGHT;
+
+/**
+ * Computes weighted category scores (0-100) and profile tallies for a set of answers.
+ * Questions hidden by their display condition are left out, including from the total.
+ * The output depends only on its input, so the same submission (and the same
+ * reviews of its text answers) always produces the same result row.
+ */
+export const scoreAnswers = (
+  questions: Question[],
+  answers: Record<string, any>,
+  reviews: Record<string, TextAnswerReview> = {}
+): ScoringResult => {
+  // Keyed by category id when the question has one, by name for older snapshots
+  const categoryTotals = new Map<string, { category: string; categoryId?: string; total: number; weight: number; count: number }>();
+  const profileCounts: Record<string, number> = {};
+  const profileLeastCounts: Record<string, number> = {};
+  let answered = 0;
+  let pendingReviews = 0;
+  const shown = visibleQuestions(questions, answers);
+
+  shown.forEach(q => {
+    const ans = answers[q.id];
+    if (isAnswered(q, ans)) answered += 1;
+    if (q.type === 'text' && ans?.text && !reviews[q.id]) pendingReviews += 1;
+
+    const normalized = normalizedAnswer(q, ans, reviews[q.id]);
+    if ((q.categoryId || q.category) && normalized !== null) {
+      const key = q.categoryId || q.category!;
+      const entry = categoryTotals.get(key) || { category: q.category || '', categoryId: q.categoryId, total: 0, weight: 0, count: 0 };
+      const weight = questionWeight(q);
+      entry.total += normalized * weight;
+      entry.weight += weight;
+      entry.count += 1;
+      categoryTotals.set(key, entry);
+    }
+
+    if (q.type === 'choice' && q.variation === 'ranking' && Array.isArray(ans?.ranking)) {
+      // Every rank adds its points; the last one also counts as the 'least' pick
+      const ranking: any[] = ans.ranking;
+      ranking.forEach((option, position) => {
+        const key = profileKey(q, option);
+        if (key) profileCounts[key] = (profileCounts[key] || 0) + rankPoints(position, ranking.length);
+      });
+      const leastKey = ranking.length > 1 ? profileKey(q, ranking[ranking.length - 1]) : null;
+      if (leastKey) {
+        profileLeastCounts[leastKey] = (profileLeastCounts[leastKey] || 0) + 1;
+      }
+    } else if (q.type === 'choice' && ans) {
+      const mostKey = profileKey(q, pickedOption(q, ans));
+      if (mostKey) {
+        profileCounts[mostKey] = (profileCounts[mostKey] || 0) + 1;
+      }
+      const leastKey = q.variation === 'most_least' ? profileKey(q, ans.least) : null;
+      if (leastKey) {
+        profileLeastCounts[leastKey] = (profileLeastCounts[leastKey] || 0) + 1;
+      }
+    }
+  });
+
+  const categories: CategoryScore[] = Array.from(categoryTotals.values()).map(({ category, categoryId, total, weight, count }) => ({
+    category,
+    ...(categoryId ? { categoryId } : {}),
+    score: round((total / weight) * 100),
+    count
+  }));
+
+  // Ranking points are fractional
+  Object.keys(profileCounts).forEach(key => { profileCounts[key] = Math.round(profileCounts[key] * 100) / 100; });
+
+  return {
+    version: SCORING_VERSION,
+    categories,
+    profileCounts,
+    profileLeastCounts,
+    answered,
+    total: shown.length,
+    pendingReviews
+  };
+};
+
+/**
+ * Scores a stored submission body (questions carrying their 'resposta'),
+ * as sent to the webhook and kept in result_test, with the reviews stored next to it.
+ * Entries marked 'notShown' were skipped by their display condition.
+ */
+export const scoreSubmissionBody = (body: any[], reviews: Record<string, TextAnswerReview> = {}): ScoringResult => {
+  const questions = (body || []).filter((q: any) => !q?.notShown) as Question[];
+  const answers: Record<string, any> = {};
+  (body || []).forEach((q: any) => {
+    if (q?.id !== undefined) answers[q.id] = q.resposta;
+  });
+  return scoreAnswers(questions, answers, reviews);
+};
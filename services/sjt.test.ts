@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { Question } from '../types';
+import { effectivenessLabel, effectivenessOf, sjtScore, validateSjtQuestion } from './sjt';
+
+const question: Question = {
+  id: 'q1',
+  text: 'O que você faria?',
+  type: 'sjt',
+  scenario: 'Um cliente importante reclama de um atraso.',
+  options: [
+    { text: 'Ligar para o cliente', value: '', effectiveness: 5 },
+    { text: 'Escalar ao gestor', value: '', effectiveness: 3 },
+    { text: 'Ignorar a reclamação', value: '', effectiveness: 1 }
+  ]
+};
+
+const pick = (text: string) => ({ text });
+
+describe('sjtScore', () => {
+  it('is 1 for the top-keyed best and bottom-keyed worst pick', () => {
+    expect(sjtScore(question, { best: pick('Ligar para o cliente'), worst: pick('Ignorar a reclamação') })).toBe(1);
+  });
+
+  it('loses points with the distance of each pick from its end of the key', () => {
+    expect(sjtScore(question, { best: pick('Escalar ao gestor'), worst: pick('Ignorar a reclamação') })).toBe(0.75);
+    expect(sjtScore(question, { best: pick('Ignorar a reclamação'), worst: pick('Ligar para o cliente') })).toBe(0);
+  });
+
+  it('is null until both picks are made or when the key is flat', () => {
+    expect(sjtScore(question, { best: pick('Ligar para o cliente') })).toBeNull();
+    const flat = { ...question, options: question.options!.map(o => ({ ...o, effectiveness: 3 })) };
+    expect(sjtScore(flat, { best: pick('Ligar para o cliente'), worst: pick('Ignorar a reclamação') })).toBeNull();
+  });
+});
+
+describe('effectiveness', () => {
+  it('reads the key from the question, falling back to the stored pick', () => {
+    expect(effectivenessOf(question, pick('Escalar ao gestor'))).toBe(3);
+    expect(effectivenessOf(question, { text: 'Removida', effectiveness: 2 })).toBe(2);
+    expect(effectivenessOf(question, undefined)).toBeUndefined();
+  });
+
+  it('labels the levels', () => {
+    expect(effectivenessLabel(5)).toBe('Muito eficaz');
+    expect(effectivenessLabel(undefined)).toBe('');
+  });
+});
+
+describe('validateSjtQuestion', () => {
+  it('accepts a complete question', () => {
+    expect(validateSjtQuestion(question)).toBeNull();
+  });
+
+  it('requires a scenario, three actions and a varied key', () => {
+    expect(validateSjtQuestion({ ...question, scenario: ' ' })).toMatch(/cenário/);
+    expect(validateSjtQuestion({ ...question, options: question.options!.slice(0, 2) })).toMatch(/3 ações/);
+    expect(validateSjtQuestion({ ...question, options: [...question.options!.slice(0, 2), { text: 'Esperar', value: '' }] })).toMatch(/gabarito/);
+    expect(validateSjtQuestion({ ...question, options: question.options!.map(o => ({ ...o, effectiveness: 4 })) })).toMatch(/eficácias diferentes/);
+  });
+});
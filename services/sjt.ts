@@ -0,0 +1,56 @@
+import { Question } from '../types';
+
+// Situational judgment items: each action is keyed by experts with an
+// effectiveness rating and the candidate picks the best and the worst action.
+// The score is how close both picks land to the key, not a profile tally.
+
+export const EFFECTIVENESS_LEVELS = [
+  { value: 1, label: 'Muito ineficaz' },
+  { value: 2, label: 'Ineficaz' },
+  { value: 3, label: 'Neutra' },
+  { value: 4, label: 'Eficaz' },
+  { value: 5, label: 'Muito eficaz' }
+];
+
+export const effectivenessLabel = (value: number | undefined) =>
+  EFFECTIVENESS_LEVELS.find(l => l.value === value)?.label || '';
+
+/** Expert key of a picked action, looked up on the question's options by text. */
+export const effectivenessOf = (q: Question, picked: any): number | undefined => {
+  if (!picked) return undefined;
+  const keyed = q.options?.find(o => o.text === picked.text)?.effectiveness ?? picked.effectiveness;
+  return typeof keyed === 'number' ? keyed : undefined;
+};
+
+const keyRange = (q: Question) => {
+  const values = (q.options || []).map(o => o.effectiveness).filter((v): v is number => typeof v === 'number');
+  return values.length > 0 ? { min: Math.min(...values), max: Math.max(...values) } : null;
+};
+
+/**
+ * 0..1: 1 when the best pick is a top-keyed action and the worst pick a
+ * bottom-keyed one; each pick loses points in proportion to its distance from
+ * that end of the key. Null until both picks are made or when the key is flat.
+ */
+export const sjtScore = (q: Question, ans: any): number | null => {
+  const range = keyRange(q);
+  const best = effectivenessOf(q, ans?.best);
+  const worst = effectivenessOf(q, ans?.worst);
+  if (!range || range.max === range.min || best === undefined || worst === undefined) return null;
+
+  const spread = range.max - range.min;
+  const bestDistance = (range.max - best) / spread;
+  const worstDistance = (worst - range.min) / spread;
+  return 1 - (bestDistance + worstDistance) / 2;
+};
+
+export const validateSjtQuestion = (q: Question): string | null => {
+  const options = q.options || [];
+  if (!q.scenario?.trim()) return 'Descreva o cenário da questão situacional.';
+  if (options.length < 3) return 'Questões situacionais precisam de pelo menos 3 ações.';
+  if (options.some(o => !o.text?.trim())) return 'Todas as ações precisam de um texto.';
+  if (options.some(o => !EFFECTIVENESS_LEVELS.some(l => l.value === o.effectiveness))) return 'Classifique a eficácia de todas as ações de 1 a 5 (gabarito).';
+  const range = keyRange(q);
+  if (!range || range.max === range.min) return 'O gabarito precisa de ações com eficácias diferentes.';
+  return null;
+};
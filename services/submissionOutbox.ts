@@ -0,0 +1,75 @@
+import { supabase } from '../supabaseClient';
+import { OutboxEntry, WebhookEvent } from '../types';
+
+// Every webhook delivery is stored as an outbox record before it is sent, and
+// every attempt is logged on it. Entries are created and sent by the
+// deliver-webhooks edge function, which alone reads the webhook secrets.
+
+export const mapOutboxRow = (row: any): OutboxEntry => ({
+  id: row.id,
+  candidateId: row.candidate_id,
+  testId: row.test_id,
+  assignmentId: row.assignment_id,
+  resultId: row.result_id,
+  webhookId: row.webhook_id,
+  event: row.event || 'completed',
+  targetUrl: row.target_url,
+  payload: row.payload || {},
+  status: row.status,
+  attempts: row.attempts || 0,
+  lastStatusCode: row.last_status_code,
+  lastError: row.last_error,
+  lastResponseBody: row.last_response_body,
+  createdAt: row.created_at,
+  deliveredAt: row.delivered_at
+});
+
+interface DeliveryReport {
+  deliveries: OutboxEntry[];
+  completed: boolean; // whether the assignment is now marked completed
+}
+
+const invokeDelivery = async (body: Record<string, any>) => {
+  const { data, error } = await supabase.functions.invoke('deliver-webhooks', { body });
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Asks the deliver-webhooks edge function to announce an event of an
+ * assignment to the test's webhooks. For 'completed' it also marks the
+ * assignment completed once every webhook acknowledged.
+ */
+export const requestDelivery = async (event: WebhookEvent, assignmentId: string): Promise<DeliveryReport> => {
+  const data = await invokeDelivery({ event, assignmentId });
+  return { deliveries: (data.deliveries || []).map(mapOutboxRow), completed: !!data.completed };
+};
+
+/** Sends one outbox entry again (admins only). */
+export const resendDelivery = async (deliveryId: string): Promise<{ delivery: OutboxEntry; completed: boolean }> => {
+  const data = await invokeDelivery({ deliveryId });
+  return { delivery: mapOutboxRow(data.delivery), completed: !!data.completed };
+};
+
+export const fetchOpenSubmissions = async () => {
+  const { data, error } = await supabase
+    .from('submission_outbox')
+    .select('*, profiles:candidate_id (name, email), tests:test_id (title)')
+    .neq('status', 'delivered')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchWebhookDeliveries = async (webhookId: string, limit = 20): Promise<OutboxEntry[]> => {
+  const { data, error } = await supabase
+    .from('submission_outbox')
+    .select('*')
+    .eq('webhook_id', webhookId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []).map(mapOutboxRow);
+};
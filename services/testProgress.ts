@@ -0,0 +1,56 @@
+import { supabase } from '../supabaseClient';
+import { TestProgress } from '../types';
+
+// Partial answers are autosaved per assignment so an interrupted attempt can be
+// resumed on the exact question where the candidate stopped, while a test
+// assigned again starts clean.
+
+export const loadProgress = async (assignmentId: string): Promise<TestProgress | null> => {
+  const { data, error } = await supabase
+    .from('test_progress')
+    .select('*')
+    .eq('assignment_id', assignmentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return {
+    assignmentId: data.assignment_id,
+    candidateId: data.candidate_id,
+    testId: data.test_id,
+    answers: data.answers || {},
+    currentStep: data.current_step || 0,
+    shuffleSeed: data.shuffle_seed ?? null,
+    questionTimes: data.question_times || {},
+    integrityEvents: data.integrity_events || [],
+    updatedAt: data.updated_at
+  };
+};
+
+export const saveProgress = async (progress: TestProgress): Promise<void> => {
+  const { error } = await supabase
+    .from('test_progress')
+    .upsert({
+      assignment_id: progress.assignmentId,
+      candidate_id: progress.candidateId,
+      test_id: progress.testId,
+      answers: progress.answers,
+      current_step: progress.currentStep,
+      shuffle_seed: progress.shuffleSeed ?? null,
+      question_times: progress.questionTimes || {},
+      integrity_events: progress.integrityEvents || [],
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'assignment_id' });
+
+  if (error) throw error;
+};
+
+export const clearProgress = async (assignmentId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('test_progress')
+    .delete()
+    .eq('assignment_id', assignmentId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Category, Test } from '../types';
+import { exportFileName, exportTestToCsv, exportTestToJson, parseCsv, parseTestCsv, parseTestJson, TEST_FORMAT } from './testTransfer';
+
+// Categories are looked up in memory here; the client is never called
+vi.mock('../supabaseClient', () => ({ supabase: {} }));
+
+const categories: Category[] = [
+  { id: 'cat-lead', name: 'Liderança', color: '#059669', displayOrder: 1, active: true, aliases: ['Gestão de pessoas'] }
+];
+
+const test: Test = {
+  id: 't1',
+  title: 'Avaliação de Liderança',
+  description: 'Perfil comportamental',
+  active: true,
+  sections: [{ id: 's1', title: 'Parte 1; estilo', intro: '' }],
+  questions: [
+    {
+      id: 'q1', text: 'Eu delego tarefas com "clareza"', type: 'scale', category: 'Liderança', categoryId: 'cat-lead',
+      sectionId: 's1', reverse: true, weight: 2, scale: { min: 1, max: 7, labels: { '1': 'Discordo', '7': 'Concordo' } }
+    },
+    {
+      id: 'q2', text: 'Quando há conflito', type: 'choice', category: 'Liderança', categoryId: 'cat-lead', variation: 'single', sectionId: 's1',
+      options: [{ text: 'Converso', value: '8' }, { text: 'Espero', value: '2' }],
+      showIf: { questionId: 'q1', operator: 'in', values: ['6', '7'] }
+    }
+  ]
+};
+
+describe('JSON exchange', () => {
+  it('round-trips a test and links categories by name', () => {
+    const preview = parseTestJson(exportTestToJson(test), categories);
+
+    expect(preview.issues).toEqual([]);
+    expect(preview.title).toBe(test.title);
+    expect(preview.sections).toEqual([{ id: 's1', title: 'Parte 1; estilo', intro: '' }]);
+    expect(preview.questions).toEqual(test.questions);
+    expect(preview.questionRows).toEqual([1, 2]);
+  });
+
+  it('rejects unknown formats and invalid JSON', () => {
+    expect(parseTestJson('{', categories).issues[0].message).toMatch(/^JSON inválido/);
+    expect(parseTestJson(JSON.stringify({ format: 'other' }), categories).issues[0].message).toContain(TEST_FORMAT);
+  });
+
+  it('reports invalid questions by position', () => {
+    const file = JSON.stringify({
+      format: TEST_FORMAT,
+      formatVersion: 1,
+      test: {
+        title: 'X',
+        questions: [
+          { id: 'a', text: 'Ok', type: 'scale', category: 'Gestão de pessoas' },
+          { id: 'b', text: 'Escolha', type: 'choice', category: 'Vendas', options: [{ text: 'A', value: '15' }] }
+        ]
+      }
+    });
+    const preview = parseTestJson(file, categories);
+
+    expect(preview.questions[0]).toMatchObject({ categoryId: 'cat-lead', category: 'Liderança' });
+    expect(preview.issues.map(i => i.row)).toEqual([2, 2, 2]);
+    expect(preview.issues.map(i => i.message)).toEqual([
+      'Categoria desconhecida "Vendas".',
+      'Perguntas de escolha precisam de pelo menos 2 opções.',
+      'Opção 1: valor 15 fora da faixa 0-10.'
+    ]);
+  });
+
+  it('gives repeated question ids a fresh one', () => {
+    const file = JSON.stringify({
+      format: TEST_FORMAT,
+      formatVersion: 1,
+      test: { title: 'X', questions: [{ id: 'q', text: 'A', type: 'scale' }, { id: 'q', text: 'B', type: 'scale' }] }
+    });
+    expect(parseTestJson(file, categories).questions.map(q => q.id)).toEqual(['q', 'q-2']);
+  });
+
+  it('points conditions at the renamed question they followed', () => {
+    const file = JSON.stringify({
+      format: TEST_FORMAT,
+      formatVersion: 1,
+      test: {
+        title: 'X',
+        questions: [
+          { id: 'q', text: 'A', type: 'scale' },
+          { id: 'q', text: 'B', type: 'scale' },
+          { id: 'd', text: 'C', type: 'text', showIf: { questionId: 'q', operator: 'equals', values: ['5'] } }
+        ]
+      }
+    });
+    const preview = parseTestJson(file, categories);
+    expect(preview.questions.map(q => q.id)).toEqual(['q', 'q-2', 'd']);
+    expect(preview.questions[2].showIf?.questionId).toBe('q-2');
+    expect(preview.issues).toEqual([]);
+  });
+
+  it('keeps weights on scale questions only', () => {
+    const file = JSON.stringify({
+      format: TEST_FORMAT,
+      formatVersion: 1,
+      test: {
+        title: 'X',
+        questions: [
+          { id: 'a', text: 'A', type: 'scale', weight: 2 },
+          { id: 'b', text: 'B', type: 'choice', weight: 3, options: ['Sim', 'Não'] },
+          { id: 'c', text: 'C', type: 'text', weight: '0,5' }
+        ]
+      }
+    });
+    expect(parseTestJson(file, categories).questions.map(q => q.weight)).toEqual([2, undefined, undefined]);
+  });
+});
+
+describe('CSV exchange', () => {
+  it('parses quoted cells and detects the separator', () => {
+    expect(parseCsv('\uFEFFa;b\r\n"x;""y""";z\n')).toEqual([['a', 'b'], ['x;"y"', 'z']]);
+    expect(parseCsv('a,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('round-trips questions, options, sections and conditions', () => {
+    const preview = parseTestCsv(exportTestToCsv(test), 'lideranca.csv', categories);
+
+    expect(preview.issues).toEqual([]);
+    expect(preview.title).toBe('lideranca');
+    expect(preview.sections).toEqual([{ id: 'sec1', title: 'Parte 1; estilo', intro: '' }]);
+    expect(preview.questions).toEqual(test.questions.map(q => ({ ...q, sectionId: 'sec1' })));
+    expect(preview.questionRows).toEqual([2, 3]);
+  });
+
+  it('reports missing header columns', () => {
+    const preview = parseTestCsv('question_id;question_text\nq1;Texto', 'x.csv', categories);
+    expect(preview.questions).toEqual([]);
+    expect(preview.issues[0].message).toContain('category, type, variation, option_text, option_value');
+  });
+});
+
+describe('exportFileName', () => {
+  it('slugs the title without accents', () => {
+    expect(exportFileName(test, 'json')).toBe('avaliacao-de-lideranca.json');
+    expect(exportFileName({ ...test, title: '!!!' }, 'csv')).toBe('teste.csv');
+  });
+});
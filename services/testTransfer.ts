@@ -0,0 +1,537 @@
+import { Category, ImportIssue, ImportPreview, ProfileModel, Question, QuestionCondition, QuestionOption, Randomization, Test, TestSection } from '../types';
+import { applyCategories, findCategory } from './categories';
+import { findDimension, migrateLegacyProfiles, modelForDimensionNames } from './profileModels';
+import { validateScale } from './scales';
+import { validateTextQuestion } from './rubrics';
+import { validateSjtQuestion } from './sjt';
+import { validateCondition } from './conditions';
+import { orderBySection } from './candidateFlow';
+import { isRandomized } from './randomization';
+import { validateTimeLimit } from './timing';
+
+/*
+ * Test exchange formats.
+ *
+ * JSON ("saveco-test", formatVersion 1):
+ *   {
+ *     "format": "saveco-test",
+ *     "formatVersion": 1,
+ *     "exportedAt": "2026-01-01T12:00:00.000Z",
+ *     "test": {
+ *       "title": "Avaliação de Liderança",
+ *       "description": "...",
+ *       "sourceVersion": 3,                  // published version, null for drafts
+ *       "profileModel": { "id": "disc", "name": "DISC", "dimensions": [{ "id": "d", "name": "Dominância", ... }] },
+ *       "randomization": { "questions": "within_sections", "options": true },   // optional
+ *       "timeLimit": { "minutes": 30, "onExpiry": "submit" },                 // optional
+ *       "integrity": { "warnOnLeave": true },                                  // optional
+ *       "sections": [{ "id": "s1", "title": "Parte 1 – Estilo de trabalho", "intro": "...", "instructions": "...", "questionsPerPage": 3 }],
+ *       "questions": [
+ *         { "id": "q1", "text": "...", "category": "Liderança e Gestão", "type": "scale", "sectionId": "s1", "pairKey": "pontualidade",
+ *           "scale": { "min": 1, "max": 7, "labels": { "1": "Discordo", "7": "Concordo" }, "allowNotApplicable": true } },
+ *         { "id": "q2", "text": "...", "category": "...", "type": "choice", "variation": "most_least",
+ *           "options": [{ "text": "...", "value": "", "dimensionId": "d" }, { "text": "...", "value": "7" }] },
+ *         { "id": "q3", "text": "Descreva uma situação em que...", "type": "text", "minLength": 200, "maxLength": 1500,
+ *           "rubric": [{ "score": 1, "label": "Insuficiente" }, { "score": 4, "label": "Excelente", "description": "..." }] },
+ *         { "id": "q4", "text": "O que você faria?", "type": "sjt", "scenario": "Um cliente importante...",
+ *           "showIf": { "questionId": "q2", "operator": "in", "values": ["Sim", "Às vezes"] },
+ *           "options": [{ "text": "...", "value": "", "effectiveness": 5 }, { "text": "...", "value": "", "effectiveness": 1 }, ...] }
+ *       ]
+ *     }
+ *   }
+ *
+ * CSV (';' separated, UTF-8, one row per option; scale and text questions use a single
+ * row with empty option columns). Rows sharing a question_id form one question:
+ *   question_id;question_text;category;type;variation;option_text;option_value;option_dimension;reverse;weight;
+ *   scale_min;scale_max;scale_labels;scale_not_applicable;min_length;max_length;scenario;option_effectiveness;section;show_if;
+ *   pair_key;social_desirability
+ * Columns from 'option_dimension' on are optional on import. 'option_dimension'
+ * holds the profile dimension name; 'reverse' ('1' or empty) and 'weight' apply
+ * to scale questions. Scale columns default to 1-5; 'scale_labels' lists anchors
+ * as "1=Discordo|5=Concordo". 'min_length' and 'max_length' apply to text
+ * questions, whose rubric only travels in JSON (CSV imports use the default one).
+ * 'scenario' and 'option_effectiveness' (the 1-5 expert key) apply to sjt questions.
+ * 'section' holds the section title; CSV imports create one section per title,
+ * in order of appearance, while intros and page sizes only travel in JSON.
+ * 'show_if' makes the question conditional on an earlier one, as
+ * "question_id=value" or "question_id=value1|value2" for a set of values.
+ * 'pair_key' and 'social_desirability' ('1' or empty) mark scale questions used
+ * by the response validity indicators.
+ *
+ * Option values are a score ('0'-'10') or empty; files from before profile
+ * models may hold a profile name there, which becomes a dimension. Categories
+ * are exchanged by name and linked on import to the category with that name
+ * (or a former name), since ids differ between installations.
+ */
+
+export const TEST_FORMAT = 'saveco-test';
+export const TEST_FORMAT_VERSION = 1;
+
+const CSV_COLUMNS = ['question_id', 'question_text', 'category', 'type', 'variation', 'option_text', 'option_value'];
+const CSV_OPTIONAL_COLUMNS = ['option_dimension', 'reverse', 'weight', 'scale_min', 'scale_max', 'scale_labels', 'scale_not_applicable', 'min_length', 'max_length', 'scenario', 'option_effectiveness', 'section', 'show_if', 'pair_key', 'social_desirability'];
+const CSV_SEPARATOR = ';';
+
+// --- Export ---
+
+export const exportTestToJson = (test: Test): string => JSON.stringify({
+  format: TEST_FORMAT,
+  formatVersion: TEST_FORMAT_VERSION,
+  exportedAt: new Date().toISOString(),
+  test: {
+    title: test.title,
+    description: test.description || '',
+    sourceVersion: test.has_draft_changes ? null : test.published_version ?? null,
+    profileModel: test.profile_model || null,
+    sections: test.sections || [],
+    randomization: test.randomization || null,
+    timeLimit: test.time_limit || null,
+    integrity: test.integrity || null,
+    questions: test.questions || []
+  }
+}, null, 2);
+
+const csvCell = (value: any) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatScaleLabels = (labels?: Record<string, string>) =>
+  Object.entries(labels || {}).map(([point, label]) => `${point}=${label}`).join('|');
+
+const formatCondition = (condition?: QuestionCondition) =>
+  condition ? `${condition.questionId}=${condition.values.join('|')}` : '';
+
+const parseCondition = (text: string): QuestionCondition | undefined => {
+  const [questionId, ...rest] = text.split('=');
+  if (!questionId.trim() || rest.length === 0) return undefined;
+  const values = rest.join('=').split('|').map(v => v.trim()).filter(Boolean);
+  return { questionId: questionId.trim(), operator: values.length > 1 ? 'in' : 'equals', values };
+};
+
+const parseScaleLabels = (text: string): Record<string, string> =>
+  Object.fromEntries(text.split('|')
+    .map(part => part.split('='))
+    .filter(([point, ...label]) => point.trim() !== '' && label.join('=').trim() !== '')
+    .map(([point, ...label]) => [String(parseInt(point, 10)), label.join('=').trim()]));
+
+export const exportTestToCsv = (test: Test): string => {
+  const lines = [[...CSV_COLUMNS, ...CSV_OPTIONAL_COLUMNS].join(CSV_SEPARATOR)];
+
+  (test.questions || []).forEach(q => {
+    const section = (test.sections || []).find(s => s.id === q.sectionId);
+    const base = [q.id, q.text, q.category || '', q.type, q.type === 'choice' ? q.variation || 'single' : ''];
+    const scoringColumns = [
+      q.reverse ? '1' : '',
+      q.weight ?? '',
+      q.scale?.min ?? '',
+      q.scale?.max ?? '',
+      formatScaleLabels(q.scale?.labels),
+      q.scale?.allowNotApplicable ? '1' : '',
+      q.minLength ?? '',
+      q.maxLength ?? '',
+      q.scenario ?? ''
+    ];
+    const options = (q.type === 'choice' || q.type === 'sjt') && q.options?.length ? q.options : [null];
+    options.forEach(opt => {
+      const dimension = findDimension(test.profile_model, opt?.dimensionId);
+      lines.push([...base, opt?.text ?? '', opt?.value ?? '', dimension?.name ?? '', ...scoringColumns, opt?.effectiveness ?? '', section?.title ?? '', formatCondition(q.showIf), q.pairKey ?? '', q.socialDesirability ? '1' : ''].map(csvCell).join(CSV_SEPARATOR));
+    });
+  });
+
+  // BOM so spreadsheet tools detect UTF-8 accents
+  return '\uFEFF' + lines.join('\r\n');
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportFileName = (test: Test, extension: string) => {
+  const slug = test.title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'teste'}.${extension}`;
+};
+
+// --- Validation ---
+
+const validateQuestion = (q: Question, row: number, categories: Category[], profileModel: ProfileModel | null): ImportIssue[] => {
+  const issues: ImportIssue[] = [];
+  const add = (message: string) => issues.push({ row, message });
+
+  if (!q.text?.trim()) add('Texto da pergunta vazio.');
+  if (!['scale', 'choice', 'text', 'sjt'].includes(q.type)) add(`Tipo inválido "${q.type}" (use "scale", "choice", "text" ou "sjt").`);
+  if (q.weight !== undefined && !(q.weight > 0)) add('Peso inválido (use um número maior que zero).');
+  if (q.type === 'sjt') {
+    const sjtError = validateSjtQuestion(q);
+    if (sjtError) add(sjtError);
+  }
+  if (q.type === 'text') {
+    const textError = validateTextQuestion(q);
+    if (textError) add(textError);
+  }
+  if (q.type === 'scale' && q.scale) {
+    const scaleError = validateScale(q.scale);
+    if (scaleError) add(scaleError);
+  }
+  if (q.category && !findCategory(categories, { category: q.category })) add(`Categoria desconhecida "${q.category}".`);
+
+  if (q.type === 'choice') {
+    if (q.variation && !['single', 'most_least', 'ranking'].includes(q.variation)) {
+      add(`Variação inválida "${q.variation}" (use "single", "most_least" ou "ranking").`);
+    }
+    if (!q.options || q.options.length < 2) add('Perguntas de escolha precisam de pelo menos 2 opções.');
+    q.options?.forEach((opt, idx) => {
+      if (!opt.text?.trim()) add(`Opção ${idx + 1} sem texto.`);
+      const numeric = Number(opt.value);
+      if (opt.value && !isNaN(numeric) && (numeric < 0 || numeric > 10)) {
+        add(`Opção ${idx + 1}: valor ${opt.value} fora da faixa 0-10.`);
+      }
+      if (opt.dimensionId && !findDimension(profileModel, opt.dimensionId)) {
+        add(`Opção ${idx + 1}: dimensão de perfil "${opt.dimensionId}" não existe no modelo.`);
+      }
+    });
+  }
+
+  return issues;
+};
+
+const normalizeQuestion = (raw: any, fallbackId: string): Question => {
+  const type = raw?.type;
+  const question: Question = {
+    id: raw?.id ? String(raw.id) : fallbackId,
+    text: String(raw?.text ?? '').trim(),
+    category: raw?.category ? String(raw.category).trim() : '',
+    type
+  };
+  if (raw?.sectionId) question.sectionId = String(raw.sectionId);
+  if (raw?.showIf && typeof raw.showIf === 'object') {
+    question.showIf = {
+      questionId: String(raw.showIf.questionId ?? ''),
+      operator: raw.showIf.operator === 'in' ? 'in' : 'equals',
+      values: Array.isArray(raw.showIf.values) ? raw.showIf.values.map(String) : []
+    };
+  }
+  if (type === 'scale' && raw?.reverse && raw.reverse !== '0' && raw.reverse !== 'false') question.reverse = true;
+  if (type === 'scale' && raw?.pairKey) question.pairKey = String(raw.pairKey).trim();
+  if (type === 'scale' && raw?.socialDesirability && raw.socialDesirability !== '0' && raw.socialDesirability !== 'false') question.socialDesirability = true;
+  if (type === 'scale' && raw?.weight !== undefined && raw.weight !== null && raw.weight !== '') question.weight = Number(String(raw.weight).replace(',', '.'));
+  if (type === 'scale' && raw?.scale && typeof raw.scale === 'object') {
+    question.scale = {
+      min: Number(raw.scale.min ?? 1),
+      max: Number(raw.scale.max ?? 5),
+      ...(raw.scale.labels && typeof raw.scale.labels === 'object' ? { labels: raw.scale.labels } : {}),
+      ...(raw.scale.allowNotApplicable ? { allowNotApplicable: true } : {})
+    };
+  }
+  if (type === 'text') {
+    const length = (value: any) => value !== undefined && value !== null && value !== '' ? Number(value) : undefined;
+    if (length(raw?.minLength) !== undefined) question.minLength = length(raw.minLength);
+    if (length(raw?.maxLength) !== undefined) question.maxLength = length(raw.maxLength);
+    if (Array.isArray(raw?.rubric)) {
+      question.rubric = raw.rubric.map((l: any) => ({
+        score: Number(l?.score),
+        label: String(l?.label ?? '').trim(),
+        ...(l?.description ? { description: String(l.description) } : {})
+      }));
+    }
+  }
+  if (type === 'sjt') question.scenario = String(raw?.scenario ?? '').trim();
+  if (type === 'choice' || type === 'sjt') {
+    if (type === 'choice') question.variation = raw?.variation || 'single';
+    question.options = (raw?.options || []).map((o: any): QuestionOption =>
+      typeof o === 'string'
+        ? { text: o, value: '' }
+        : {
+            text: String(o?.text ?? '').trim(),
+            value: String(o?.value ?? '').trim(),
+            ...(o?.dimensionId ? { dimensionId: String(o.dimensionId) } : {}),
+            ...(type === 'sjt' && o?.effectiveness !== undefined && o.effectiveness !== '' ? { effectiveness: Number(o.effectiveness) } : {})
+          }
+    );
+  }
+  return question;
+};
+
+// Conditions can only be checked once every question of the file is known
+const conditionIssues = (preview: ImportPreview): ImportIssue[] => {
+  const ordered = orderBySection(preview.questions, preview.sections);
+  return preview.questions
+    .map((q, idx) => ({ row: preview.questionRows[idx], message: validateCondition(q, ordered) }))
+    .filter((issue): issue is ImportIssue => !!issue.message);
+};
+
+const normalizeRandomization = (raw: any): Randomization | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const randomization: Randomization = {
+    questions: ['all', 'within_sections'].includes(raw.questions) ? raw.questions : 'fixed',
+    options: !!raw.options
+  };
+  return isRandomized(randomization) ? randomization : null;
+};
+
+const normalizeSection = (raw: any, idx: number): TestSection => ({
+  id: raw?.id ? String(raw.id) : `sec${Date.now()}${idx}`,
+  title: String(raw?.title ?? '').trim(),
+  intro: String(raw?.intro ?? ''),
+  ...(raw?.instructions ? { instructions: String(raw.instructions) } : {}),
+  ...(Number(raw?.questionsPerPage) > 0 ? { questionsPerPage: Math.floor(Number(raw.questionsPerPage)) } : {})
+});
+
+// Imported questions get fresh ids when the file repeats one; a condition
+// follows the latest question that went by its source id before it
+const dedupeIds = (questions: Question[]) => {
+  const seen = new Set<string>();
+  const renamed = new Map<string, string>();
+  questions.forEach((q, idx) => {
+    const target = q.showIf && renamed.get(q.showIf.questionId);
+    if (q.showIf && target) q.showIf = { ...q.showIf, questionId: target };
+    const original = q.id;
+    if (seen.has(q.id)) q.id = `${q.id}-${idx + 1}`;
+    seen.add(q.id);
+    renamed.set(original, q.id);
+  });
+};
+
+// --- Import: JSON ---
+
+export const parseTestJson = (content: string, categories: Category[]): ImportPreview => {
+  const preview: ImportPreview = { title: '', description: '', questions: [], questionRows: [], issues: [], profileModel: null, sections: [], randomization: null, timeLimit: null, integrity: null };
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err: any) {
+    preview.issues.push({ row: 0, message: `JSON inválido: ${err.message}` });
+    return preview;
+  }
+
+  if (parsed?.format !== TEST_FORMAT) {
+    preview.issues.push({ row: 0, message: `Formato não reconhecido (esperado "${TEST_FORMAT}").` });
+    return preview;
+  }
+  if (parsed.formatVersion > TEST_FORMAT_VERSION) {
+    preview.issues.push({ row: 0, message: `Versão de formato ${parsed.formatVersion} não suportada.` });
+    return preview;
+  }
+
+  const test = parsed.test || {};
+  preview.title = String(test.title || '');
+  preview.description = String(test.description || '');
+
+  if (!Array.isArray(test.questions)) {
+    preview.issues.push({ row: 0, message: 'O campo "test.questions" deve ser uma lista.' });
+    return preview;
+  }
+
+  const fileModel = test.profileModel;
+  if (fileModel && !Array.isArray(fileModel.dimensions)) {
+    preview.issues.push({ row: 0, message: 'O campo "test.profileModel.dimensions" deve ser uma lista.' });
+    return preview;
+  }
+
+  if (test.sections !== undefined && !Array.isArray(test.sections)) {
+    preview.issues.push({ row: 0, message: 'O campo "test.sections" deve ser uma lista.' });
+    return preview;
+  }
+  preview.sections = (test.sections || []).map(normalizeSection);
+  preview.randomization = normalizeRandomization(test.randomization);
+  preview.timeLimit = test.timeLimit ? { minutes: Number(test.timeLimit.minutes), onExpiry: test.timeLimit.onExpiry === 'lock' ? 'lock' : 'submit' } : null;
+  preview.integrity = test.integrity?.warnOnLeave ? { warnOnLeave: true } : null;
+  const timeLimitIssue = validateTimeLimit(preview.timeLimit);
+  if (timeLimitIssue) preview.issues.push({ row: 0, message: timeLimitIssue });
+  preview.sections.forEach((section, idx) => {
+    if (!section.title) preview.issues.push({ row: 0, message: `A seção ${idx + 1} não tem título.` });
+  });
+
+  const normalized = test.questions.map((raw: any, idx: number) => normalizeQuestion(raw, `q${Date.now()}${idx}`));
+  const migrated = migrateLegacyProfiles(normalized, fileModel || null);
+  preview.profileModel = migrated.profileModel;
+
+  migrated.questions.forEach((question, idx) => {
+    preview.questions.push(question);
+    preview.questionRows.push(idx + 1);
+    preview.issues.push(...validateQuestion(question, idx + 1, categories, preview.profileModel));
+    if (question.sectionId && !preview.sections.some(s => s.id === question.sectionId)) {
+      preview.issues.push({ row: idx + 1, message: `Seção "${question.sectionId}" não existe em "test.sections".` });
+    }
+  });
+  dedupeIds(preview.questions);
+  preview.questions = applyCategories(preview.questions, categories);
+  preview.issues.push(...conditionIssues(preview));
+
+  return preview;
+};
+
+// --- Import: CSV ---
+
+/** RFC 4180 parser; the separator (';' or ',') is detected from the header line. */
+export const parseCsv = (content: string): string[][] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const separator = firstLine.split(';').length >= firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Scale columns are only read when a row fills one of them
+const csvScale = (cells: string[], col: (cells: string[], name: string) => string) => {
+  const min = col(cells, 'scale_min');
+  const max = col(cells, 'scale_max');
+  const labels = col(cells, 'scale_labels');
+  const notApplicable = col(cells, 'scale_not_applicable');
+  if (!min && !max && !labels && !notApplicable) return undefined;
+  return {
+    min: min ? Number(min) : 1,
+    max: max ? Number(max) : 5,
+    labels: labels ? parseScaleLabels(labels) : undefined,
+    allowNotApplicable: !!notApplicable && notApplicable !== '0' && notApplicable !== 'false'
+  };
+};
+
+export const parseTestCsv = (content: string, fileName: string, categories: Category[]): ImportPreview => {
+  const preview: ImportPreview = {
+    title: fileName.replace(/\.csv$/i, ''),
+    description: '',
+    questions: [],
+    questionRows: [],
+    issues: [],
+    profileModel: null,
+    sections: [],
+    randomization: null,
+    timeLimit: null,
+    integrity: null
+  };
+
+  const rows = parseCsv(content);
+  const header = (rows[0] || []).map(h => h.trim().toLowerCase());
+  const missing = CSV_COLUMNS.filter(c => !header.includes(c));
+  if (missing.length > 0) {
+    preview.issues.push({ row: 1, message: `Colunas ausentes no cabeçalho: ${missing.join(', ')}.` });
+    return preview;
+  }
+  const col = (cells: string[], name: string) => (cells[header.indexOf(name)] ?? '').trim();
+
+  // Sections are created on first mention of their title
+  const csvSection = (title: string) => {
+    if (!title) return undefined;
+    let section = preview.sections.find(s => s.title === title);
+    if (!section) {
+      section = { id: `sec${preview.sections.length + 1}`, title, intro: '' };
+      preview.sections.push(section);
+    }
+    return section.id;
+  };
+
+  const byId = new Map<string, Question>();
+  const dimensionNames = new Map<QuestionOption, string>();
+  let previousKey = '';
+
+  rows.slice(1).forEach((cells, idx) => {
+    const rowNumber = idx + 2;
+    if (cells.every(c => c.trim() === '')) return;
+
+    // Rows without question_id continue the previous question while the text repeats
+    const text = col(cells, 'question_text');
+    const key = col(cells, 'question_id') || (byId.get(previousKey)?.text === text ? previousKey : `row${rowNumber}`);
+    previousKey = key;
+
+    let question = byId.get(key);
+    if (!question) {
+      question = normalizeQuestion({
+        id: key,
+        text,
+        category: col(cells, 'category'),
+        type: col(cells, 'type'),
+        variation: col(cells, 'variation') || undefined,
+        reverse: col(cells, 'reverse'),
+        weight: col(cells, 'weight'),
+        scale: csvScale(cells, col),
+        minLength: col(cells, 'min_length'),
+        maxLength: col(cells, 'max_length'),
+        scenario: col(cells, 'scenario'),
+        sectionId: csvSection(col(cells, 'section')),
+        showIf: parseCondition(col(cells, 'show_if')),
+        pairKey: col(cells, 'pair_key'),
+        socialDesirability: col(cells, 'social_desirability'),
+        options: []
+      }, key);
+      byId.set(key, question);
+      preview.questions.push(question);
+      preview.questionRows.push(rowNumber);
+    } else if (text && text !== question.text) {
+      preview.issues.push({ row: rowNumber, message: `Texto diferente para a pergunta "${key}" já definida.` });
+    }
+
+    const optionText = col(cells, 'option_text');
+    const optionValue = col(cells, 'option_value');
+    const optionDimension = header.includes('option_dimension') ? col(cells, 'option_dimension') : '';
+    const optionEffectiveness = header.includes('option_effectiveness') ? col(cells, 'option_effectiveness') : '';
+    if ((question.type === 'choice' || question.type === 'sjt') && (optionText || optionValue || optionDimension)) {
+      const option: QuestionOption = { text: optionText, value: optionValue };
+      if (question.type === 'sjt' && optionEffectiveness) option.effectiveness = Number(optionEffectiveness);
+      if (optionDimension) dimensionNames.set(option, optionDimension);
+      question.options = [...(question.options || []), option];
+    } else if (question.type === 'scale' && optionText) {
+      preview.issues.push({ row: rowNumber, message: 'Perguntas de escala não têm opções; a opção foi ignorada.' });
+    }
+  });
+
+  // Dimension names pick a matching preset or form a custom model
+  preview.profileModel = dimensionNames.size > 0 ? modelForDimensionNames(Array.from(dimensionNames.values())) : null;
+  dimensionNames.forEach((name, option) => {
+    option.dimensionId = findDimension(preview.profileModel, name)?.id;
+  });
+  const migrated = migrateLegacyProfiles(preview.questions, preview.profileModel);
+  preview.profileModel = migrated.profileModel;
+
+  preview.questions = migrated.questions;
+  preview.questions.forEach((q, idx) => preview.issues.push(...validateQuestion(q, preview.questionRows[idx], categories, preview.profileModel)));
+  preview.questions = applyCategories(preview.questions, categories);
+  preview.issues.push(...conditionIssues(preview));
+  return preview;
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Question } from '../types';
+import { diffQuestions } from './testVersions';
+
+// Only the pure diff is exercised; the client is never called
+vi.mock('../supabaseClient', () => ({ supabase: {} }));
+
+const q1: Question = { id: 'q1', text: 'Eu delego tarefas', type: 'scale', category: 'Liderança' };
+const q2: Question = { id: 'q2', text: 'Quando há conflito', type: 'choice', variation: 'single', options: [{ text: 'Converso', value: '8' }] };
+const q3: Question = { id: 'q3', text: 'Descreva um desafio', type: 'text' };
+
+const summary = (before: Question[], after: Question[]) =>
+  diffQuestions(before, after).map(d => ({ id: d.questionId, change: d.change, fields: d.fields }));
+
+describe('diffQuestions', () => {
+  it('is empty for identical lists', () => {
+    expect(diffQuestions([q1, q2], [{ ...q1 }, { ...q2 }])).toEqual([]);
+  });
+
+  it('reports added and removed questions', () => {
+    const diffs = diffQuestions([q1, q2], [q1, q2, q3]);
+    expect(diffs).toEqual([{ questionId: 'q3', change: 'added', after: q3, fields: [] }]);
+    expect(summary([q1, q2, q3], [q1, q2])).toEqual([{ id: 'q3', change: 'removed', fields: [] }]);
+  });
+
+  it('reports reordered questions as moved', () => {
+    expect(summary([q1, q2, q3], [q2, q1, q3])).toEqual([
+      { id: 'q2', change: 'moved', fields: [] },
+      { id: 'q1', change: 'moved', fields: [] }
+    ]);
+  });
+
+  it('lists the edited fields, which take precedence over a move', () => {
+    const edited = { ...q2, text: 'Diante de um conflito', options: [{ text: 'Converso', value: '9' }] };
+    expect(summary([q1, q2], [edited, q1])).toEqual([
+      { id: 'q2', change: 'changed', fields: ['text', 'options'] },
+      { id: 'q1', change: 'moved', fields: [] }
+    ]);
+  });
+
+  it('treats missing and cleared optional fields alike', () => {
+    expect(diffQuestions([q1], [{ ...q1, reverse: undefined }])).toEqual([]);
+    expect(summary([q1], [{ ...q1, weight: 2 }])).toEqual([{ id: 'q1', change: 'changed', fields: ['weight'] }]);
+  });
+});
@@ -0,0 +1,117 @@
+import { supabase } from '../supabaseClient';
+import { migrateLegacyProfiles } from './profileModels';
+import { IntegritySettings, ProfileModel, Question, QuestionDiff, Randomization, TestSection, TestVersion, TimeLimit } from '../types';
+
+// Published versions are immutable snapshots of a test. 'tests.questions' is
+// only the editable draft; candidates always take a published version.
+
+const parseQuestions = (raw: any): Question[] =>
+  typeof raw === 'string' ? JSON.parse(raw) : (raw || []);
+
+// Versions published before profile models hold profile names in option 'value';
+// they are mapped onto the legacy model when read, the snapshot is never rewritten.
+const mapVersionRow = (row: any): TestVersion => {
+  const { questions, profileModel } = migrateLegacyProfiles(parseQuestions(row.questions), row.profile_model || null);
+  return {
+    id: row.id,
+    testId: row.test_id,
+    version: row.version,
+    title: row.title,
+    description: row.description || '',
+    questions,
+    sections: row.sections || [],
+    randomization: row.randomization || null,
+    timeLimit: row.time_limit || null,
+    integrity: row.integrity || null,
+    profileModel,
+    publishedAt: row.published_at
+  };
+};
+
+export const fetchVersions = async (testId: string): Promise<TestVersion[]> => {
+  const { data, error } = await supabase
+    .from('test_versions')
+    .select('*')
+    .eq('test_id', testId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(mapVersionRow);
+};
+
+/** A specific version, or the latest published one when no version is given. */
+export const fetchVersion = async (testId: string, version?: number | null): Promise<TestVersion | null> => {
+  let query = supabase.from('test_versions').select('*').eq('test_id', testId);
+  query = version ? query.eq('version', version) : query.order('version', { ascending: false }).limit(1);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  return data ? mapVersionRow(data) : null;
+};
+
+/** Freezes the given content as the next version number of the test. */
+export const publishVersion = async (
+  testId: string,
+  content: { title: string; description: string; questions: Question[]; sections?: TestSection[]; randomization?: Randomization | null; timeLimit?: TimeLimit | null; integrity?: IntegritySettings | null; profileModel?: ProfileModel | null }
+): Promise<TestVersion> => {
+  const latest = await fetchVersion(testId);
+  const nextVersion = (latest?.version || 0) + 1;
+
+  const { data, error } = await supabase
+    .from('test_versions')
+    .insert([{
+      test_id: testId,
+      version: nextVersion,
+      title: content.title,
+      description: content.description,
+      questions: content.questions,
+      sections: content.sections || [],
+      randomization: content.randomization || null,
+      time_limit: content.timeLimit || null,
+      integrity: content.integrity || null,
+      profile_model: content.profileModel || null
+    }])
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { error: testError } = await supabase
+    .from('tests')
+    .update({ published_version: nextVersion, has_draft_changes: false })
+    .eq('id', testId);
+
+  if (testError) throw testError;
+
+  return mapVersionRow(data);
+};
+
+const DIFF_FIELDS: (keyof Question)[] = ['text', 'category', 'type', 'variation', 'options', 'scale', 'reverse', 'weight', 'scenario', 'minLength', 'maxLength', 'rubric', 'sectionId', 'showIf', 'pairKey', 'socialDesirability'];
+
+/** Question-level differences going from 'before' to 'after', matched by question id. */
+export const diffQuestions = (before: Question[], after: Question[]): QuestionDiff[] => {
+  const beforeIndex = new Map(before.map((q, idx) => [q.id, idx]));
+  const afterIds = new Set(after.map(q => q.id));
+  const diffs: QuestionDiff[] = [];
+
+  after.forEach((q, idx) => {
+    const oldIdx = beforeIndex.get(q.id);
+    if (oldIdx === undefined) {
+      diffs.push({ questionId: q.id, change: 'added', after: q, fields: [] });
+      return;
+    }
+    const old = before[oldIdx];
+    const fields = DIFF_FIELDS.filter(f => JSON.stringify(old[f] ?? null) !== JSON.stringify(q[f] ?? null));
+    if (fields.length > 0) {
+      diffs.push({ questionId: q.id, change: 'changed', before: old, after: q, fields });
+    } else if (oldIdx !== idx) {
+      diffs.push({ questionId: q.id, change: 'moved', before: old, after: q, fields: [] });
+    }
+  });
+
+  before.forEach(q => {
+    if (!afterIds.has(q.id)) diffs.push({ questionId: q.id, change: 'removed', before: q, fields: [] });
+  });
+
+  return diffs;
+};
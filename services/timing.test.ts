@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { Question } from '../types';
+import { MAX_TIME_LIMIT_MINUTES, fastAnswerThresholdMs, formatDuration, isImplausiblyFast, remainingSeconds, validateTimeLimit } from './timing';
+
+const startedAt = '2026-10-19T12:00:00.000Z';
+const at = (seconds: number) => new Date(startedAt).getTime() + seconds * 1000;
+
+describe('remainingSeconds', () => {
+  it('counts down from the start of the attempt', () => {
+    const limit = { minutes: 10, onExpiry: 'submit' as const };
+    expect(remainingSeconds(limit, startedAt, at(0))).toBe(600);
+    expect(remainingSeconds(limit, startedAt, at(125))).toBe(475);
+    expect(remainingSeconds(limit, startedAt, at(900))).toBe(0);
+  });
+
+  it('is null without a limit or a start', () => {
+    expect(remainingSeconds(null, startedAt, at(0))).toBeNull();
+    expect(remainingSeconds({ minutes: 10, onExpiry: 'lock' }, null, at(0))).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats minutes and hours', () => {
+    expect(formatDuration(245)).toBe('4:05');
+    expect(formatDuration(3725)).toBe('1:02:05');
+    expect(formatDuration(-3)).toBe('0:00');
+  });
+});
+
+describe('validateTimeLimit', () => {
+  it('accepts whole minutes within range', () => {
+    expect(validateTimeLimit(null)).toBeNull();
+    expect(validateTimeLimit({ minutes: 30, onExpiry: 'submit' })).toBeNull();
+  });
+
+  it('rejects fractions and values out of range', () => {
+    [0, 1.5, MAX_TIME_LIMIT_MINUTES + 1].forEach(minutes =>
+      expect(validateTimeLimit({ minutes, onExpiry: 'submit' })).toMatch(/entre 1 e/)
+    );
+  });
+});
+
+describe('fast answers', () => {
+  const scale: Question = { id: 'q1', text: 'Eu planejo minha semana', type: 'scale' };
+  const ranking: Question = {
+    id: 'q2',
+    text: 'Ordene',
+    type: 'choice',
+    variation: 'ranking',
+    options: [{ text: 'Planejar bem', value: '' }, { text: 'Agir rápido', value: '' }]
+  };
+
+  it('adds reading time to the minimum time per kind of item', () => {
+    expect(fastAnswerThresholdMs(scale)).toBe(1000 + 4 * 60);
+    expect(fastAnswerThresholdMs(ranking)).toBe(1500 * 2 + 5 * 60);
+  });
+
+  it('flags answers below the threshold only when timed', () => {
+    expect(isImplausiblyFast(scale, 500)).toBe(true);
+    expect(isImplausiblyFast(scale, 5000)).toBe(false);
+    expect(isImplausiblyFast(scale, undefined)).toBe(false);
+  });
+});
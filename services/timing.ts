@@ -0,0 +1,54 @@
+import { Question, TimeLimit } from '../types';
+
+// Attempt timing: the optional overall limit, and the time spent per question,
+// used to flag answers given faster than the question can be read.
+
+export const MAX_TIME_LIMIT_MINUTES = 600;
+
+/** Seconds left before the limit expires, never negative; null without a limit. */
+export const remainingSeconds = (limit: TimeLimit | null | undefined, startedAt: string | null, now: number): number | null => {
+  if (!limit || !startedAt) return null;
+  const elapsed = (now - new Date(startedAt).getTime()) / 1000;
+  return Math.max(0, Math.round(limit.minutes * 60 - elapsed));
+};
+
+/** "4:05", or "1:02:05" past an hour. */
+export const formatDuration = (totalSeconds: number) => {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+export const validateTimeLimit = (limit: TimeLimit | null): string | null => {
+  if (!limit) return null;
+  if (!Number.isInteger(limit.minutes) || limit.minutes < 1 || limit.minutes > MAX_TIME_LIMIT_MINUTES) {
+    return `O tempo limite deve ser um número inteiro de minutos entre 1 e ${MAX_TIME_LIMIT_MINUTES}.`;
+  }
+  return null;
+};
+
+// Minimum plausible time to act on each kind of item, before reading time
+const MIN_ACTION_MS: Record<Question['type'], number> = {
+  scale: 1000,
+  choice: 1500,
+  text: 5000,
+  sjt: 3000
+};
+const MS_PER_WORD = 60; // a fast skim of roughly 1000 words per minute
+
+const wordCount = (text?: string) => (text || '').split(/\s+/).filter(Boolean).length;
+
+/**
+ * Below this many milliseconds an answer is implausibly fast: the question,
+ * its scenario and its options could not have been read and answered.
+ */
+export const fastAnswerThresholdMs = (q: Question) => {
+  const words = wordCount(q.text) + wordCount(q.scenario) + (q.options || []).reduce((sum, o) => sum + wordCount(o.text), 0);
+  const actions = q.type === 'choice' && (q.variation === 'most_least' || q.variation === 'ranking') ? 2 : 1;
+  return MIN_ACTION_MS[q.type] * actions + words * MS_PER_WORD;
+};
+
+export const isImplausiblyFast = (q: Question, responseTimeMs?: number) =>
+  typeof responseTimeMs === 'number' && responseTimeMs < fastAnswerThresholdMs(q);
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { assessValidity } from './validity';
+
+const scaleItem = (id: string, value: number, extra: Record<string, any> = {}) =>
+  ({ id, text: 'Eu cumpro prazos', type: 'scale', resposta: { value }, ...extra });
+
+const indicator = (body: any[], id: string) => assessValidity(body).indicators.find(i => i.id === id)!;
+
+describe('assessValidity', () => {
+  it('has no indicators for an empty body', () => {
+    const report = assessValidity([]);
+    expect(report.status).toBe('not_applicable');
+    expect(report.indicators.every(i => i.status === 'not_applicable')).toBe(true);
+  });
+
+  it('flags straight-lining', () => {
+    const same = [1, 2, 3, 4, 5, 6].map(n => scaleItem(`q${n}`, 3));
+    expect(indicator(same, 'straight_lining')).toMatchObject({ status: 'invalid', detail: '100% dos itens de escala com a mesma nota (3).' });
+
+    const varied = [1, 2, 3, 4, 5, 6].map(n => scaleItem(`q${n}`, (n % 5) + 1));
+    expect(indicator(varied, 'straight_lining').status).toBe('ok');
+  });
+
+  it('needs enough scale items for pattern indicators', () => {
+    const few = [1, 2, 3].map(n => scaleItem(`q${n}`, 5));
+    expect(indicator(few, 'straight_lining').status).toBe('not_applicable');
+    expect(indicator(few, 'extreme_responding').status).toBe('not_applicable');
+  });
+
+  it('treats extreme responding as caution at most', () => {
+    const extremes = [1, 2, 3, 4, 5, 6].map(n => scaleItem(`q${n}`, n % 2 ? 1 : 5));
+    expect(indicator(extremes, 'extreme_responding').status).toBe('caution');
+  });
+
+  it('compares paired items on their scored value, reverse items included', () => {
+    const agree = [scaleItem('a', 5, { pairKey: 'p' }), scaleItem('b', 1, { pairKey: 'p', reverse: true })];
+    expect(indicator(agree, 'inconsistency').status).toBe('ok');
+
+    const contradict = [scaleItem('a', 5, { pairKey: 'p' }), scaleItem('b', 1, { pairKey: 'p' })];
+    expect(indicator(contradict, 'inconsistency')).toMatchObject({ status: 'invalid', detail: '1 de 1 par(es) com respostas contraditórias.' });
+  });
+
+  it('flags idealized answers to social desirability items', () => {
+    const items = [scaleItem('a', 5, { socialDesirability: true }), scaleItem('b', 5, { socialDesirability: true })];
+    expect(indicator(items, 'social_desirability').status).toBe('invalid');
+    expect(indicator(items.slice(0, 1), 'social_desirability').status).toBe('not_applicable');
+  });
+
+  it('flags answers faster than reading allows', () => {
+    const timed = [scaleItem('a', 3, { responseTimeMs: 200 }), scaleItem('b', 4, { responseTimeMs: 9000 })];
+    expect(indicator(timed, 'speed')).toMatchObject({ status: 'invalid', detail: '1 de 2 resposta(s) mais rápidas do que a leitura permitiria.' });
+  });
+
+  it('ignores questions that were not shown and reports the worst status', () => {
+    const body = [
+      scaleItem('a', 5, { pairKey: 'p' }),
+      scaleItem('b', 4, { pairKey: 'p' }),
+      scaleItem('c', 1, { pairKey: 'p', notShown: true }),
+      scaleItem('d', 2, { responseTimeMs: 100 })
+    ];
+    expect(indicator(body, 'inconsistency').status).toBe('ok');
+    expect(assessValidity(body).status).toBe('invalid');
+  });
+});
@@ -0,0 +1,128 @@
+import { Question, ValidityIndicator, ValidityReport, ValidityStatus } from '../types';
+import { normalizedAnswer } from './scoring';
+import { getScale, isNotApplicable } from './scales';
+import { isImplausiblyFast } from './timing';
+
+// Response-quality indicators computed from a stored submission body. They do
+// not change the scores; they tell HR when a profile should be discounted.
+
+const MIN_SCALE_ITEMS = 6; // below this, patterns across scale answers say little
+const PAIR_GAP = 0.5; // paired items this far apart (on 0..1) contradict each other
+const DESIRABLE_ANSWER = 0.75; // social desirability items answered in the top quarter
+
+const STATUS_ORDER: ValidityStatus[] = ['not_applicable', 'ok', 'caution', 'invalid'];
+
+export const VALIDITY_STATUS_LABELS: Record<ValidityStatus, string> = {
+  ok: 'Confiável',
+  caution: 'Atenção',
+  invalid: 'Pouco confiável',
+  not_applicable: 'Sem indicadores'
+};
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+const byThreshold = (share: number, caution: number, invalid: number): ValidityStatus =>
+  share >= invalid ? 'invalid' : share >= caution ? 'caution' : 'ok';
+
+const notApplicable = (id: ValidityIndicator['id'], label: string, detail: string): ValidityIndicator =>
+  ({ id, label, status: 'not_applicable', detail });
+
+const straightLining = (scaleItems: any[]): ValidityIndicator => {
+  const label = 'Respostas em linha reta';
+  if (scaleItems.length < MIN_SCALE_ITEMS) return notApplicable('straight_lining', label, `Menos de ${MIN_SCALE_ITEMS} itens de escala respondidos.`);
+  const counts = new Map<string, number>();
+  scaleItems.forEach(q => counts.set(String(q.resposta.value), (counts.get(String(q.resposta.value)) || 0) + 1));
+  const [value, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+  const share = count / scaleItems.length;
+  return {
+    id: 'straight_lining',
+    label,
+    status: byThreshold(share, 0.8, 1),
+    detail: `${percent(share)} dos itens de escala com a mesma nota (${value}).`
+  };
+};
+
+const extremeResponding = (scaleItems: any[]): ValidityIndicator => {
+  const label = 'Respostas extremas';
+  if (scaleItems.length < MIN_SCALE_ITEMS) return notApplicable('extreme_responding', label, `Menos de ${MIN_SCALE_ITEMS} itens de escala respondidos.`);
+  const extremes = scaleItems.filter(q => {
+    const scale = getScale(q);
+    const value = Number(q.resposta.value);
+    return value === scale.min || value === scale.max;
+  }).length;
+  const share = extremes / scaleItems.length;
+  return {
+    id: 'extreme_responding',
+    label,
+    // A style, not proof of bad faith: never worse than 'caution'
+    status: share >= 0.8 ? 'caution' : 'ok',
+    detail: `${percent(share)} das respostas de escala nos extremos.`
+  };
+};
+
+const inconsistency = (answered: any[]): ValidityIndicator => {
+  const label = 'Inconsistência entre itens pareados';
+  const groups = new Map<string, number[]>();
+  answered.forEach(q => {
+    const value = q.type === 'scale' && q.pairKey ? normalizedAnswer(q as Question, q.resposta) : null;
+    if (value !== null) groups.set(q.pairKey, [...(groups.get(q.pairKey) || []), value]);
+  });
+  const pairs = Array.from(groups.values()).filter(values => values.length > 1);
+  if (pairs.length === 0) return notApplicable('inconsistency', label, 'O teste não tem itens pareados respondidos.');
+  const contradictions = pairs.filter(values => Math.max(...values) - Math.min(...values) >= PAIR_GAP).length;
+  const share = contradictions / pairs.length;
+  return {
+    id: 'inconsistency',
+    label,
+    status: contradictions === 0 ? 'ok' : share >= 0.5 ? 'invalid' : 'caution',
+    detail: `${contradictions} de ${pairs.length} par(es) com respostas contraditórias.`
+  };
+};
+
+const socialDesirability = (answered: any[]): ValidityIndicator => {
+  const label = 'Desejabilidade social';
+  const items = answered.filter(q => q.type === 'scale' && q.socialDesirability);
+  const scored = items.map(q => normalizedAnswer(q as Question, q.resposta)).filter((v): v is number => v !== null);
+  if (scored.length < 2) return notApplicable('social_desirability', label, 'O teste não tem itens de desejabilidade social suficientes.');
+  const desirable = scored.filter(v => v >= DESIRABLE_ANSWER).length;
+  const share = desirable / scored.length;
+  return {
+    id: 'social_desirability',
+    label,
+    status: byThreshold(share, 0.5, 0.75),
+    detail: `${desirable} de ${scored.length} itens de controle respondidos de forma idealizada.`
+  };
+};
+
+const speed = (answered: any[]): ValidityIndicator => {
+  const label = 'Velocidade de resposta';
+  const timed = answered.filter(q => typeof q.responseTimeMs === 'number');
+  if (timed.length === 0) return notApplicable('speed', label, 'Tempos de resposta não registrados.');
+  const fast = timed.filter(q => isImplausiblyFast(q as Question, q.responseTimeMs)).length;
+  const share = fast / timed.length;
+  return {
+    id: 'speed',
+    label,
+    status: byThreshold(share, 0.1, 0.3),
+    detail: `${fast} de ${timed.length} resposta(s) mais rápidas do que a leitura permitiria.`
+  };
+};
+
+/** Validity indicators of a stored submission body; questions not shown or unanswered are ignored. */
+export const assessValidity = (body: any[]): ValidityReport => {
+  const answered = (body || []).filter(q => q && !q.notShown && q.resposta);
+  const scaleItems = answered.filter(q => q.type === 'scale' && !isNotApplicable(q.resposta) && q.resposta.value !== undefined && q.resposta.value !== '');
+
+  const indicators = [
+    straightLining(scaleItems),
+    inconsistency(answered),
+    extremeResponding(scaleItems),
+    socialDesirability(answered),
+    speed(answered)
+  ];
+  const status = indicators.reduce<ValidityStatus>(
+    (worst, i) => STATUS_ORDER.indexOf(i.status) > STATUS_ORDER.indexOf(worst) ? i.status : worst,
+    'not_applicable'
+  );
+  return { status, indicators };
+};
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+// Imported from their source, as re-exported by ./webhooks, so the test needs no Supabase client
+import { allDelivered, buildWebhookPayload, sendWebhook, signWebhookBody } from '../supabase/functions/_shared/webhooks';
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+// Local HTTP stub: '/fail' answers 500, '/long' a body over the logged limit, anything else 200
+let server: Server;
+let baseUrl = '';
+const received: Received[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      if (req.url === '/fail') {
+        res.writeHead(500).end('boom');
+      } else if (req.url === '/long') {
+        res.writeHead(200).end('x'.repeat(5000));
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"ok":true}');
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe('signWebhookBody', () => {
+  it('returns the hex HMAC-SHA256 of the body', async () => {
+    expect(await signWebhookBody('key', 'The quick brown fox jumps over the lazy dog'))
+      .toBe('f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8');
+  });
+});
+
+describe('buildWebhookPayload', () => {
+  it('keeps the flat legacy body for version 1', () => {
+    expect(buildWebhookPayload({ payloadVersion: 1 }, 'completed', { candidate_id: 'c1' }))
+      .toEqual({ candidate_id: 'c1', event: 'completed' });
+  });
+
+  it('wraps the data in an envelope for version 2', () => {
+    const payload = buildWebhookPayload({ payloadVersion: 2 }, 'started', { candidate_id: 'c1' });
+    expect(payload).toMatchObject({ version: 2, event: 'started', data: { candidate_id: 'c1' } });
+    expect(Date.parse(payload.sent_at)).not.toBeNaN();
+  });
+});
+
+describe('sendWebhook', () => {
+  it('posts the JSON body with event, delivery and signature headers', async () => {
+    const response = await sendWebhook(`${baseUrl}/hook`, 'completed', { a: 1 }, 'secret', 'delivery-1');
+    const request = received[received.length - 1];
+
+    expect(response).toEqual({ ok: true, status: 200, body: '{"ok":true}', error: undefined });
+    expect(request.body).toBe('{"a":1}');
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.headers['x-saveco-event']).toBe('completed');
+    expect(request.headers['x-saveco-delivery']).toBe('delivery-1');
+    expect(request.headers['x-saveco-signature']).toBe(`sha256=${await signWebhookBody('secret', request.body)}`);
+  });
+
+  it('sends no signature without a secret', async () => {
+    await sendWebhook(`${baseUrl}/hook`, 'started', { a: 1 });
+    expect(received[received.length - 1].headers['x-saveco-signature']).toBeUndefined();
+  });
+
+  it('reports non-2xx answers with their status and body', async () => {
+    const response = await sendWebhook(`${baseUrl}/fail`, 'completed', {});
+    expect(response.ok).toBe(false);
+    expect(response.status).toBe(500);
+    expect(response.body).toBe('boom');
+    expect(response.error).toMatch(/^HTTP 500/);
+  });
+
+  it('truncates long response bodies', async () => {
+    const response = await sendWebhook(`${baseUrl}/long`, 'completed', {});
+    expect(response.body).toHaveLength(2000);
+  });
+
+  it('reports connection failures without throwing', async () => {
+    const closed = createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise<void>(resolve => closed.close(() => resolve()));
+
+    const response = await sendWebhook(`http://127.0.0.1:${port}/hook`, 'completed', {});
+    expect(response).toMatchObject({ ok: false, status: null, body: '' });
+    expect(response.error).toBeTruthy();
+  });
+});
+
+describe('allDelivered', () => {
+  const webhook = (id: string, extra: Record<string, any> = {}) =>
+    ({ id, url: `https://hooks.example.com/${id}`, events: ['completed' as const], active: true, ...extra });
+
+  it('waits for every webhook still subscribed to the event', () => {
+    const webhooks = [webhook('a'), webhook('b')];
+    expect(allDelivered([{ webhook_id: 'a', status: 'delivered' }, { webhook_id: 'b', status: 'failed' }], webhooks, 'completed')).toBe(false);
+    expect(allDelivered([{ webhook_id: 'a', status: 'delivered' }, { webhook_id: 'b', status: 'delivered' }], webhooks, 'completed')).toBe(true);
+  });
+
+  it('ignores a failed entry left behind by a deleted webhook', () => {
+    const deliveries = [{ webhook_id: 'a', status: 'delivered' }, { webhook_id: 'gone', status: 'failed' }];
+    expect(allDelivered(deliveries, [webhook('a')], 'completed')).toBe(true);
+  });
+
+  it('ignores entries of disabled or unsubscribed webhooks', () => {
+    const deliveries = [{ webhook_id: 'a', status: 'failed' }, { webhook_id: 'b', status: 'pending' }, { webhook_id: null, status: 'failed' }];
+    expect(allDelivered(deliveries, [webhook('a', { active: false }), webhook('b', { events: ['started'] })], 'completed')).toBe(true);
+  });
+});
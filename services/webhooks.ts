@@ -0,0 +1,38 @@
+import { supabase } from '../supabaseClient';
+import { WebhookConfig, WebhookEvent } from '../types';
+
+// Signing and sending live with the deliver-webhooks edge function, the only
+// place candidate events are sent from; the admin panel reuses them for pings.
+export { buildWebhookPayload, signWebhookBody, sendWebhook } from '../supabase/functions/_shared/webhooks';
+export type { WebhookResponse } from '../supabase/functions/_shared/webhooks';
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  completed: 'Teste concluído',
+  started: 'Teste iniciado',
+  expired: 'Prazo expirado'
+};
+
+export const generateWebhookSecret = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(24)))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+// Webhooks (and their secrets) are kept apart from the test, in a table only admins can read.
+export const fetchTestWebhooks = async (testId: string): Promise<WebhookConfig[]> => {
+  const { data, error } = await supabase
+    .from('test_webhooks')
+    .select('webhooks')
+    .eq('test_id', testId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.webhooks || [];
+};
+
+export const saveTestWebhooks = async (testId: string, webhooks: WebhookConfig[]) => {
+  const { error } = await supabase
+    .from('test_webhooks')
+    .upsert({ test_id: testId, webhooks, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+};
@@ -0,0 +1,105 @@
+// Payload, signature and transport of outbound webhooks. Shared by the
+// deliver-webhooks edge function (which alone reads the secrets) and the admin
+// panel's test ping, so it must stay free of imports.
+
+export type WebhookEvent = 'completed' | 'started' | 'expired';
+
+export interface WebhookResponse {
+  ok: boolean;
+  status: number | null;
+  body: string;
+  error?: string;
+}
+
+const RESPONSE_BODY_LIMIT = 2000;
+
+/**
+ * Version 1 is the flat payload the original n8n workflow expects.
+ * Version 2 wraps the same data in an envelope that names the event.
+ */
+export const buildWebhookPayload = (
+  webhook: { payloadVersion: 1 | 2 },
+  event: WebhookEvent,
+  data: Record<string, any>
+): Record<string, any> => {
+  if (webhook.payloadVersion === 1) return { ...data, event };
+  return {
+    version: 2,
+    event,
+    sent_at: new Date().toISOString(),
+    data
+  };
+};
+
+/** Whether a webhook currently receives an event. */
+export const subscribesTo = (
+  webhook: { url: string; events: WebhookEvent[]; active: boolean },
+  event: WebhookEvent
+) => webhook.active && !!webhook.url && webhook.events.includes(event);
+
+/**
+ * Whether every webhook that still receives an event acknowledged it. Outbox
+ * entries of webhooks removed, disabled or unsubscribed since are ignored, so
+ * they cannot hold a result back.
+ */
+export const allDelivered = (
+  deliveries: { webhook_id: string | null; status: string }[],
+  webhooks: { id: string; url: string; events: WebhookEvent[]; active: boolean }[],
+  event: WebhookEvent
+) => {
+  const receiving = new Set(webhooks.filter(w => subscribesTo(w, event)).map(w => w.id));
+  return deliveries
+    .filter(d => d.webhook_id && receiving.has(d.webhook_id))
+    .every(d => d.status === 'delivered');
+};
+
+/** Hex HMAC-SHA256 of the raw body, sent as 'X-SaveCo-Signature: sha256=<hex>'. */
+export const signWebhookBody = async (secret: string, body: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Posts a payload to a webhook URL. Never throws: network failures are
+ * reported as { ok: false, status: null }. Any URL works, including a
+ * local HTTP stub such as http://localhost:8787.
+ */
+export const sendWebhook = async (
+  url: string,
+  event: WebhookEvent,
+  payload: Record<string, any>,
+  secret?: string,
+  deliveryId?: string
+): Promise<WebhookResponse> => {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-SaveCo-Event': event
+  };
+  if (deliveryId) headers['X-SaveCo-Delivery'] = deliveryId;
+
+  try {
+    if (secret) headers['X-SaveCo-Signature'] = `sha256=${await signWebhookBody(secret, body)}`;
+
+    const response = await fetch(url, { method: 'POST', headers, body });
+    const text = await response.text().catch(() => '');
+    return {
+      ok: response.ok,
+      status: response.status,
+      body: text.slice(0, RESPONSE_BODY_LIMIT),
+      error: response.ok ? undefined : `HTTP ${response.status} ${response.statusText}`.trim()
+    };
+  } catch (err: any) {
+    return { ok: false, status: null, body: '', error: err.message || 'Falha de conexão' };
+  }
+};
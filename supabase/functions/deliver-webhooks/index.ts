@@ -0,0 +1,245 @@
+// Sends the webhooks of a test. This function is the only reader of
+// public.test_webhooks outside the admin panel: payloads are built from the
+// database and signed here, never in the candidate's browser.
+//
+//   { event, assignmentId }  the assignment's candidate (or an admin) reports that it
+//                            was started, completed or expired; each active webhook of
+//                            the test subscribed to the event gets one outbox entry.
+//   { deliveryId }           an admin sends one outbox entry again, once.
+//
+// Every attempt is logged on the outbox entry. A 'completed' assignment is only
+// marked completed once each of its webhooks acknowledges (2xx).
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { allDelivered, buildWebhookPayload, sendWebhook, subscribesTo, WebhookEvent } from '../_shared/webhooks.ts';
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const EVENTS: WebhookEvent[] = ['completed', 'started', 'expired'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const db = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+interface WebhookConfig {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  secret?: string;
+  payloadVersion: 1 | 2;
+  active: boolean;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const json = (body: Record<string, any>, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const must = <T>({ data, error }: { data: T; error: any }): T => {
+  if (error) throw error;
+  return data;
+};
+
+/** The signed-in user behind the request; the service role key counts as an admin. */
+const identifyCaller = async (req: Request) => {
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  if (token && token === serviceRoleKey) return { userId: null, isAdmin: true };
+
+  const { data, error } = await db.auth.getUser(token);
+  if (error || !data.user) throw new HttpError(401, 'Not signed in');
+  const profile = must(await db.from('profiles').select('role').eq('id', data.user.id).maybeSingle());
+  return { userId: data.user.id, isAdmin: profile?.role === 'admin' };
+};
+
+const fetchWebhooks = async (testId: string): Promise<WebhookConfig[]> => {
+  const row = must(await db.from('test_webhooks').select('webhooks').eq('test_id', testId).maybeSingle());
+  return row?.webhooks || [];
+};
+
+/** What an event reports about an assignment, or null when the assignment is not in that state. */
+const eventData = async (assignment: any, event: WebhookEvent): Promise<{ data: Record<string, any>; resultId?: string } | null> => {
+  if (event === 'completed') {
+    const result = must(await db
+      .from('result_test')
+      .select('id, result')
+      .eq('assignment_id', assignment.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle());
+    if (!result) return null;
+    // The stored scoring and reviews stay in the platform
+    const { scoring, reviews, ...payload } = result.result || {};
+    return { data: { ...payload, result_id: result.id }, resultId: result.id };
+  }
+
+  if (event === 'started' && !assignment.started_at) return null;
+  if (event === 'expired' && assignment.status !== 'expired') return null;
+
+  const [profile, version, test] = await Promise.all([
+    db.from('profiles').select('email').eq('id', assignment.candidate_id).maybeSingle().then(must),
+    db.from('test_versions').select('title').eq('test_id', assignment.test_id).eq('version', assignment.test_version).maybeSingle().then(must),
+    db.from('tests').select('title').eq('id', assignment.test_id).maybeSingle().then(must)
+  ]);
+  return {
+    data: {
+      test_id: assignment.test_id,
+      test_title: version?.title || test?.title || '',
+      candidate_id: assignment.candidate_id,
+      candidate_email: profile?.email || '',
+      ...(event === 'started' ? { started_at: assignment.started_at } : { expires_at: assignment.expires_at })
+    }
+  };
+};
+
+/** Sends an outbox entry with exponential backoff and returns its final state. */
+const deliver = async (entry: any, secret: string | undefined, maxAttempts = MAX_ATTEMPTS) => {
+  let current = entry;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    if (attempt > 0) await sleep(BASE_DELAY_MS * 2 ** (attempt - 1));
+
+    const response = await sendWebhook(current.target_url, current.event, current.payload, secret, current.id);
+    current = must(await db
+      .from('submission_outbox')
+      .update({
+        status: response.ok ? 'delivered' : 'failed',
+        attempts: current.attempts + 1,
+        last_status_code: response.status,
+        last_error: response.error || null,
+        last_response_body: response.body || null,
+        delivered_at: response.ok ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', current.id)
+      .select()
+      .single());
+
+    if (response.ok) return current;
+  }
+
+  return current;
+};
+
+/**
+ * Marks the assignment completed (and the candidate's battery, once every test
+ * is) when no webhook still subscribed to 'completed' is waiting for its
+ * delivery to be acknowledged.
+ */
+const completeIfAllDelivered = async (assignment: any): Promise<boolean> => {
+  const [deliveries, webhooks] = await Promise.all([
+    db.from('submission_outbox').select('webhook_id, status').eq('assignment_id', assignment.id).eq('event', 'completed').then(must),
+    fetchWebhooks(assignment.test_id)
+  ]);
+  if (!allDelivered(deliveries || [], webhooks, 'completed')) return false;
+
+  const now = new Date().toISOString();
+  must(await db
+    .from('test_assignments')
+    .update({ status: 'completed', completed_at: now, updated_at: now })
+    .eq('id', assignment.id)
+    .eq('status', 'in-progress'));
+
+  const status = must(await db.rpc('battery_status', { candidate: assignment.candidate_id }));
+  must(await db
+    .from('profiles')
+    .update({ status, ...(status === 'completed' ? { completed_date: now.split('T')[0] } : {}) })
+    .eq('id', assignment.candidate_id));
+  return true;
+};
+
+/**
+ * Announces an event of an assignment to every subscribed webhook. 'started'
+ * and 'expired' are announced once per webhook; a 'completed' delivery that
+ * failed before is sent again with the current result.
+ */
+const announce = async (assignment: any, event: WebhookEvent) => {
+  const facts = await eventData(assignment, event);
+  if (!facts) throw new HttpError(409, `The assignment is not ${event}`);
+
+  const webhooks = (await fetchWebhooks(assignment.test_id))
+    .filter(w => subscribesTo(w, event));
+  const previous = must(await db
+    .from('submission_outbox')
+    .select('*')
+    .eq('assignment_id', assignment.id)
+    .eq('event', event)
+    .order('created_at', { ascending: false }));
+
+  const deliveries = await Promise.all(webhooks.map(async webhook => {
+    const earlier = (previous || []).find((d: any) => d.webhook_id === webhook.id);
+    if (earlier && (earlier.status === 'delivered' || event !== 'completed')) return earlier;
+
+    const fields = {
+      result_id: facts.resultId || null,
+      target_url: webhook.url,
+      payload: buildWebhookPayload(webhook, event, facts.data),
+      status: 'pending'
+    };
+    const entry = earlier
+      ? must(await db.from('submission_outbox').update(fields).eq('id', earlier.id).select().single())
+      : must(await db.from('submission_outbox').insert([{
+          ...fields,
+          candidate_id: assignment.candidate_id,
+          test_id: assignment.test_id,
+          assignment_id: assignment.id,
+          webhook_id: webhook.id,
+          event,
+          attempts: 0
+        }]).select().single());
+    return deliver(entry, webhook.secret);
+  }));
+
+  const completed = event === 'completed' && await completeIfAllDelivered(assignment);
+  return { deliveries, completed };
+};
+
+/** Sends one outbox entry again, as asked from the admin panel. */
+const resend = async (deliveryId: string) => {
+  const entry = must(await db.from('submission_outbox').select('*').eq('id', deliveryId).maybeSingle());
+  if (!entry) throw new HttpError(404, 'Delivery not found');
+
+  const webhook = (await fetchWebhooks(entry.test_id)).find(w => w.id === entry.webhook_id);
+  if (!webhook) throw new HttpError(409, 'The webhook of this delivery was removed');
+
+  const delivery = await deliver({ ...entry, target_url: webhook.url }, webhook.secret, 1);
+  let completed = false;
+  if (delivery.status === 'delivered' && delivery.event === 'completed' && delivery.assignment_id) {
+    const assignment = must(await db.from('test_assignments').select('*').eq('id', delivery.assignment_id).maybeSingle());
+    completed = !!assignment && await completeIfAllDelivered(assignment);
+  }
+  return { delivery, completed };
+};
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    const caller = await identifyCaller(req);
+    const body = await req.json().catch(() => ({}));
+
+    if (body.deliveryId) {
+      if (!caller.isAdmin) throw new HttpError(403, 'Only admins can resend deliveries');
+      return json(await resend(body.deliveryId));
+    }
+
+    if (!EVENTS.includes(body.event) || !body.assignmentId) throw new HttpError(400, 'Expected { event, assignmentId }');
+    const assignment = must(await db.from('test_assignments').select('*').eq('id', body.assignmentId).maybeSingle());
+    if (!assignment || (!caller.isAdmin && assignment.candidate_id !== caller.userId)) {
+      throw new HttpError(404, 'Assignment not found');
+    }
+    return json(await announce(assignment, body.event));
+  } catch (err: any) {
+    console.error('deliver-webhooks:', err);
+    return json({ error: err.message || 'Unexpected error' }, err instanceof HttpError ? err.status : 500);
+  }
+});
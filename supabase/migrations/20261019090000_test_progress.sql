@@ -0,0 +1,17 @@
+-- Autosaved partial answers so an interrupted attempt can be resumed.
+create table if not exists public.test_progress (
+  candidate_id uuid not null references public.profiles (id) on delete cascade,
+  test_id uuid not null references public.tests (id) on delete cascade,
+  answers jsonb not null default '{}'::jsonb,
+  current_step integer not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (candidate_id, test_id)
+);
+
+alter table public.test_progress enable row level security;
+
+create policy "Candidates manage their own progress"
+  on public.test_progress
+  for all
+  using (auth.uid() = candidate_id)
+  with check (auth.uid() = candidate_id);
@@ -0,0 +1,67 @@
+-- Results are now scored and stored by the app itself, so candidates insert their own row.
+alter table public.result_test enable row level security;
+
+-- Admins are recognised by profiles.role, never by user_metadata: every
+-- signed-in user can rewrite their own user_metadata through auth.updateUser.
+-- Every admin policy goes through this function.
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+$$;
+
+-- Only admins (or the service role, which has no auth.uid()) may change a role.
+create or replace function public.protect_profile_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.role is distinct from old.role and auth.uid() is not null and not public.is_admin() then
+    raise exception 'Only admins can change a role';
+  end if;
+  return new;
+end
+$$;
+
+drop trigger if exists protect_profile_role on public.profiles;
+create trigger protect_profile_role
+  before update on public.profiles
+  for each row execute function public.protect_profile_role();
+
+-- Sign-up copies user_metadata into the new profile, so a self-declared admin
+-- starts as a candidate; an existing admin promotes new admins afterwards.
+create or replace function public.default_profile_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.role = 'admin' and not public.is_admin() and coalesce(auth.role(), '') <> 'service_role' then
+    new.role := 'candidate';
+  end if;
+  return new;
+end
+$$;
+
+drop trigger if exists default_profile_role on public.profiles;
+create trigger default_profile_role
+  before insert on public.profiles
+  for each row execute function public.default_profile_role();
+
+create policy "Admins read all results"
+  on public.result_test
+  for select
+  using (public.is_admin());
+
+create policy "Candidates read their own results"
+  on public.result_test
+  for select
+  using (auth.uid() = candidate_id);
+
+create policy "Candidates insert their own result"
+  on public.result_test
+  for insert
+  with check (auth.uid() = candidate_id);
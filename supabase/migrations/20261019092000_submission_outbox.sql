@@ -0,0 +1,33 @@
+-- Outbox of finished submissions awaiting webhook acknowledgement.
+create table if not exists public.submission_outbox (
+  id uuid primary key default gen_random_uuid(),
+  candidate_id uuid not null references public.profiles (id) on delete cascade,
+  test_id uuid not null references public.tests (id) on delete cascade,
+  result_id uuid references public.result_test (id) on delete set null,
+  target_url text not null,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'delivered', 'failed')),
+  attempts integer not null default 0,
+  last_status_code integer,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  delivered_at timestamptz
+);
+
+create index if not exists submission_outbox_status_idx on public.submission_outbox (status, created_at desc);
+
+alter table public.submission_outbox enable row level security;
+
+-- Entries are written by the deliver-webhooks edge function (service role);
+-- candidates may only see their own.
+create policy "Candidates read their own submissions"
+  on public.submission_outbox
+  for select
+  using (auth.uid() = candidate_id);
+
+create policy "Admins manage all submissions"
+  on public.submission_outbox
+  for all
+  using (public.is_admin())
+  with check (public.is_admin());
@@ -0,0 +1,39 @@
+-- Outbound webhooks are configured per test instead of a single hardcoded n8n URL.
+-- They carry signing secrets, so they live outside public.tests (which candidates
+-- read) in a table only admins and the deliver-webhooks edge function can see.
+create table if not exists public.test_webhooks (
+  test_id uuid primary key references public.tests (id) on delete cascade,
+  webhooks jsonb not null default '[]'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.test_webhooks enable row level security;
+
+create policy "Admins manage webhooks"
+  on public.test_webhooks
+  for all
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- Existing tests keep posting to the original workflow with the legacy payload.
+insert into public.test_webhooks (test_id, webhooks)
+select id, jsonb_build_array(jsonb_build_object(
+  'id', 'wh-legacy-n8n',
+  'url', 'https://projetosave-n8n.c20rpn.easypanel.host/webhook/teste-comportamental-lideranca',
+  'events', jsonb_build_array('completed'),
+  'secret', '',
+  'payloadVersion', 1,
+  'active', true
+))
+from public.tests
+on conflict (test_id) do nothing;
+
+-- The outbox doubles as the per-webhook delivery log.
+alter table public.submission_outbox
+  add column if not exists webhook_id text,
+  add column if not exists event text not null default 'completed' check (event in ('completed', 'started', 'expired')),
+  add column if not exists last_response_body text;
+
+update public.submission_outbox set webhook_id = 'wh-legacy-n8n' where webhook_id is null;
+
+create index if not exists submission_outbox_webhook_idx on public.submission_outbox (webhook_id, created_at desc);
@@ -0,0 +1,43 @@
+-- Immutable published versions of a test; tests.questions becomes the editable draft.
+create table if not exists public.test_versions (
+  id uuid primary key default gen_random_uuid(),
+  test_id uuid not null references public.tests (id) on delete cascade,
+  version integer not null,
+  title text not null,
+  description text,
+  questions jsonb not null default '[]'::jsonb,
+  published_at timestamptz not null default now(),
+  unique (test_id, version)
+);
+
+alter table public.test_versions enable row level security;
+
+create policy "Authenticated users read published versions"
+  on public.test_versions
+  for select
+  using (auth.role() = 'authenticated');
+
+create policy "Admins publish versions"
+  on public.test_versions
+  for insert
+  with check (public.is_admin());
+
+alter table public.tests
+  add column if not exists published_version integer,
+  add column if not exists has_draft_changes boolean not null default false;
+
+alter table public.profiles
+  add column if not exists assigned_test_version integer;
+
+alter table public.result_test
+  add column if not exists test_version integer;
+
+-- Every existing test is published as version 1, and history is pinned to it.
+insert into public.test_versions (test_id, version, title, description, questions)
+select id, 1, title, description, questions
+from public.tests
+on conflict (test_id, version) do nothing;
+
+update public.tests set published_version = 1 where published_version is null;
+update public.profiles set assigned_test_version = 1 where assigned_test_id is not null and assigned_test_version is null;
+update public.result_test set test_version = 1 where test_version is null;
@@ -0,0 +1,45 @@
+-- Reusable questions shared across tests.
+create table if not exists public.question_bank (
+  id uuid primary key default gen_random_uuid(),
+  text text not null,
+  category text,
+  type text not null check (type in ('scale', 'choice')),
+  variation text,
+  options jsonb,
+  tags text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists question_bank_tags_idx on public.question_bank using gin (tags);
+
+alter table public.question_bank enable row level security;
+
+create policy "Admins manage the question bank"
+  on public.question_bank
+  for all
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- Answers given to one bank item, for its response statistics. Only results of
+-- tests whose published versions use the item are read, and only the matching
+-- body entries are returned; the app scores them. Runs with the caller's
+-- rights, so candidates only ever see their own results.
+create or replace function public.bank_item_responses(item_id uuid)
+returns setof jsonb
+language sql
+stable
+as $$
+  select q
+  from public.result_test r
+  cross join lateral jsonb_array_elements(
+    case jsonb_typeof(r.result) when 'string' then (r.result #>> '{}')::jsonb else r.result end -> 'body'
+  ) as q
+  where r.test_id in (
+      select v.test_id
+      from public.test_versions v
+      where v.questions @> jsonb_build_array(jsonb_build_object('bankItemId', item_id::text))
+    )
+    and q ->> 'bankItemId' = item_id::text
+    and q ? 'resposta'
+$$;
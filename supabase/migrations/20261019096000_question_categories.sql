@@ -0,0 +1,65 @@
+-- Competency categories as managed data, referenced by questions through a stable id.
+create table if not exists public.question_categories (
+  id text primary key default gen_random_uuid()::text,
+  name text not null unique,
+  description text,
+  color text not null default '#10b981',
+  display_order integer not null default 0,
+  active boolean not null default true,
+  aliases text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+alter table public.question_categories enable row level security;
+
+create policy "Authenticated users read categories"
+  on public.question_categories
+  for select
+  using (auth.role() = 'authenticated');
+
+create policy "Admins manage categories"
+  on public.question_categories
+  for all
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- The eight competencies previously hard-coded in constants.ts
+insert into public.question_categories (id, name, color, display_order) values
+  ('decisao', 'Tomada de Decisão e Pensamento Crítico', '#10b981', 0),
+  ('organizacao', 'Organização, Atenção a Detalhes e Disciplina', '#3b82f6', 1),
+  ('comunicacao', 'Comunicação e Relacionamento Interpessoal', '#6366f1', 2),
+  ('resiliencia', 'Resiliência, Gestão de Pressão e Adaptação', '#f59e0b', 3),
+  ('motivadores', 'Motivadores e Valores no Trabalho', '#ec4899', 4),
+  ('equipe', 'Trabalho em Equipe e Colaboração', '#14b8a6', 5),
+  ('lideranca', 'Liderança e Gestão', '#ef4444', 6),
+  ('resultados', 'Persistência, Entrega e Orientação a Resultados', '#8b5cf6', 7)
+on conflict (id) do nothing;
+
+-- Adds "categoryId" to every question whose "category" name matches a category.
+create or replace function pg_temp.link_question_categories(questions jsonb)
+returns jsonb
+language sql
+as $$
+  select coalesce(jsonb_agg(
+    case when c.id is not null then q || jsonb_build_object('categoryId', c.id) else q end
+    order by ord
+  ), '[]'::jsonb)
+  from jsonb_array_elements(questions) with ordinality as e(q, ord)
+  left join public.question_categories c on c.name = q ->> 'category'
+$$;
+
+update public.tests
+set questions = pg_temp.link_question_categories(questions)
+where jsonb_typeof(questions) = 'array';
+
+alter table public.question_bank
+  add column if not exists category_id text references public.question_categories (id) on delete set null;
+
+update public.question_bank b
+set category_id = c.id
+from public.question_categories c
+where b.category_id is null and c.name = b.category;
+
+-- Published versions and stored results are snapshots and keep their category
+-- names as they were; the app resolves them by name or alias when reading.
+-- Only the editable drafts above are linked by id.
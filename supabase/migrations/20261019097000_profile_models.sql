@@ -0,0 +1,68 @@
+-- Per-test behavioral profile models; options reference a dimension instead of
+-- holding the profile name in "value".
+alter table public.tests
+  add column if not exists profile_model jsonb;
+
+alter table public.test_versions
+  add column if not exists profile_model jsonb;
+
+-- Moves the four legacy profile names from option "value" to "dimensionId".
+create or replace function pg_temp.migrate_profile_options(questions jsonb)
+returns jsonb
+language sql
+as $$
+  select coalesce(jsonb_agg(
+    case when jsonb_typeof(q -> 'options') = 'array' then
+      jsonb_set(q, '{options}', (
+        select coalesce(jsonb_agg(
+          case when d.id is not null
+            then o || jsonb_build_object('value', '', 'dimensionId', d.id)
+            else o end
+          order by oord
+        ), '[]'::jsonb)
+        from jsonb_array_elements(q -> 'options') with ordinality as oe(o, oord)
+        left join (values
+          ('Analítico', 'analitico'),
+          ('Organizado', 'organizado'),
+          ('Comunicativo', 'comunicativo'),
+          ('Líder', 'lider')
+        ) as d(name, id) on jsonb_typeof(o) = 'object' and d.name = o ->> 'value'
+      ))
+    else q end
+    order by ord
+  ), '[]'::jsonb)
+  from jsonb_array_elements(questions) with ordinality as e(q, ord)
+$$;
+
+-- Same content as LEGACY_PROFILE_MODEL in services/profileModels.ts
+create or replace function pg_temp.legacy_profile_model()
+returns jsonb
+language sql
+as $$
+  select '{
+    "id": "saveco-quadrants",
+    "name": "Quadrantes Save Co",
+    "dimensions": [
+      { "id": "analitico", "name": "Analítico", "color": "#3b82f6", "description": "Orientado a dados, lógica e precisão.", "interpretation": "Tende a decidir com base em análise cuidadosa e evidências." },
+      { "id": "organizado", "name": "Organizado", "color": "#10b981", "description": "Orientado a processos, rotina e disciplina.", "interpretation": "Valoriza planejamento, previsibilidade e cumprimento de prazos." },
+      { "id": "comunicativo", "name": "Comunicativo", "color": "#f59e0b", "description": "Orientado a pessoas e relacionamentos.", "interpretation": "Engaja, influencia e se expressa com facilidade em grupo." },
+      { "id": "lider", "name": "Líder", "color": "#ef4444", "description": "Orientado a resultados e tomada de decisão.", "interpretation": "Assume a frente, decide rápido e busca desafios." }
+    ]
+  }'::jsonb
+$$;
+
+update public.tests
+set questions = pg_temp.migrate_profile_options(questions)
+where jsonb_typeof(questions) = 'array';
+
+update public.tests
+set profile_model = pg_temp.legacy_profile_model()
+where profile_model is null and questions::text like '%"dimensionId"%';
+
+update public.question_bank
+set options = pg_temp.migrate_profile_options(jsonb_build_array(jsonb_build_object('options', options))) -> 0 -> 'options'
+where jsonb_typeof(options) = 'array';
+
+-- Published versions and stored results are snapshots and keep their answers
+-- and options as given; the app maps legacy profile names onto the legacy
+-- model when it reads them (services/testVersions.ts). Only drafts are migrated.
@@ -0,0 +1,4 @@
+-- Scale range, anchor labels and "not applicable" option of bank scale questions.
+-- Test questions keep this inside their questions jsonb ("scale"); missing means 1-5.
+alter table public.question_bank
+  add column if not exists scale jsonb;
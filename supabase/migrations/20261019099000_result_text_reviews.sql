@@ -0,0 +1,7 @@
+-- Reviewers score open-text answers; the scores and the rescored result are
+-- written back into result_test.result ("reviews", "scoring") by admins.
+create policy "Admins update results"
+  on public.result_test
+  for update
+  using (public.is_admin())
+  with check (public.is_admin());
@@ -0,0 +1,8 @@
+-- Tests can be divided into sections with an intro screen and a number of
+-- questions per page. Questions reference their section through "sectionId"
+-- inside the questions jsonb; the array below holds the section order.
+alter table public.tests
+  add column if not exists sections jsonb not null default '[]'::jsonb;
+
+alter table public.test_versions
+  add column if not exists sections jsonb not null default '[]'::jsonb;
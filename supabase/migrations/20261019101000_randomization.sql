@@ -0,0 +1,11 @@
+-- Per-test shuffling of question and option order. The seed of each attempt
+-- is kept with its autosave so a resumed attempt shows the same order, and it
+-- travels in the submission payload (result_test.result.shuffle_seed).
+alter table public.tests
+  add column if not exists randomization jsonb;
+
+alter table public.test_versions
+  add column if not exists randomization jsonb;
+
+alter table public.test_progress
+  add column if not exists shuffle_seed bigint;
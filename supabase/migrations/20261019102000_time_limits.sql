@@ -0,0 +1,12 @@
+-- Optional overall time limit per test ({ "minutes": 30, "onExpiry": "submit" | "lock" }).
+-- The time spent per question is kept with the autosave, so reloading the page
+-- does not lose timings. The clock runs from the start recorded on the
+-- assignment (test_assignments.started_at), which candidates cannot change.
+alter table public.tests
+  add column if not exists time_limit jsonb;
+
+alter table public.test_versions
+  add column if not exists time_limit jsonb;
+
+alter table public.test_progress
+  add column if not exists question_times jsonb not null default '{}'::jsonb;
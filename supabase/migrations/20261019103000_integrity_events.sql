@@ -0,0 +1,11 @@
+-- Optional per-test integrity settings ({ "warnOnLeave": true }). Integrity
+-- events (leaving the tab, pastes, resizes, devtools) are recorded for every
+-- attempt and kept with the autosave until they travel with the submission.
+alter table public.tests
+  add column if not exists integrity jsonb;
+
+alter table public.test_versions
+  add column if not exists integrity jsonb;
+
+alter table public.test_progress
+  add column if not exists integrity_events jsonb not null default '[]'::jsonb;
@@ -0,0 +1,68 @@
+-- Assignment of a test to a candidate, with its deadlines. 'due_at' is the
+-- date HR expects the test by (overdue afterwards, still allowed); past
+-- 'expires_at' the attempt is refused and the candidate moves to 'expired'.
+create table if not exists public.test_assignments (
+  id uuid primary key default gen_random_uuid(),
+  candidate_id uuid not null references public.profiles (id) on delete cascade,
+  test_id uuid not null references public.tests (id) on delete cascade,
+  test_version integer,
+  invited_at timestamptz not null default now(),
+  due_at timestamptz,
+  expires_at timestamptz,
+  updated_at timestamptz not null default now(),
+  unique (candidate_id, test_id),
+  check (expires_at is null or due_at is null or expires_at >= due_at)
+);
+
+create index if not exists test_assignments_expires_idx on public.test_assignments (expires_at);
+
+alter table public.test_assignments enable row level security;
+
+create policy "Candidates read their own assignments"
+  on public.test_assignments
+  for select
+  using (auth.uid() = candidate_id);
+
+create policy "Admins manage all assignments"
+  on public.test_assignments
+  for all
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- Existing assignments start from the candidate's registration, without deadlines.
+insert into public.test_assignments (candidate_id, test_id, test_version, invited_at)
+select id, assigned_test_id, assigned_test_version, coalesce(created_at, now())
+from public.profiles
+where assigned_test_id is not null
+on conflict (candidate_id, test_id) do nothing;
+
+-- Moves candidates whose assignment expired before they finished to 'expired'.
+-- The app applies the same rule when it loads candidates; this keeps the
+-- status right for reports and webhooks even when nobody opens the app.
+create or replace function public.expire_overdue_assignments()
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  with expired as (
+    update public.profiles p
+    set status = 'expired'
+    from public.test_assignments a
+    where a.candidate_id = p.id
+      and a.test_id = p.assigned_test_id
+      and a.expires_at < now()
+      and coalesce(p.status, 'pending') in ('pending', 'in-progress')
+    returning p.id
+  )
+  select count(*)::integer from expired
+$$;
+
+-- Hourly when pg_cron is available
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('expire-overdue-assignments', '0 * * * *', 'select public.expire_overdue_assignments()');
+  end if;
+end
+$$;
@@ -0,0 +1,329 @@
+-- Test batteries: a candidate's assignments form an ordered list, each with
+-- its own status. profiles.status becomes the status of the whole battery and
+-- profiles.assigned_test_id keeps its first test for older integrations.
+alter table public.test_assignments
+  add column if not exists position integer not null default 0,
+  add column if not exists status text not null default 'pending'
+    check (status in ('pending', 'in-progress', 'completed', 'expired')),
+  add column if not exists started_at timestamptz,
+  add column if not exists completed_at timestamptz;
+
+create index if not exists test_assignments_candidate_idx on public.test_assignments (candidate_id, position);
+
+-- Results and deliveries belong to one assignment, so a test assigned again
+-- starts clean instead of picking up an earlier attempt's result or deliveries.
+alter table public.result_test
+  add column if not exists assignment_id uuid references public.test_assignments (id) on delete set null;
+
+alter table public.submission_outbox
+  add column if not exists assignment_id uuid references public.test_assignments (id) on delete set null;
+
+update public.result_test r
+set assignment_id = a.id
+from public.test_assignments a
+where r.assignment_id is null and a.candidate_id = r.candidate_id and a.test_id = r.test_id;
+
+update public.submission_outbox o
+set assignment_id = a.id
+from public.test_assignments a
+where o.assignment_id is null and a.candidate_id = o.candidate_id and a.test_id = o.test_id;
+
+create index if not exists result_test_assignment_idx on public.result_test (assignment_id);
+create index if not exists submission_outbox_assignment_idx on public.submission_outbox (assignment_id, event);
+
+-- Saved progress is keyed on the assignment as well; progress of a test that
+-- is no longer assigned can never be resumed and is dropped.
+alter table public.test_progress
+  add column if not exists assignment_id uuid references public.test_assignments (id) on delete cascade;
+
+update public.test_progress p
+set assignment_id = a.id
+from public.test_assignments a
+where p.assignment_id is null and a.candidate_id = p.candidate_id and a.test_id = p.test_id;
+
+delete from public.test_progress where assignment_id is null;
+
+alter table public.test_progress
+  drop constraint if exists test_progress_pkey,
+  alter column assignment_id set not null,
+  add primary key (assignment_id);
+
+drop policy if exists "Candidates manage their own progress" on public.test_progress;
+create policy "Candidates manage their own progress"
+  on public.test_progress
+  for all
+  using (auth.uid() = candidate_id)
+  with check (
+    auth.uid() = candidate_id
+    and exists (select 1 from public.test_assignments a where a.id = assignment_id and a.candidate_id = auth.uid())
+  );
+
+-- Existing single assignments carry the candidate's status over.
+update public.test_assignments a
+set status = p.status,
+    completed_at = case when p.status = 'completed' then coalesce(p.completed_date::timestamptz, now()) end
+from public.profiles p
+where a.candidate_id = p.id
+  and a.test_id = p.assigned_test_id
+  and p.status in ('in-progress', 'completed', 'expired');
+
+-- Candidates move their own assignments through 'in-progress' and 'completed'.
+create policy "Candidates update their own assignments"
+  on public.test_assignments
+  for update
+  using (auth.uid() = candidate_id)
+  with check (auth.uid() = candidate_id);
+
+-- Whether this is the test the candidate may take now: no test before it in
+-- the battery is still unfinished and within its expiry date.
+create or replace function public.is_current_assignment(assignment public.test_assignments)
+returns boolean
+language sql
+stable
+as $$
+  select not exists (
+    select 1
+    from public.test_assignments earlier
+    where earlier.candidate_id = assignment.candidate_id
+      and earlier.position < assignment.position
+      and earlier.status in ('pending', 'in-progress')
+      and not coalesce(earlier.expires_at < now(), false)
+  )
+$$;
+
+-- ...but only admins may change which test, its order or its deadlines, and a
+-- candidate's status only moves forward, one test of the battery at a time:
+-- pending -> in-progress (through start_assignment) -> completed (once its
+-- result is stored), or to expired once the expiry date has passed without a
+-- stored result. An expired assignment stays expired until an admin extends
+-- it. Security definer functions and jobs (service role, pg_cron) do not run
+-- as 'authenticated' and are not limited.
+create or replace function public.protect_assignment_terms()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.is_admin() or current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  if new.candidate_id is distinct from old.candidate_id or
+     new.test_id is distinct from old.test_id or
+     new.test_version is distinct from old.test_version or
+     new.position is distinct from old.position or
+     new.invited_at is distinct from old.invited_at or
+     new.due_at is distinct from old.due_at or
+     new.expires_at is distinct from old.expires_at or
+     new.started_at is distinct from old.started_at then
+    raise exception 'Only admins can change the terms of an assignment';
+  end if;
+
+  if new.status is distinct from old.status and not (
+    (old.status = 'in-progress' and new.status = 'completed' and not coalesce(old.expires_at < now(), false)
+      and public.is_current_assignment(old)
+      and exists (select 1 from public.result_test r where r.assignment_id = old.id)) or
+    (old.status in ('pending', 'in-progress') and new.status = 'expired' and old.expires_at < now()
+      and not exists (select 1 from public.result_test r where r.assignment_id = old.id))
+  ) then
+    raise exception 'Assignment status cannot change from % to %', old.status, new.status;
+  end if;
+
+  new.completed_at := case
+    when new.status = 'completed' and old.status <> 'completed' then now()
+    else old.completed_at
+  end;
+  return new;
+end
+$$;
+
+drop trigger if exists protect_assignment_terms on public.test_assignments;
+create trigger protect_assignment_terms
+  before update on public.test_assignments
+  for each row execute function public.protect_assignment_terms();
+
+-- Status of the whole battery, as computed by the app (services/assignments.ts)
+create or replace function public.battery_status(candidate uuid)
+returns text
+language sql
+stable
+as $$
+  select case
+    when count(*) = 0 then null
+    when bool_and(status = 'completed') then 'completed'
+    when bool_or(status = 'in-progress') or (bool_or(status = 'completed') and bool_or(status = 'pending')) then 'in-progress'
+    when bool_or(status = 'pending') then 'pending'
+    else 'expired'
+  end
+  from public.test_assignments
+  where candidate_id = candidate
+$$;
+
+-- Starts, or resumes, the caller's attempt at the current test of their
+-- battery. The
+-- first call records started_at, the start of the time limit, and pins the
+-- latest published version when none was pinned. started_at is kept when an
+-- admin extends an expired assignment, so 'started' is announced only once.
+create or replace function public.start_assignment(assignment_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  a public.test_assignments;
+begin
+  select * into a
+  from public.test_assignments
+  where id = assignment_id and candidate_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Assignment not found';
+  end if;
+  if a.status not in ('pending', 'in-progress') or a.expires_at < now() then
+    raise exception 'Assignment cannot be started (status %)', a.status;
+  end if;
+  if not public.is_current_assignment(a) then
+    raise exception 'The earlier tests of the battery must be finished first';
+  end if;
+
+  update public.test_assignments
+  set started_at = coalesce(started_at, now()),
+      test_version = coalesce(test_version, (select max(v.version) from public.test_versions v where v.test_id = a.test_id)),
+      status = 'in-progress',
+      updated_at = now()
+  where id = a.id
+  returning * into a;
+
+  update public.profiles
+  set status = public.battery_status(a.candidate_id)
+  where id = a.candidate_id;
+
+  return jsonb_build_object(
+    'started_at', a.started_at,
+    'test_version', a.test_version,
+    'first_start', a.started_at = now()
+  );
+end
+$$;
+
+-- A candidate's result must come from an attempt they started and have not
+-- submitted yet, answer the version pinned at that start and arrive within the
+-- time limit counted from it, plus a short grace for the automatic submission
+-- to arrive. Past that the attempt stays locked whatever the browser sends.
+create or replace function public.check_result_attempt()
+returns trigger
+language plpgsql
+as $$
+declare
+  a public.test_assignments;
+  limit_minutes numeric;
+begin
+  if public.is_admin() or current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  select * into a
+  from public.test_assignments
+  where id = new.assignment_id and candidate_id = new.candidate_id and test_id = new.test_id;
+
+  if not found or a.status <> 'in-progress' or a.started_at is null then
+    raise exception 'No attempt in progress for this test';
+  end if;
+  if a.expires_at < now() then
+    raise exception 'The assignment expired at %', a.expires_at;
+  end if;
+  if exists (select 1 from public.result_test r where r.assignment_id = a.id) then
+    raise exception 'This attempt was already submitted';
+  end if;
+  if new.test_version is distinct from a.test_version then
+    raise exception 'The result does not answer the version of the attempt';
+  end if;
+
+  select (v.time_limit ->> 'minutes')::numeric into limit_minutes
+  from public.test_versions v
+  where v.test_id = a.test_id and v.version = a.test_version;
+
+  if limit_minutes > 0 and now() > a.started_at + make_interval(secs => limit_minutes * 60) + interval '2 minutes' then
+    raise exception 'The time limit of this test is over';
+  end if;
+  return new;
+end
+$$;
+
+drop trigger if exists check_result_attempt on public.result_test;
+create trigger check_result_attempt
+  before insert on public.result_test
+  for each row execute function public.check_result_attempt();
+
+-- Tells the deliver-webhooks edge function about assignments the database
+-- expired, so 'expired' webhooks fire without a browser. Needs pg_net and the
+-- vault secrets 'project_url' and 'service_role_key'; without them only the
+-- expiries seen by the app are announced.
+create or replace function public.announce_expired(assignment_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  project_url text;
+  service_key text;
+  target uuid;
+begin
+  if coalesce(array_length(assignment_ids, 1), 0) = 0
+    or not exists (select 1 from pg_extension where extname = 'pg_net')
+    or not exists (select 1 from pg_extension where extname = 'supabase_vault') then
+    return;
+  end if;
+
+  select decrypted_secret into project_url from vault.decrypted_secrets where name = 'project_url';
+  select decrypted_secret into service_key from vault.decrypted_secrets where name = 'service_role_key';
+  if project_url is null or service_key is null then
+    return;
+  end if;
+
+  foreach target in array assignment_ids loop
+    perform net.http_post(
+      url := project_url || '/functions/v1/deliver-webhooks',
+      headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || service_key),
+      body := jsonb_build_object('event', 'expired', 'assignmentId', target)
+    );
+  end loop;
+end
+$$;
+
+revoke execute on function public.announce_expired(uuid[]) from public, anon, authenticated;
+
+-- Expiry now applies per assignment; the profile follows its battery. An
+-- assignment whose result is stored only waits for its delivery and never expires.
+create or replace function public.expire_overdue_assignments()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  candidates uuid[];
+  assignment_ids uuid[];
+begin
+  with expired as (
+    update public.test_assignments
+    set status = 'expired', updated_at = now()
+    where expires_at < now()
+      and status in ('pending', 'in-progress')
+      and not exists (select 1 from public.result_test r where r.assignment_id = test_assignments.id)
+    returning id, candidate_id
+  )
+  select array_agg(candidate_id), array_agg(id) into candidates, assignment_ids from expired;
+
+  -- A separate statement, so battery_status sees the new assignment statuses
+  update public.profiles
+  set status = public.battery_status(id)
+  where id = any(coalesce(candidates, '{}'));
+
+  perform public.announce_expired(assignment_ids);
+
+  return coalesce(array_length(assignment_ids, 1), 0);
+end
+$$;
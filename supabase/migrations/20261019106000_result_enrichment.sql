@@ -0,0 +1,40 @@
+-- The app stores every result itself, and the 'completed' webhook tells the
+-- original n8n workflow its 'result_id'. That workflow still inserts its own
+-- row, without an assignment: instead of a second result for the same attempt,
+-- its AI enrichment is merged into the stored row (the app's keys win) and the
+-- insert is dropped. Candidates always insert with an assignment and are not
+-- affected.
+create or replace function public.merge_result_enrichment()
+returns trigger
+language plpgsql
+as $$
+declare
+  stored_id uuid;
+begin
+  if new.assignment_id is not null or current_user in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  select r.id into stored_id
+  from public.result_test r
+  where r.candidate_id = new.candidate_id
+    and r.test_id = new.test_id
+    and r.assignment_id is not null
+  order by r.created_at desc
+  limit 1;
+
+  if stored_id is null then
+    return new;
+  end if;
+
+  update public.result_test
+  set result = coalesce(new.result, '{}'::jsonb) || result
+  where id = stored_id;
+  return null;
+end
+$$;
+
+drop trigger if exists merge_result_enrichment on public.result_test;
+create trigger merge_result_enrichment
+  before insert on public.result_test
+  for each row execute function public.merge_result_enrichment();
@@ -1,19 +1,151 @@
 export type UserRole = 'admin' | 'candidate' | null;
 
-export type ViewState = 'dashboard' | 'candidates' | 'tests' | 'results' | 'candidate-login' | 'candidate-test' | 'candidate-complete' | 'admin-users';
+export type ViewState = 'dashboard' | 'candidates' | 'tests' | 'question-bank' | 'results' | 'candidate-login' | 'candidate-test' | 'candidate-complete' | 'admin-users' | 'deliveries' | 'categories';
 
 export interface QuestionOption {
   text: string;
-  value: string; // '0'-'10' or 'Analítico', 'Líder', etc.
+  value: string; // score '0'-'10' or empty; legacy options may still hold a profile name here
+  dimensionId?: string; // ProfileDimension.id of the test's profile model
+  effectiveness?: number; // sjt only: expert-keyed effectiveness, 1-5
+}
+
+export interface ProfileDimension {
+  id: string;
+  name: string;
+  color: string;
+  description?: string;
+  interpretation?: string; // shown in results when this dimension predominates
+}
+
+export interface ProfileModel {
+  id: string; // preset id, or 'custom'
+  name: string;
+  dimensions: ProfileDimension[];
+}
+
+export interface ScaleConfig {
+  min: number;
+  max: number;
+  labels?: Record<string, string>; // anchor label per point, keyed by the point value
+  allowNotApplicable?: boolean; // offers a "not applicable" answer that is left out of scoring
+}
+
+export interface RubricLevel {
+  score: number;
+  label: string;
+  description?: string; // what an answer at this level looks like
+}
+
+export interface TextAnswerReview {
+  score: number; // one of the question's rubric scores
+  reviewerId?: string;
+  reviewedAt: string;
+}
+
+// Shows a question only when an earlier answer matches. Scale answers compare
+// by point ("4"), choice answers by option text (the 'most' or first-ranked pick).
+export interface QuestionCondition {
+  questionId: string;
+  operator: 'equals' | 'in';
+  values: string[]; // one value for 'equals'
 }
 
 export interface Question {
   id: string;
   text: string;
-  category?: string; // New field for behavioral competency
-  type: 'scale' | 'choice'; // scale 1-5 or multiple choice
+  category?: string; // Name snapshot of the competency, kept for display and older results
+  categoryId?: string; // question_categories.id, the stable reference
+  type: 'scale' | 'choice' | 'text' | 'sjt'; // scale (see 'scale', 1-5 by default), multiple choice, open text or situational judgment
+  scenario?: string; // sjt only: the situation the actions respond to
+  scale?: ScaleConfig;
+  minLength?: number; // text only, in characters
+  maxLength?: number; // text only, in characters
+  rubric?: RubricLevel[]; // text only: levels reviewers score the answer against
   options?: QuestionOption[]; // Updated to support text + value pair
-  variation?: 'single' | 'most_least'; // 'single' for one answer, 'most_least' for identifying traits
+  variation?: 'single' | 'most_least' | 'ranking'; // 'single' for one answer, 'most_least' for identifying traits, 'ranking' orders all options
+  reverse?: boolean; // scale only: negatively worded item, the top of the scale counts as the lowest score
+  weight?: number; // contribution to its category average, default 1
+  sectionId?: string; // TestSection.id; questions without one come before the first section
+  showIf?: QuestionCondition; // shown only when the condition holds; otherwise skipped and stored as not shown
+  pairKey?: string; // scale only: items sharing a key measure the same thing, so their scored answers should agree
+  socialDesirability?: boolean; // scale only: validity item that only an "ideal" candidate would fully agree with
+  bankItemId?: string; // question_bank item this question came from
+  bankLink?: 'reference' | 'copy'; // 'reference' follows bank edits, 'copy' is independent
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  description?: string;
+  color: string; // hex, used in charts
+  displayOrder: number;
+  active: boolean;
+  aliases: string[]; // previous names, so snapshots taken before a rename still resolve
+}
+
+export interface BankQuestion {
+  id: string;
+  text: string;
+  category?: string;
+  categoryId?: string;
+  type: 'scale' | 'choice';
+  scale?: ScaleConfig;
+  variation?: 'single' | 'most_least' | 'ranking';
+  options?: QuestionOption[];
+  tags: string[];
+  updatedAt?: string;
+}
+
+export interface BankItemStats {
+  responses: number;
+  averageScore: number | null; // 0-100, numeric answers only
+  optionCounts: Record<string, number>; // picked option text -> count
+}
+
+export type WebhookEvent = 'completed' | 'started' | 'expired';
+
+export interface WebhookConfig {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  secret?: string; // HMAC-SHA256 signing secret
+  payloadVersion: 1 | 2; // 1 = legacy flat payload, 2 = event envelope
+  active: boolean;
+}
+
+export interface TestSection {
+  id: string;
+  title: string; // e.g. "Parte 1 – Estilo de trabalho"
+  intro?: string; // shown on the section's intro screen
+  instructions?: string;
+  questionsPerPage?: number; // default 1
+}
+
+// How the candidate's copy of a test is shuffled. 'within_sections' keeps the
+// section order and shuffles the questions inside each one; 'all' also shuffles
+// the sections. Tests without sections shuffle the same way with either.
+export interface Randomization {
+  questions: 'fixed' | 'all' | 'within_sections';
+  options: boolean; // shuffle the options of choice questions
+}
+
+export interface TimeLimit {
+  minutes: number;
+  onExpiry: 'submit' | 'lock'; // send what was answered, or block the attempt
+}
+
+export interface IntegritySettings {
+  warnOnLeave: boolean; // show the candidate a warning when they come back to the test tab
+}
+
+export type IntegrityEventType = 'focus_lost' | 'paste' | 'resize' | 'devtools';
+
+export interface IntegrityEvent {
+  type: IntegrityEventType;
+  at: string; // ISO timestamp
+  durationMs?: number; // focus_lost: how long the candidate stayed away
+  detail?: string; // e.g. pasted length or new window size
+  questionId?: string; // paste: question whose field received the text
 }
 
 export interface Test {
@@ -21,7 +153,57 @@ export interface Test {
   title: string;
   description: string;
   questions: Question[];
+  sections?: TestSection[]; // display order of the sections
+  randomization?: Randomization | null;
+  time_limit?: TimeLimit | null;
+  integrity?: IntegritySettings | null;
   active: boolean;
+  profile_model?: ProfileModel | null;
+  // Mirrors of tests.published_version / tests.has_draft_changes. 'questions' above is the editable draft.
+  published_version?: number | null;
+  has_draft_changes?: boolean;
+}
+
+export interface TestVersion {
+  id: string;
+  testId: string;
+  version: number;
+  title: string;
+  description: string;
+  questions: Question[];
+  sections?: TestSection[];
+  randomization?: Randomization | null;
+  timeLimit?: TimeLimit | null;
+  integrity?: IntegritySettings | null;
+  profileModel?: ProfileModel | null;
+  publishedAt: string;
+}
+
+export type QuestionChange = 'added' | 'removed' | 'changed' | 'moved';
+
+export interface QuestionDiff {
+  questionId: string;
+  change: QuestionChange;
+  before?: Question;
+  after?: Question;
+  fields: string[]; // changed fields when change === 'changed'
+}
+
+export type CandidateStatus = 'pending' | 'in-progress' | 'completed' | 'expired';
+
+// One test of a candidate's battery
+export interface TestAssignment {
+  id: string;
+  candidateId: string;
+  testId: string;
+  testVersion: number | null;
+  position: number; // order within the battery
+  status: CandidateStatus;
+  invitedAt: string;
+  dueAt: string | null; // expected by this date; overdue afterwards, still allowed
+  expiresAt: string | null; // attempts are refused after this date
+  startedAt: string | null; // first opened by the candidate; kept across extensions
+  completedAt: string | null;
 }
 
 export interface Candidate {
@@ -29,8 +211,8 @@ export interface Candidate {
   name: string;
   email: string;
   password?: string;
-  status: 'pending' | 'in-progress' | 'completed';
-  assignedTestId?: string;
+  status: CandidateStatus; // status of the whole battery
+  assignments?: TestAssignment[]; // the battery, in order
   score?: number; // Simplified score for demo
   completedDate?: string;
 }
@@ -47,4 +229,85 @@ export enum ChartColor {
   Secondary = '#3b82f6', // Blue 500
   Tertiary = '#6366f1', // Indigo 500
   Neutral = '#9ca3af', // Gray 400
-}
\ No newline at end of file
+}
+export interface TestProgress {
+  assignmentId: string;
+  candidateId: string;
+  testId: string;
+  answers: Record<string, any>;
+  currentStep: number;
+  shuffleSeed?: number | null; // seed of the question/option order this attempt was shown
+  questionTimes?: Record<string, number>; // milliseconds spent on each question, by question id
+  integrityEvents?: IntegrityEvent[]; // tab switches, pastes etc. recorded so far
+  updatedAt?: string;
+}
+
+export interface CategoryScore {
+  category: string; // name at scoring time
+  categoryId?: string;
+  score: number; // normalized 0-100
+  count: number; // answered items that contributed
+}
+
+export interface ScoringResult {
+  version: number;
+  categories: CategoryScore[];
+  profileCounts: Record<string, number>; // 'single' and 'most' picks per dimension id (legacy: profile name)
+  profileLeastCounts: Record<string, number>; // 'least' picks per dimension id (legacy: profile name)
+  answered: number;
+  total: number;
+  pendingReviews?: number; // text answers still waiting for a reviewer score
+}
+
+export type ValidityStatus = 'ok' | 'caution' | 'invalid' | 'not_applicable';
+
+export interface ValidityIndicator {
+  id: 'straight_lining' | 'inconsistency' | 'extreme_responding' | 'social_desirability' | 'speed';
+  label: string;
+  status: ValidityStatus;
+  detail: string; // what was measured, in words HR can act on
+}
+
+export interface ValidityReport {
+  status: ValidityStatus; // the worst indicator; 'not_applicable' when none could be computed
+  indicators: ValidityIndicator[];
+}
+
+export type OutboxStatus = 'pending' | 'delivered' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  candidateId: string;
+  testId: string;
+  assignmentId?: string | null;
+  resultId?: string | null;
+  webhookId?: string | null;
+  event: WebhookEvent;
+  targetUrl: string;
+  payload: Record<string, any>;
+  status: OutboxStatus;
+  attempts: number;
+  lastStatusCode?: number | null;
+  lastError?: string | null;
+  lastResponseBody?: string | null;
+  createdAt: string;
+  deliveredAt?: string | null;
+}
+
+export interface ImportIssue {
+  row: number; // 1-based line in the CSV, or question position in the JSON file
+  message: string;
+}
+
+export interface ImportPreview {
+  title: string;
+  description: string;
+  questions: Question[];
+  questionRows: number[]; // source row of each question, parallel to 'questions'
+  issues: ImportIssue[];
+  profileModel: ProfileModel | null;
+  sections: TestSection[];
+  randomization: Randomization | null; // JSON only
+  timeLimit: TimeLimit | null; // JSON only
+  integrity: IntegritySettings | null; // JSON only
+}